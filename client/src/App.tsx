@@ -5,6 +5,11 @@ import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import CrossChainExplorerPage from "@/pages/cross-chain-explorer";
+import DvnRegistryPage from "@/pages/dvn-registry";
+import OAppInspectorPage from "@/pages/oapp-inspector";
+import ChangesPage from "@/pages/changes";
+import NetworkPage from "@/pages/network";
+import ChainPage from "@/pages/chain";
 import "./fonts.css";
 
 // Simple Navigation component
@@ -22,6 +27,18 @@ function Navigation() {
           <Link href="/cross-chain-explorer" className={`text-sm ${location === '/cross-chain-explorer' ? 'font-medium' : 'text-muted-foreground'}`}>
             Cross-Chain Explorer
           </Link>
+          <Link href="/network" className={`text-sm ${location === '/network' ? 'font-medium' : 'text-muted-foreground'}`}>
+            Pathways
+          </Link>
+          <Link href="/dvns" className={`text-sm ${location === '/dvns' ? 'font-medium' : 'text-muted-foreground'}`}>
+            DVN Registry
+          </Link>
+          <Link href="/oapp" className={`text-sm ${location === '/oapp' ? 'font-medium' : 'text-muted-foreground'}`}>
+            OApp Inspector
+          </Link>
+          <Link href="/changes" className={`text-sm ${location === '/changes' ? 'font-medium' : 'text-muted-foreground'}`}>
+            What Changed
+          </Link>
         </nav>
       </div>
     </header>
@@ -35,6 +52,11 @@ function Router() {
       <Switch>
         <Route path="/" component={Home}/>
         <Route path="/cross-chain-explorer" component={CrossChainExplorerPage}/>
+        <Route path="/chains/:chainKey" component={ChainPage}/>
+        <Route path="/network" component={NetworkPage}/>
+        <Route path="/dvns" component={DvnRegistryPage}/>
+        <Route path="/oapp" component={OAppInspectorPage}/>
+        <Route path="/changes" component={ChangesPage}/>
         <Route component={NotFound} />
       </Switch>
     </>
@@ -0,0 +1,136 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ShieldCheck, Loader2 } from "lucide-react";
+import { BytecodeCheckStatus, ProcessedDeployment } from "@shared/types";
+import { CONTRACT_DEFINITIONS } from "@shared/contracts";
+import { fetchDeploymentBytecode, startBytecodeVerification } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { truncateAddress } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+
+interface BytecodeVerificationPanelProps {
+  deployment: ProcessedDeployment;
+}
+
+const STATUS_STYLES: Record<BytecodeCheckStatus, { label: string; className: string }> = {
+  match: { label: 'Match', className: 'bg-success/10 text-success border-success/20' },
+  immutables: { label: 'Immutables differ', className: 'bg-secondary/10 text-secondary border-secondary/20' },
+  mismatch: { label: 'Mismatch', className: 'bg-destructive/10 text-destructive border-destructive/20' },
+  missing: { label: 'No code', className: 'bg-destructive/10 text-destructive border-destructive/20' },
+  eoa: { label: 'EOA', className: 'bg-destructive/10 text-destructive border-destructive/20' },
+  error: { label: 'Read failed', className: 'bg-foreground/10 text-foreground/70 border-foreground/20' },
+  skipped: { label: 'Skipped', className: 'bg-foreground/5 text-foreground/50 border-foreground/10' },
+};
+
+function kindLabel(kind: string): string {
+  return CONTRACT_DEFINITIONS.find(def => def.kind === kind)?.label || kind;
+}
+
+/**
+ * On-chain check of the deployment's contracts: whether each one has code, and whether
+ * that code matches the same contract on the other chains of the stage.
+ */
+export default function BytecodeVerificationPanel({ deployment }: BytecodeVerificationPanelProps) {
+  const { toast } = useToast();
+
+  const { data } = useQuery({
+    queryKey: ['/api/deployments', deployment.id, 'bytecode'],
+    queryFn: () => fetchDeploymentBytecode(deployment.id),
+    // Poll while a verification job is running
+    refetchInterval: (query) => query.state.data?.job?.status === 'running' ? 2000 : false,
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: () => startBytecodeVerification(deployment.stage),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/deployments', deployment.id, 'bytecode'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Verification Failed to Start",
+        description: error instanceof Error ? error.message : "Could not start the bytecode verification",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const job = data?.job;
+  const report = data?.report;
+  const running = job?.status === 'running';
+
+  return (
+    <div className="glass-panel p-5 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-foreground flex items-center">
+          <div className="w-6 h-6 bg-success/20 rounded-md flex items-center justify-center mr-2">
+            <ShieldCheck className="text-success h-4 w-4" />
+          </div>
+          Bytecode Verification
+        </h3>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => verifyMutation.mutate()}
+          disabled={running || verifyMutation.isPending}
+          className="border-secondary/20 bg-background/50"
+        >
+          {running ? (
+            <>
+              <Loader2 className="h-3.5 w-3.5 mr-2 animate-spin" />
+              Checking {job.progress.done}/{job.progress.total || '…'} deployments
+            </>
+          ) : `Verify ${deployment.stage} contracts`}
+        </Button>
+      </div>
+
+      {job?.status === 'failed' && (
+        <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-sm text-destructive">
+          Verification failed: {job.error}
+        </div>
+      )}
+
+      {!report ? (
+        <p className="text-sm text-foreground/60">
+          {running
+            ? 'Reading every contract in this stage; results appear when all chains are done.'
+            : 'Reads each contract through the lzRead RPC layer and compares its code with the same contract on every other chain.'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-xs text-foreground/50">
+            Checked {new Date(report.checkedAt).toLocaleString()}
+            {report.blockNumber !== undefined && ` at block ${report.blockNumber}`}
+          </p>
+          {report.contracts.map(check => (
+            <div key={`${check.kind}-${check.address}`} className="p-3 rounded-lg bg-background/50 border border-secondary/10 space-y-1">
+              <div className="flex justify-between items-center gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs uppercase tracking-wider font-medium text-foreground/60">{kindLabel(check.kind)}</span>
+                  <span className="text-xs font-mono text-foreground/70">{truncateAddress(check.address)}</span>
+                </div>
+                <Badge variant="outline" className={STATUS_STYLES[check.status].className}>
+                  {STATUS_STYLES[check.status].label}
+                </Badge>
+              </div>
+              {check.codeHash && (
+                <p className="text-xs font-mono text-foreground/60 break-all">
+                  {check.codeSize} bytes · {truncateAddress(check.codeHash, 10, 8)}
+                  {check.proxy && ` · ${check.proxy.kind} proxy of ${truncateAddress(check.implementation || '')}`}
+                </p>
+              )}
+              {check.comparedChains !== undefined && check.comparedChains > 1 && (
+                <p className="text-xs text-foreground/60">
+                  {check.status === 'match'
+                    ? `Same code on ${check.matchingChains} of ${check.comparedChains} chains`
+                    : `Most common code (${truncateAddress(check.referenceHash || '', 10, 8)}) is on ${check.matchingChains} of ${check.comparedChains} chains`}
+                </p>
+              )}
+              {check.detail && <p className="text-xs text-foreground/60">{check.detail}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
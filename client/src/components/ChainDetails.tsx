@@ -0,0 +1,194 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { ExternalLink } from 'lucide-react';
+import { fetchChain } from '@/lib/api';
+import { DvnDeployment } from '@shared/types';
+import { getEndpointAddress } from '@shared/contracts';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { truncateAddress } from '@/lib/utils';
+
+interface ChainDetailsProps {
+  chainKey: string;
+}
+
+function ChainDetails({ chainKey }: ChainDetailsProps) {
+  const { data: chain, isLoading, error } = useQuery({
+    queryKey: ['/api/chains', chainKey],
+    queryFn: () => fetchChain(chainKey),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="w-full max-w-7xl mx-auto p-4 space-y-4">
+        <Skeleton className="h-40 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !chain) {
+    return (
+      <Alert variant="destructive" className="max-w-7xl mx-auto">
+        <AlertTitle>Chain not found</AlertTitle>
+        <AlertDescription>
+          No metadata is available for "{chainKey}".
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  // Group DVNs by provider so each provider shows once with its stages
+  const dvnsByProvider = chain.dvns.reduce((groups, dvn) => {
+    (groups[dvn.canonicalName] = groups[dvn.canonicalName] || []).push(dvn);
+    return groups;
+  }, {} as Record<string, DvnDeployment[]>);
+
+  return (
+    <div className="w-full max-w-7xl mx-auto p-4 space-y-6">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <div className="flex flex-wrap items-center gap-2">
+            <CardTitle>{chain.name}</CardTitle>
+            <Badge variant={chain.chainStatus === 'DEPRECATED' ? 'destructive' : 'default'}>
+              {chain.chainStatus || 'UNKNOWN'}
+            </Badge>
+            {chain.chainLayer && <Badge variant="outline">{chain.chainLayer}</Badge>}
+            {chain.chainType && <Badge variant="outline">{chain.chainType}</Badge>}
+          </div>
+          <CardDescription className="font-mono">{chain.chainKey}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-xs text-muted-foreground">Native chain ID</p>
+              <p className="font-mono">{chain.nativeChainId ?? 'N/A'}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Native currency</p>
+              <p className="font-mono">
+                {chain.nativeCurrency
+                  ? `${chain.nativeCurrency.symbol} (${chain.nativeCurrency.decimals} decimals)`
+                  : 'N/A'}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Price ids</p>
+              <p className="font-mono text-sm">
+                {chain.nativeCurrency?.cgId ? `CoinGecko: ${chain.nativeCurrency.cgId}` : 'CoinGecko: N/A'}
+                <br />
+                {chain.nativeCurrency?.cmcId ? `CMC: ${chain.nativeCurrency.cmcId}` : 'CMC: N/A'}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Endpoint IDs</p>
+              <p className="font-mono">{chain.eids.length}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Stages</CardTitle>
+          <CardDescription>Metadata as reported for each stage of this chain</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {chain.stages.map(stage => (
+            <div key={stage.stage} className="p-3 rounded-md border">
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <span className="font-medium">{stage.stage}</span>
+                {stage.chainStatus && (
+                  <Badge variant={stage.chainStatus === 'DEPRECATED' ? 'destructive' : 'secondary'}>
+                    {stage.chainStatus}
+                  </Badge>
+                )}
+                {stage.nativeChainId !== undefined && (
+                  <span className="text-xs text-muted-foreground font-mono">chain ID {stage.nativeChainId}</span>
+                )}
+              </div>
+              {stage.blockExplorers.length > 0 ? (
+                <div className="flex flex-wrap gap-3">
+                  {stage.blockExplorers.map(url => (
+                    <a
+                      key={url}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center text-sm text-secondary hover:text-accent"
+                    >
+                      {url}
+                      <ExternalLink className="h-3 w-3 ml-1" />
+                    </a>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No block explorers listed</p>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Endpoint IDs</CardTitle>
+          <CardDescription>Every EID registered for this chain across versions and stages</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {chain.deployments.length === 0 ? (
+            <p className="text-muted-foreground">No deployments are listed for this chain.</p>
+          ) : (
+            chain.deployments.map(deployment => (
+              <div key={deployment.id} className="flex flex-wrap items-center gap-3 py-2 border-t text-sm">
+                <span className="font-mono font-medium">{deployment.eid}</span>
+                <Badge variant="outline">V{deployment.version}</Badge>
+                <span className="text-muted-foreground">{deployment.stage}</span>
+                <span className="font-mono text-xs">{truncateAddress(getEndpointAddress(deployment))}</span>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>DVNs</CardTitle>
+          <CardDescription>Verifier networks with a DVN deployed on this chain</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {Object.keys(dvnsByProvider).length === 0 ? (
+            <p className="text-muted-foreground">No DVNs are listed for this chain.</p>
+          ) : (
+            Object.entries(dvnsByProvider)
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([name, dvns]) => (
+                <div key={name} className="py-2 border-t">
+                  <Link href="/dvns" className="font-medium text-sm hover:text-accent">{name}</Link>
+                  {dvns.map(dvn => (
+                    <div key={`${dvn.stage}-${dvn.address}`} className="flex flex-wrap items-center gap-2 text-xs mt-1">
+                      <span className="text-muted-foreground">{dvn.stage}</span>
+                      <span className="font-mono">{truncateAddress(dvn.address)}</span>
+                      {dvn.lzReadCompatible && <Badge variant="outline">lzRead</Badge>}
+                      {dvn.deprecated && <Badge variant="destructive">Deprecated</Badge>}
+                    </div>
+                  ))}
+                </div>
+              ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default ChainDetails;
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowRight } from 'lucide-react';
+import { fetchDeploymentChanges } from '@/lib/api';
+import { DeploymentChange } from '@shared/types';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { truncateAddress } from '@/lib/utils';
+
+// Time windows offered in the "since" selector, in milliseconds
+const SINCE_OPTIONS: Record<string, number | null> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  all: null,
+};
+
+function ChangeFeed() {
+  const [sinceWindow, setSinceWindow] = useState<string>('7d');
+
+  const windowMs = SINCE_OPTIONS[sinceWindow];
+  const since = windowMs ? new Date(Date.now() - windowMs).toISOString() : undefined;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/changes', sinceWindow],
+    queryFn: () => fetchDeploymentChanges(since),
+    refetchInterval: 60000 // Syncs run every few minutes, so a slow poll is enough
+  });
+
+  // Group changes by the snapshot that detected them
+  const changesBySnapshot = (data?.changes || []).reduce((groups, change) => {
+    (groups[change.snapshotId] = groups[change.snapshotId] || []).push(change);
+    return groups;
+  }, {} as Record<number, DeploymentChange[]>);
+
+  const snapshotIds = Object.keys(changesBySnapshot).map(Number).sort((a, b) => b - a);
+
+  const renderChange = (change: DeploymentChange) => (
+    <div key={change.id} className="flex flex-wrap items-center gap-2 py-2 border-t text-sm">
+      <Badge
+        variant={
+          change.changeType === 'added' ? 'default' :
+          change.changeType === 'removed' ? 'destructive' :
+          'secondary'
+        }
+      >
+        {change.changeType}
+      </Badge>
+      <span className="font-medium">{change.chainKey}</span>
+      <span className="text-xs text-muted-foreground">EID {change.eid} • {change.stage}</span>
+      {change.changeType === 'changed' && (
+        <span className="flex items-center gap-2 font-mono text-xs">
+          <span className="text-muted-foreground">{change.contract}:</span>
+          <span>{change.previousAddress ? truncateAddress(change.previousAddress) : 'none'}</span>
+          <ArrowRight className="h-3 w-3" />
+          <span>{change.newAddress ? truncateAddress(change.newAddress) : 'none'}</span>
+        </span>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="w-full max-w-7xl mx-auto p-4 space-y-6">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Recent Syncs</CardTitle>
+              <CardDescription>
+                Each sync with the LayerZero metadata API records a snapshot
+              </CardDescription>
+            </div>
+            <Select value={sinceWindow} onValueChange={setSinceWindow}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Time window" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="24h">Last 24 hours</SelectItem>
+                <SelectItem value="7d">Last 7 days</SelectItem>
+                <SelectItem value="30d">Last 30 days</SelectItem>
+                <SelectItem value="all">All time</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : !data?.snapshots.length ? (
+            <p className="text-muted-foreground">No syncs have been recorded yet.</p>
+          ) : (
+            <div className="flex gap-2 overflow-x-auto">
+              {data.snapshots.map(snapshot => (
+                <div key={snapshot.id} className="p-3 rounded-md border min-w-[160px]">
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(snapshot.createdAt).toLocaleString()}
+                  </p>
+                  <p className="text-sm font-medium">{snapshot.deploymentCount} deployments</p>
+                  <p className="text-xs font-mono">
+                    <span className="text-success">+{snapshot.added}</span>{' '}
+                    <span className="text-destructive">-{snapshot.removed}</span>{' '}
+                    <span className="text-accent">~{snapshot.changed}</span>
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>What Changed</CardTitle>
+          <CardDescription>
+            Added and removed deployments, and rotated contract addresses
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : snapshotIds.length === 0 ? (
+            <Alert>
+              <AlertTitle>No changes detected</AlertTitle>
+              <AlertDescription>
+                No deployment or contract address changes were detected in this time window.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            snapshotIds.map(snapshotId => {
+              const changes = changesBySnapshot[snapshotId];
+              return (
+                <div key={snapshotId}>
+                  <h3 className="text-sm font-medium mb-1">
+                    Sync #{snapshotId}
+                    <span className="text-xs text-muted-foreground ml-2">
+                      {new Date(changes[0].detectedAt).toLocaleString()}
+                    </span>
+                  </h3>
+                  {changes.map(renderChange)}
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default ChangeFeed;
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { LzReadRequest, LzReadComputeResult, LzReadComputeSpec, LzReduceOperation } from '@shared/types';
+import { simulateLzReadCompute } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+
+interface ComputeSimulatorProps {
+  request: LzReadRequest;
+}
+
+const COMPUTE_SETTINGS = ['lzMap', 'lzReduce', 'lzMap + lzReduce'];
+
+const REDUCE_LABELS: Record<LzReduceOperation, string> = {
+  sum: 'Sum',
+  min: 'Minimum',
+  max: 'Maximum',
+  median: 'Median',
+  average: 'Average',
+  collect: 'Collect into an array',
+};
+
+function shortHex(hex: string): string {
+  return hex.length > 74 ? `${hex.slice(0, 42)}…${hex.slice(-32)}` : hex;
+}
+
+/**
+ * Map / reduce form over a completed query's per-chain responses, showing what the
+ * OApp's lzReduce would receive and the payload it would deliver.
+ */
+export default function ComputeSimulator({ request }: ComputeSimulatorProps) {
+  const { toast } = useToast();
+  const initialSpec = request.query?.compute;
+  const [useMap, setUseMap] = useState<boolean>(initialSpec ? !!initialSpec.map : true);
+  const [field, setField] = useState<string>(initialSpec?.map?.field || '');
+  const [fromDecimals, setFromDecimals] = useState<string>(initialSpec?.map?.scale?.fromDecimals?.toString() || '');
+  const [toDecimals, setToDecimals] = useState<string>(initialSpec?.map?.scale?.toDecimals?.toString() || '');
+  const [reduceOperation, setReduceOperation] = useState<LzReduceOperation | 'none'>(initialSpec ? initialSpec.reduce || 'none' : 'sum');
+  const [computed, setComputed] = useState<LzReadComputeResult | undefined>(request.result?.compute);
+
+  const computeMutation = useMutation({
+    mutationFn: (spec: LzReadComputeSpec) => simulateLzReadCompute(request.id, spec),
+    onSuccess: setComputed,
+    onError: (error) => {
+      toast({
+        title: 'Compute failed',
+        description: error instanceof Error ? error.message : 'Failed to simulate the compute step',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const handleSimulate = () => {
+    const spec: LzReadComputeSpec = {};
+
+    if (useMap) {
+      spec.map = { field: field.trim() || undefined };
+      if (fromDecimals !== '' && toDecimals !== '') {
+        spec.map.scale = { fromDecimals: Number(fromDecimals), toDecimals: Number(toDecimals) };
+      }
+    }
+    if (reduceOperation !== 'none') {
+      spec.reduce = reduceOperation;
+    }
+
+    computeMutation.mutate(spec);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-md p-3 space-y-3">
+        <div className="flex items-center gap-2">
+          <input
+            id="useMap"
+            type="checkbox"
+            checked={useMap}
+            onChange={(e) => setUseMap(e.target.checked)}
+          />
+          <Label htmlFor="useMap">lzMap each response to one integer</Label>
+        </div>
+
+        {useMap && (
+          <div className="grid grid-cols-3 gap-2">
+            {(request.query?.queryType === 'call' || request.query?.queryType === 'storage') && (
+              <div className="col-span-3 space-y-1">
+                <Label htmlFor="computeField" className="text-xs">
+                  {request.query.queryType === 'call' ? 'Return value' : 'Storage slot'}
+                </Label>
+                <Input
+                  id="computeField"
+                  placeholder={request.query.queryType === 'call'
+                    ? 'First value, or a name / index such as answer or 0.amount'
+                    : 'First slot, or a slot label / index such as totalSupply or 1'}
+                  value={field}
+                  onChange={(e) => setField(e.target.value)}
+                  className="font-mono text-xs"
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="fromDecimals" className="text-xs">From decimals</Label>
+              <Input id="fromDecimals" type="number" min={0} value={fromDecimals} onChange={(e) => setFromDecimals(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="toDecimals" className="text-xs">To decimals</Label>
+              <Input id="toDecimals" type="number" min={0} value={toDecimals} onChange={(e) => setToDecimals(e.target.value)} />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor="reduceOperation">lzReduce</Label>
+          <Select value={reduceOperation} onValueChange={(value) => setReduceOperation(value as LzReduceOperation | 'none')}>
+            <SelectTrigger id="reduceOperation">
+              <SelectValue placeholder="Select reduce step" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              {(Object.keys(REDUCE_LABELS) as LzReduceOperation[]).map(operation => (
+                <SelectItem key={operation} value={operation}>{REDUCE_LABELS[operation]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button
+          type="button"
+          onClick={handleSimulate}
+          disabled={computeMutation.isPending || (!useMap && reduceOperation === 'none')}
+        >
+          {computeMutation.isPending ? 'Simulating...' : 'Simulate Compute'}
+        </Button>
+      </div>
+
+      {request.result?.computeError && !computed && (
+        <Alert variant="destructive">
+          <AlertTitle>Compute failed</AlertTitle>
+          <AlertDescription>{request.result.computeError}</AlertDescription>
+        </Alert>
+      )}
+
+      {computed && (
+        <div className="space-y-4">
+          {computed.skipped && (
+            <Alert variant="destructive">
+              <AlertTitle>Chains skipped</AlertTitle>
+              <AlertDescription>
+                {Object.entries(computed.skipped).map(([chainKey, reason]) => `${chainKey}: ${reason}`).join('; ')}.
+                A real lzRead command would not resolve while any of its reads fail.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <h4 className="text-sm font-medium">lzReduce input</h4>
+              <Badge variant="secondary">{COMPUTE_SETTINGS[computed.computeSetting]}</Badge>
+            </div>
+            <div className="space-y-1">
+              {computed.responses.map((response, index) => (
+                <div key={response.chainKey} className="text-xs border rounded-md p-2">
+                  <div className="flex justify-between">
+                    <span>#{index + 1} {response.chainKey} <span className="text-muted-foreground">(EID: {response.eid})</span></span>
+                    <span className="font-mono">{response.value}</span>
+                  </div>
+                  <p className="font-mono text-muted-foreground break-all" title={response.mapped}>
+                    {shortHex(response.mapped)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium mb-2">
+              Payload delivered to _lzReceive <span className="text-muted-foreground font-mono text-xs">({computed.valueType})</span>
+            </h4>
+            <p className="font-mono text-sm mb-2">
+              {Array.isArray(computed.value) ? `[${computed.value.join(', ')}]` : computed.value}
+            </p>
+            <div className="bg-muted p-3 rounded-md">
+              <p className="font-mono text-xs break-all">{computed.payload}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
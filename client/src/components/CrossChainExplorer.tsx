@@ -4,12 +4,16 @@ import {
   performCrossChainQuery, 
   fetchRecentLzReadRequests, 
   fetchLzReadRequestById,
-  fetchFilterOptions,
-  performWalletVacuum
+  fetchLzReadChains,
+  fetchRpcHealth,
+  performWalletVacuum,
+  decodeLzReadCommand,
+  fetchAbiFunctions
 } from '@/lib/api';
-import { CrossChainQuery, LzReadRequest, FilterOptions } from '@shared/types';
+import { CrossChainQuery, LzReadRequest, LzReadChain, AbiFunctionInfo, ContractCallData, TransactionHistoryData, StorageQuery, StorageReadData, CodeInspectionData, ProxyKind } from '@shared/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Select,
   SelectContent,
@@ -32,28 +36,54 @@ import {
   TabsTrigger,
 } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
-import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { truncateAddress } from '@/lib/utils';
+import { formatBalance, formatUsd } from '@shared/format';
 import { queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useRequestEvents } from '@/hooks/use-request-events';
+import ComputeSimulator from '@/components/ComputeSimulator';
+import TransactionTimeline from '@/components/TransactionTimeline';
+import StorageSlotBuilder from '@/components/StorageSlotBuilder';
+import ReadConfigGenerator from '@/components/ReadConfigGenerator';
+
+const PROXY_LABELS: Record<ProxyKind, string> = {
+  eip1967: 'EIP-1967 proxy',
+  transparent: 'Transparent proxy',
+  beacon: 'Beacon proxy',
+  eip1822: 'EIP-1822 proxy',
+  eip1167: 'Minimal proxy (EIP-1167)',
+};
 
 function CrossChainExplorer() {
   const { toast } = useToast();
   const [address, setAddress] = useState<string>('');
-  const [queryType, setQueryType] = useState<'balance' | 'transactions' | 'nonce' | 'storage' | 'code'>('balance');
+  const [queryType, setQueryType] = useState<CrossChainQuery['queryType']>('balance');
+  const [abi, setAbi] = useState<string>('');
+  const [abiFunctions, setAbiFunctions] = useState<AbiFunctionInfo[]>([]);
+  const [callFunction, setCallFunction] = useState<string>('');
+  const [callArgs, setCallArgs] = useState<string[]>([]);
+  const [readAt, setReadAt] = useState<'latest' | 'time'>('latest');
+  const [readAtTime, setReadAtTime] = useState<string>('');
+  const [txFromBlock, setTxFromBlock] = useState<string>('');
+  const [txToBlock, setTxToBlock] = useState<string>('');
+  const [storageQuery, setStorageQuery] = useState<StorageQuery>({ slots: [{ slot: '0' }] });
   const [selectedChains, setSelectedChains] = useState<string[]>([]);
   const [chainSearchTerm, setChainSearchTerm] = useState<string>('');
   const [activeRequest, setActiveRequest] = useState<string | null>(null);
 
-  // Fetch available chains from filter options
-  const { data: filterOptions, isLoading: isLoadingFilters } = useQuery({
-    queryKey: ['/api/filter-options'],
-    queryFn: fetchFilterOptions,
-    select: (data: FilterOptions) => data.chains || []
+  // Fetch the chains configured in the server's chain registry
+  const { data: lzReadChains, isLoading: isLoadingChains } = useQuery<LzReadChain[]>({
+    queryKey: ['/api/lzread/chains'],
+    queryFn: fetchLzReadChains
   });
+  const availableChains = lzReadChains?.map(chain => chain.chainKey);
+  
+  // Native currency used to format balances and transaction values on a chain
+  const getNativeCurrency = (chainKey: string) =>
+    lzReadChains?.find(chain => chain.chainKey === chainKey)?.nativeCurrency || { symbol: 'ETH', decimals: 18 };
   
   // Fetch recent lzRead requests
   const { data: recentRequests, isLoading: isLoadingRecent } = useQuery({
@@ -62,20 +92,43 @@ function CrossChainExplorer() {
     refetchInterval: 5000 // Refresh every 5 seconds
   });
   
+  // Fetch RPC endpoint health for the status panel
+  const { data: rpcHealth, isLoading: isLoadingRpcHealth } = useQuery({
+    queryKey: ['/api/rpc/health'],
+    queryFn: fetchRpcHealth,
+    refetchInterval: 10000
+  });
+  
   // Fetch details for a specific request when selected
   const { data: requestDetails, isLoading: isLoadingDetails } = useQuery({
     queryKey: ['/api/lzread/request', activeRequest],
     queryFn: () => fetchLzReadRequestById(activeRequest!),
-    enabled: !!activeRequest,
-    refetchInterval: 2000 // Poll frequently and let the component handle the condition
+    enabled: !!activeRequest
+  });
+  
+  // Progress for the selected request is pushed by the server while it runs
+  useRequestEvents(activeRequest);
+  
+  // Decode the request's lzRead command for the Command tab
+  const lzReadCommand = requestDetails?.result?.command;
+  const { data: decodedCommand } = useQuery({
+    queryKey: ['/api/lzread/decode', lzReadCommand],
+    queryFn: () => decodeLzReadCommand(lzReadCommand!),
+    enabled: !!lzReadCommand,
+    staleTime: Infinity
   });
   
+  // Chain key for an EID, to label the requests in a decoded command
+  const getChainKeyByEid = (eid: number) =>
+    lzReadChains?.find(chain => chain.eid === String(eid))?.chainKey || `EID ${eid}`;
+  
   // Mutation to perform a cross-chain query
   // Mutation for standard cross-chain queries
   const mutation = useMutation({
     mutationFn: performCrossChainQuery,
     onSuccess: (data) => {
-      // Set the new request as active
+      // Seed the cache with the pending request, then follow its progress
+      queryClient.setQueryData(['/api/lzread/request', data.id], data);
       setActiveRequest(data.id);
       
       // Invalidate the recent requests query to refresh the list
@@ -100,7 +153,8 @@ function CrossChainExplorer() {
     mutationFn: (params: { address: string, chains: string[] }) => 
       performWalletVacuum(params.address, params.chains),
     onSuccess: (data) => {
-      // Set the new request as active
+      // Seed the cache with the pending request, then follow its progress
+      queryClient.setQueryData(['/api/lzread/request', data.id], data);
       setActiveRequest(data.id);
       
       // Invalidate the recent requests query to refresh the list
@@ -108,7 +162,7 @@ function CrossChainExplorer() {
       
       toast({
         title: 'Wallet vacuum started',
-        description: `Scanning for assets across ${data.targetChains.length} chains for ${truncateAddress(data.walletScan?.address || '')}`,
+        description: `Scanning for assets across ${data.targetChains.length} chains for ${truncateAddress(data.address || '')}`,
       });
     },
     onError: (error) => {
@@ -141,10 +195,43 @@ function CrossChainExplorer() {
       return;
     }
     
+    if (queryType === 'call' && !selectedCallFunction) {
+      toast({
+        title: 'No function selected',
+        description: 'Paste an ABI, load its functions and pick one to call',
+        variant: 'destructive'
+      });
+      return;
+    }
+    
+    // The time is entered and sent as UTC
+    const timestamp = readAt === 'time' ? Math.floor(Date.parse(`${readAtTime}Z`) / 1000) : undefined;
+    if (timestamp !== undefined && (!Number.isFinite(timestamp) || timestamp * 1000 > Date.now())) {
+      toast({
+        title: 'Invalid time',
+        description: 'Enter a past date and time (UTC) to read at',
+        variant: 'destructive'
+      });
+      return;
+    }
+    
     const query: CrossChainQuery = {
       address,
       queryType,
-      chains: selectedChains
+      chains: selectedChains,
+      timestamp,
+      ...(queryType === 'transactions' && {
+        transactions: {
+          fromBlock: txFromBlock ? parseInt(txFromBlock, 10) : undefined,
+          toBlock: txToBlock ? parseInt(txToBlock, 10) : undefined
+        }
+      }),
+      ...(queryType === 'call' && {
+        call: { abi, functionName: callFunction, args: callArgs }
+      }),
+      ...(queryType === 'storage' && {
+        storage: { ...storageQuery, layout: storageQuery.layout?.trim() || undefined }
+      })
     };
     
     mutation.mutate(query);
@@ -162,6 +249,39 @@ function CrossChainExplorer() {
     setActiveRequest(request.id);
   };
   
+  // Parse the pasted ABI into the functions the call builder offers
+  const abiMutation = useMutation({
+    mutationFn: fetchAbiFunctions,
+    onSuccess: (functions) => {
+      setAbiFunctions(functions);
+      selectCallFunction(functions[0]?.signature || '', functions);
+      
+      if (functions.length === 0) {
+        toast({
+          title: 'No functions found',
+          description: 'The ABI has no functions to call',
+          variant: 'destructive'
+        });
+      }
+    },
+    onError: (error) => {
+      setAbiFunctions([]);
+      selectCallFunction('', []);
+      toast({
+        title: 'Invalid ABI',
+        description: error instanceof Error ? error.message : 'Failed to parse the ABI',
+        variant: 'destructive'
+      });
+    }
+  });
+  
+  const selectCallFunction = (signature: string, functions: AbiFunctionInfo[] = abiFunctions) => {
+    setCallFunction(signature);
+    setCallArgs((functions.find(fn => fn.signature === signature)?.inputs || []).map(() => ''));
+  };
+  
+  const selectedCallFunction = abiFunctions.find(fn => fn.signature === callFunction);
+  
   // Handler for the wallet vacuum feature
   const handleWalletVacuum = () => {
     if (!address) {
@@ -226,11 +346,127 @@ function CrossChainExplorer() {
                       <SelectItem value="transactions">Transactions</SelectItem>
                       <SelectItem value="nonce">Nonce</SelectItem>
                       <SelectItem value="storage">Storage</SelectItem>
-                      <SelectItem value="code">Contract Code</SelectItem>
+                      <SelectItem value="code">Contract Code & Proxy</SelectItem>
+                      <SelectItem value="call">Contract Call</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 
+                <div className="space-y-2">
+                  <Label htmlFor="readAt">Read At</Label>
+                  <Select value={readAt} onValueChange={(value) => setReadAt(value as 'latest' | 'time')}>
+                    <SelectTrigger id="readAt">
+                      <SelectValue placeholder="Select when to read" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="latest">Latest block</SelectItem>
+                      <SelectItem value="time">Point in time</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {readAt === 'time' && (
+                    <>
+                      <Input 
+                        type="datetime-local"
+                        step={1}
+                        value={readAtTime}
+                        onChange={(e) => setReadAtTime(e.target.value)}
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        UTC. Each chain is read at its last block at or before this time.
+                      </p>
+                    </>
+                  )}
+                </div>
+                
+                {queryType === 'transactions' && (
+                  <div className="space-y-2">
+                    <Label>Block Range</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input 
+                        type="number"
+                        min={0}
+                        placeholder="From block"
+                        value={txFromBlock}
+                        onChange={(e) => setTxFromBlock(e.target.value)}
+                      />
+                      <Input 
+                        type="number"
+                        min={0}
+                        placeholder="To block"
+                        value={txToBlock}
+                        onChange={(e) => setTxToBlock(e.target.value)}
+                      />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Optional. Defaults to the most recent blocks on each chain.
+                    </p>
+                  </div>
+                )}
+                
+                {queryType === 'storage' && (
+                  <StorageSlotBuilder storage={storageQuery} onChange={setStorageQuery} />
+                )}
+                
+                {queryType === 'call' && (
+                  <div className="space-y-4 border rounded-md p-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="abi">Contract ABI</Label>
+                      <Textarea 
+                        id="abi"
+                        placeholder={'JSON ABI, or one signature per line, e.g.\nfunction balanceOf(address owner) view returns (uint256)'}
+                        value={abi}
+                        onChange={(e) => setAbi(e.target.value)}
+                        className="font-mono text-xs min-h-[100px]"
+                      />
+                      <Button 
+                        type="button" 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => abiMutation.mutate(abi)}
+                        disabled={!abi.trim() || abiMutation.isPending}
+                      >
+                        {abiMutation.isPending ? 'Parsing...' : 'Load Functions'}
+                      </Button>
+                    </div>
+                    
+                    {abiFunctions.length > 0 && (
+                      <div className="space-y-2">
+                        <Label htmlFor="callFunction">Function</Label>
+                        <Select value={callFunction} onValueChange={(value) => selectCallFunction(value)}>
+                          <SelectTrigger id="callFunction">
+                            <SelectValue placeholder="Select function" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {abiFunctions.map(fn => (
+                              <SelectItem key={fn.signature} value={fn.signature}>
+                                <span className="font-mono text-xs">{fn.signature}</span>
+                                {fn.stateMutability !== 'view' && fn.stateMutability !== 'pure' && (
+                                  <span className="text-xs text-muted-foreground ml-2">{fn.stateMutability}</span>
+                                )}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    
+                    {selectedCallFunction?.inputs.map((input, index) => (
+                      <div key={`${callFunction}-${index}`} className="space-y-1">
+                        <Label htmlFor={`callArg-${index}`} className="text-xs">
+                          {input.name} <span className="text-muted-foreground font-mono">({input.type})</span>
+                        </Label>
+                        <Input 
+                          id={`callArg-${index}`}
+                          placeholder={input.type.endsWith(']') || input.type.startsWith('(') ? 'JSON value' : input.type}
+                          value={callArgs[index] || ''}
+                          onChange={(e) => setCallArgs(callArgs.map((arg, i) => i === index ? e.target.value : arg))}
+                          className="font-mono text-xs"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                
                 <div className="space-y-2">
                   <div className="flex justify-between items-center">
                     <Label>Target Chains</Label>
@@ -239,8 +475,8 @@ function CrossChainExplorer() {
                         type="button" 
                         variant="outline" 
                         size="sm" 
-                        onClick={() => filterOptions?.length && setSelectedChains([...filterOptions])}
-                        disabled={isLoadingFilters || !filterOptions?.length}
+                        onClick={() => availableChains?.length && setSelectedChains([...availableChains])}
+                        disabled={isLoadingChains || !availableChains?.length}
                         className="h-7 text-xs"
                       >
                         Select All
@@ -250,7 +486,7 @@ function CrossChainExplorer() {
                         variant="outline" 
                         size="sm" 
                         onClick={() => setSelectedChains([])}
-                        disabled={isLoadingFilters || selectedChains.length === 0}
+                        disabled={isLoadingChains || selectedChains.length === 0}
                         className="h-7 text-xs"
                       >
                         Clear All
@@ -258,7 +494,7 @@ function CrossChainExplorer() {
                     </div>
                   </div>
                   
-                  {isLoadingFilters ? (
+                  {isLoadingChains ? (
                     <Skeleton className="h-10 w-full" />
                   ) : (
                     <div className="border rounded-md">
@@ -272,8 +508,8 @@ function CrossChainExplorer() {
                         />
                       </div>
                       <div className="p-1 max-h-48 overflow-y-auto">
-                        {filterOptions && filterOptions.length > 0 ? (
-                          filterOptions
+                        {availableChains && availableChains.length > 0 ? (
+                          availableChains
                             .filter(chain => chain.toLowerCase().includes(chainSearchTerm.toLowerCase()))
                             .map((chain: string) => (
                               <div 
@@ -293,12 +529,12 @@ function CrossChainExplorer() {
                             ))
                         ) : (
                           <p className="text-sm text-muted-foreground p-2">
-                            No chains available. Please ensure LayerZero deployments are loaded.
+                            No chains available. Add RPC URLs to lzread-config/chains.json or set RPC_URL_&lt;CHAIN&gt;.
                           </p>
                         )}
                         
-                        {filterOptions && filterOptions.length > 0 && 
-                         filterOptions.filter(chain => 
+                        {availableChains && availableChains.length > 0 && 
+                         availableChains.filter(chain => 
                            chain.toLowerCase().includes(chainSearchTerm.toLowerCase())
                          ).length === 0 && (
                           <p className="text-sm text-muted-foreground p-2">
@@ -390,6 +626,63 @@ function CrossChainExplorer() {
               )}
             </CardContent>
           </Card>
+          
+          {/* lzRead config for the selected chains */}
+          <ReadConfigGenerator chains={selectedChains} />
+          
+          {/* RPC Health */}
+          <Card className="mt-4 shadow-lg">
+            <CardHeader>
+              <CardTitle>RPC Health</CardTitle>
+              <CardDescription>
+                Endpoint status for each configured chain, with automatic failover between endpoints
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingRpcHealth ? (
+                <div className="space-y-2">
+                  <Skeleton className="h-8 w-full" />
+                  <Skeleton className="h-8 w-full" />
+                </div>
+              ) : !rpcHealth?.length ? (
+                <p className="text-center text-muted-foreground py-4">
+                  No chains configured.
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  {rpcHealth.map((chain) => {
+                    const usable = chain.endpoints.filter(e => e.status !== 'open');
+                    const latencies = usable.map(e => e.latencyMs).filter((l): l is number => l !== null);
+                    const lastError = chain.endpoints.find(e => e.lastError)?.lastError;
+                    return (
+                      <div
+                        key={chain.chainKey}
+                        className="flex justify-between items-center text-sm py-1"
+                        title={lastError}
+                      >
+                        <span className="font-medium">{chain.chainKey}</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground">
+                            {usable.length}/{chain.endpoints.length} up
+                            {latencies.length > 0 && ` • ${Math.min(...latencies)}ms`}
+                          </span>
+                          <Badge
+                            variant={
+                              chain.status === 'healthy' ? 'default' :
+                              chain.status === 'down' ? 'destructive' :
+                              'outline'
+                            }
+                          >
+                            {chain.status}
+                          </Badge>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
         
         {/* Results Display */}
@@ -402,6 +695,7 @@ function CrossChainExplorer() {
                   {requestDetails && (
                     <CardDescription>
                       {requestDetails.result?.queryType} for {truncateAddress(requestDetails.result?.address || '')}
+                      {requestDetails.query?.timestamp && ` at ${new Date(requestDetails.query.timestamp * 1000).toISOString()}`}
                     </CardDescription>
                   )}
                 </div>
@@ -426,17 +720,38 @@ function CrossChainExplorer() {
                   <Skeleton className="h-24 w-full" />
                 </div>
               ) : requestDetails?.status === 'pending' ? (
-                <Alert>
-                  <AlertTitle>Query in progress</AlertTitle>
-                  <AlertDescription>
-                    Fetching data across {requestDetails.targetChains.length} chains. This may take a few moments...
-                  </AlertDescription>
-                </Alert>
+                <div className="space-y-4">
+                  <Alert>
+                    <AlertTitle>Query in progress</AlertTitle>
+                    <AlertDescription>
+                      Fetching data across {requestDetails.targetChains.length} chains
+                      {requestDetails.progress && ` (${Object.values(requestDetails.progress).filter(p => p.status === 'done' || p.status === 'failed').length} finished)`}. 
+                      This may take a few moments...
+                    </AlertDescription>
+                  </Alert>
+                  {requestDetails.progress && (
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(requestDetails.progress).map(([chainKey, progress]) => (
+                        <Badge
+                          key={chainKey}
+                          variant={
+                            progress.status === 'done' ? 'default' :
+                            progress.status === 'failed' ? 'destructive' :
+                            progress.status === 'running' ? 'secondary' : 'outline'
+                          }
+                          title={progress.error}
+                        >
+                          {chainKey}: {progress.status}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
               ) : requestDetails?.status === 'failed' ? (
                 <Alert variant="destructive">
                   <AlertTitle>Query failed</AlertTitle>
                   <AlertDescription>
-                    There was an error processing your cross-chain query. Please try again.
+                    {requestDetails.error || 'There was an error processing your cross-chain query.'} Please try again.
                   </AlertDescription>
                 </Alert>
               ) : (
@@ -444,16 +759,51 @@ function CrossChainExplorer() {
                   <TabsList>
                     <TabsTrigger value="data">Data</TabsTrigger>
                     {requestDetails?.walletScan && <TabsTrigger value="assets">Assets</TabsTrigger>}
+                    {requestDetails?.result && <TabsTrigger value="command">Command</TabsTrigger>}
+                    {requestDetails?.result && <TabsTrigger value="compute">Compute</TabsTrigger>}
                     <TabsTrigger value="raw">Raw Response</TabsTrigger>
                   </TabsList>
                   
                   <TabsContent value="data" className="space-y-4">
+                    {requestDetails?.result?.timeline && requestDetails.query && (
+                      <TransactionTimeline
+                        transactions={requestDetails.result.timeline}
+                        getNativeCurrency={getNativeCurrency}
+                        page={requestDetails.query.transactions?.page || 1}
+                        hasMore={requestDetails.result.results.some(result => (result.data as TransactionHistoryData)?.hasMore)}
+                        onPageChange={(page) => mutation.mutate({
+                          ...requestDetails.query!,
+                          transactions: { ...requestDetails.query!.transactions, page }
+                        })}
+                      />
+                    )}
+                    
+                    {requestDetails?.result?.codeParity && requestDetails.result.codeParity.groups.length > 0 && (
+                      <Alert variant={requestDetails.result.codeParity.identical ? 'default' : 'destructive'}>
+                        <AlertTitle>
+                          {requestDetails.result.codeParity.identical 
+                            ? 'Identical code on every chain' 
+                            : 'Code differs between chains'}
+                        </AlertTitle>
+                        <AlertDescription className="space-y-1">
+                          {requestDetails.result.codeParity.groups.map(group => (
+                            <p key={group.codeHash || 'none'} className="text-xs">
+                              <span className="font-mono">{group.codeHash ? truncateAddress(group.codeHash, 10, 8) : 'No code'}</span>
+                              : {group.chains.join(', ')}
+                            </p>
+                          ))}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    
                     {requestDetails?.requestType === 'wallet_vacuum' ? (
                       <Alert>
                         <AlertTitle>Wallet Vacuum Results</AlertTitle>
                         <AlertDescription>
                           Found assets on {requestDetails.walletScan?.chainsWithAssets || 0} 
-                          of {requestDetails.walletScan?.totalChains || 0} chains. 
+                          of {requestDetails.walletScan?.totalChains || 0} chains
+                          {requestDetails.walletScan?.roundTrips !== undefined && 
+                            ` in ${requestDetails.walletScan.roundTrips} RPC round trips`}. 
                           Switch to the Assets tab to view details.
                         </AlertDescription>
                       </Alert>
@@ -467,17 +817,29 @@ function CrossChainExplorer() {
                                 (EID: {chainData.eid})
                               </span>
                             </CardTitle>
-                            <Badge variant="outline">
-                              Block #{chainData.blockNumber}
-                            </Badge>
+                            <div className="flex gap-2">
+                              {chainData.readMode && (
+                                <Badge variant="secondary" title={`${chainData.roundTrips ?? '?'} RPC round trips`}>
+                                  {chainData.readMode}
+                                </Badge>
+                              )}
+                              <Badge 
+                                variant="outline"
+                                title={chainData.resolvedFrom 
+                                  ? `Last block at or before ${new Date(chainData.resolvedFrom * 1000).toISOString()}` 
+                                  : undefined}
+                              >
+                                Block #{chainData.blockNumber}
+                              </Badge>
+                            </div>
                           </div>
                         </CardHeader>
                         <CardContent className="py-3">
                           {requestDetails.result?.queryType === 'balance' && (
                             <p className="font-mono">
                               {typeof chainData.data === 'string' 
-                                ? parseInt(chainData.data, 16) / 1e18 
-                                : 'N/A'} ETH
+                                ? formatBalance(chainData.data, getNativeCurrency(chainData.chainKey).decimals) 
+                                : 'N/A'} {getNativeCurrency(chainData.chainKey).symbol}
                             </p>
                           )}
                           
@@ -489,53 +851,111 @@ function CrossChainExplorer() {
                             </p>
                           )}
                           
-                          {requestDetails.result?.queryType === 'code' && (
-                            <div className="max-h-40 overflow-y-auto">
-                              <p className="font-mono text-xs break-all">
-                                {typeof chainData.data === 'string' && chainData.data !== '0x' 
-                                  ? `${chainData.data.substring(0, 100)}...` 
-                                  : 'No contract code found'}
+                          {requestDetails.result?.queryType === 'code' && (() => {
+                            const inspection = chainData.data as CodeInspectionData;
+                            if (chainData.error || !inspection?.address) {
+                              return <p className="text-sm text-destructive">{chainData.error || 'No code data returned'}</p>;
+                            }
+                            if (!inspection.isContract) {
+                              return <p className="text-sm text-muted-foreground">No contract code found (EOA or not deployed)</p>;
+                            }
+                            
+                            return (
+                              <div className="space-y-1 text-sm">
+                                <div className="flex items-center gap-2">
+                                  {inspection.proxy 
+                                    ? <Badge variant="secondary">{PROXY_LABELS[inspection.proxy.kind]}</Badge>
+                                    : <Badge variant="outline">Not a proxy</Badge>}
+                                  <span className="text-xs text-muted-foreground">{inspection.codeSize} bytes</span>
+                                </div>
+                                <p className="text-xs font-mono break-all">
+                                  <span className="text-muted-foreground">Code hash: </span>{inspection.codeHash}
+                                </p>
+                                {inspection.proxy?.admin && (
+                                  <p className="text-xs font-mono break-all">
+                                    <span className="text-muted-foreground">Admin: </span>{inspection.proxy.admin}
+                                  </p>
+                                )}
+                                {inspection.proxy?.beacon && (
+                                  <p className="text-xs font-mono break-all">
+                                    <span className="text-muted-foreground">Beacon: </span>{inspection.proxy.beacon}
+                                  </p>
+                                )}
+                                {inspection.proxy && (inspection.implementation ? (
+                                  <>
+                                    <p className="text-xs font-mono break-all">
+                                      <span className="text-muted-foreground">Implementation: </span>{inspection.implementation.address}
+                                    </p>
+                                    <p className="text-xs font-mono break-all">
+                                      <span className="text-muted-foreground">Implementation code hash: </span>
+                                      {inspection.implementation.codeHash || 'no code'}
+                                    </p>
+                                  </>
+                                ) : (
+                                  <p className="text-xs text-destructive">Implementation could not be resolved</p>
+                                ))}
+                              </div>
+                            );
+                          })()}
+                          
+                          {requestDetails.result?.queryType === 'transactions' && (() => {
+                            const history = chainData.data as TransactionHistoryData;
+                            if (chainData.error || !history?.transactions) {
+                              return <p className="text-sm text-destructive">{chainData.error || 'No history returned'}</p>;
+                            }
+                            
+                            return (
+                              <p className="text-sm text-muted-foreground">
+                                {history.transactions.length}{history.hasMore && '+'} transactions in blocks {history.fromBlock}–{history.toBlock} from {history.source}
                               </p>
-                            </div>
-                          )}
+                            );
+                          })()}
                           
-                          {requestDetails.result?.queryType === 'transactions' && (
-                            <div>
-                              {chainData.data?.transactions?.length > 0 ? (
-                                <div className="space-y-2 max-h-60 overflow-y-auto">
-                                  {chainData.data.transactions.slice(0, 5).map((tx: any, i: number) => (
-                                    <div key={i} className="text-xs">
-                                      <div className="flex justify-between">
-                                        <span>Tx: {truncateAddress(tx.hash)}</span>
-                                        <span>{parseInt(tx.value || '0x0', 16) / 1e18} ETH</span>
-                                      </div>
-                                      <div className="text-muted-foreground">
-                                        From: {truncateAddress(tx.from)} → To: {truncateAddress(tx.to || '[Contract Creation]')}
-                                      </div>
-                                      <Separator className="my-1" />
+                          {requestDetails.result?.queryType === 'storage' && (() => {
+                            const storageData = chainData.data as StorageReadData;
+                            if (chainData.error || !storageData?.slots) {
+                              return <p className="text-sm text-destructive">{chainData.error || 'No storage data found'}</p>;
+                            }
+                            
+                            return (
+                              <div className="space-y-2">
+                                {storageData.slots.map((slot, index) => (
+                                  <div key={index} className="text-sm">
+                                    <div>
+                                      <span className="text-muted-foreground">{slot.label}{slot.type && ` (${slot.type})`}: </span>
+                                      <span className="font-mono break-all">{slot.decoded ?? slot.word}</span>
                                     </div>
-                                  ))}
-                                  {chainData.data.transactions.length > 5 && (
-                                    <p className="text-xs text-muted-foreground text-center">
-                                      + {chainData.data.transactions.length - 5} more transactions
+                                    <p className="text-xs text-muted-foreground font-mono break-all" title="Slot and stored word">
+                                      {slot.slot} → {slot.word}
                                     </p>
-                                  )}
-                                </div>
-                              ) : (
-                                <p className="text-sm text-muted-foreground">
-                                  No transactions found for this address
-                                </p>
-                              )}
-                            </div>
-                          )}
+                                  </div>
+                                ))}
+                              </div>
+                            );
+                          })()}
                           
-                          {requestDetails.result?.queryType === 'storage' && (
-                            <p className="font-mono text-xs break-all">
-                              {typeof chainData.data === 'string' 
-                                ? chainData.data
-                                : 'No storage data found'}
-                            </p>
-                          )}
+                          {requestDetails.result?.queryType === 'call' && (() => {
+                            const callData = chainData.data as ContractCallData;
+                            if (chainData.error || !callData?.values) {
+                              return <p className="text-sm text-destructive">{chainData.error || 'No return data'}</p>;
+                            }
+                            
+                            return (
+                              <div className="space-y-1">
+                                <p className="text-xs text-muted-foreground font-mono">{callData.function}</p>
+                                {callData.values.length === 0 ? (
+                                  <p className="text-sm text-muted-foreground">No return values</p>
+                                ) : callData.values.map((value, index) => (
+                                  <div key={index} className="text-sm">
+                                    <span className="text-muted-foreground">{value.name} ({value.type}): </span>
+                                    <span className="font-mono break-all">
+                                      {typeof value.value === 'string' ? value.value : JSON.stringify(value.value)}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            );
+                          })()}
                         </CardContent>
                       </Card>
                     ))}
@@ -570,48 +990,211 @@ function CrossChainExplorer() {
                           </Badge>
                         </div>
                         
-                        <div className="grid gap-4 md:grid-cols-2">
-                          {requestDetails?.walletScan?.assets?.map((asset, index) => (
-                            <Card key={index}>
-                              <CardHeader className="py-3">
-                                <div className="flex justify-between items-center">
-                                  <CardTitle className="text-base">
-                                    {asset.chain}
-                                    <span className="text-xs text-muted-foreground ml-2">
-                                      (EID: {asset.eid})
-                                    </span>
-                                  </CardTitle>
-                                  <Badge 
-                                    variant={parseFloat(asset.balanceFormatted || '0') > 0 ? "default" : "outline"}
-                                  >
-                                    {asset.assetType}
-                                  </Badge>
-                                </div>
-                              </CardHeader>
-                              <CardContent className="py-3">
-                                <div className="flex justify-between items-center">
-                                  <div>
-                                    <p className="text-sm font-medium">{asset.name}</p>
-                                    <p className="text-xs text-muted-foreground">{asset.symbol}</p>
-                                  </div>
-                                  <p className="text-lg font-mono">
-                                    {asset.balanceFormatted}
-                                  </p>
-                                </div>
-                                
-                                {asset.contractAddress && (
-                                  <div className="mt-2 pt-2 border-t text-xs text-muted-foreground">
-                                    Contract: {truncateAddress(asset.contractAddress)}
-                                  </div>
-                                )}
-                              </CardContent>
-                            </Card>
-                          ))}
-                        </div>
+                        {requestDetails?.walletScan?.portfolio && (
+                          <Card className="mb-6">
+                            <CardHeader className="py-3">
+                              <div className="flex justify-between items-center">
+                                <CardTitle className="text-base">Portfolio Value</CardTitle>
+                                <p className="text-lg font-mono">
+                                  {formatUsd(requestDetails.walletScan.portfolio.totalUsd)}
+                                </p>
+                              </div>
+                            </CardHeader>
+                            <CardContent className="py-3 space-y-2">
+                              <div className="flex flex-wrap gap-2">
+                                {Object.entries(requestDetails.walletScan.portfolio.byChain)
+                                  .sort(([, a], [, b]) => b - a)
+                                  .map(([chain, value]) => (
+                                    <Badge key={chain} variant="outline">
+                                      {chain}: {formatUsd(value)}
+                                    </Badge>
+                                  ))}
+                              </div>
+                              <p className="text-xs text-muted-foreground">
+                                Prices from {requestDetails.walletScan.portfolio.source}
+                                {requestDetails.walletScan.portfolio.unpricedAssets > 0 &&
+                                  ` · ${requestDetails.walletScan.portfolio.unpricedAssets} assets without a price`}
+                              </p>
+                            </CardContent>
+                          </Card>
+                        )}
+                        
+                        {(['native', 'erc20'] as const).map(assetType => {
+                          const assets = requestDetails?.walletScan?.assets?.filter(a => a.assetType === assetType) || [];
+                          if (assets.length === 0) return null;
+                          
+                          return (
+                            <div key={assetType} className="mb-6">
+                              <h4 className="text-sm font-medium text-muted-foreground mb-2">
+                                {assetType === 'native' ? 'Native Balances' : 'ERC-20 Tokens'}
+                              </h4>
+                              <div className="grid gap-4 md:grid-cols-2">
+                                {assets.map((asset, index) => (
+                                  <Card key={`${asset.chain}-${asset.contractAddress || asset.symbol}-${index}`}>
+                                    <CardHeader className="py-3">
+                                      <div className="flex justify-between items-center">
+                                        <CardTitle className="text-base">
+                                          {asset.chain}
+                                          <span className="text-xs text-muted-foreground ml-2">
+                                            (EID: {asset.eid})
+                                          </span>
+                                        </CardTitle>
+                                        <Badge 
+                                          variant={asset.balanceFormatted && asset.balanceFormatted !== '0' ? "default" : "outline"}
+                                        >
+                                          {asset.assetType}
+                                        </Badge>
+                                      </div>
+                                    </CardHeader>
+                                    <CardContent className="py-3">
+                                      <div className="flex justify-between items-center">
+                                        <div>
+                                          <p className="text-sm font-medium">{asset.name}</p>
+                                          <p className="text-xs text-muted-foreground">{asset.symbol}</p>
+                                        </div>
+                                        <div className="text-right">
+                                          <p className="text-lg font-mono">
+                                            {asset.balanceFormatted}
+                                          </p>
+                                          {asset.usdValue !== undefined && (
+                                            <p className="text-xs text-muted-foreground">
+                                              {formatUsd(asset.usdValue)}
+                                            </p>
+                                          )}
+                                        </div>
+                                      </div>
+                                      
+                                      {asset.contractAddress && (
+                                        <div className="mt-2 pt-2 border-t text-xs text-muted-foreground">
+                                          Contract: {truncateAddress(asset.contractAddress)}
+                                        </div>
+                                      )}
+                                    </CardContent>
+                                  </Card>
+                                ))}
+                              </div>
+                            </div>
+                          );
+                        })}
+                        
+                        {(() => {
+                          const nfts = requestDetails?.walletScan?.assets?.filter(
+                            a => a.assetType === 'erc721' || a.assetType === 'erc1155'
+                          ) || [];
+                          if (nfts.length === 0) return null;
+                          
+                          return (
+                            <div className="mb-6">
+                              <h4 className="text-sm font-medium text-muted-foreground mb-2">NFTs</h4>
+                              <div className="grid gap-4 md:grid-cols-2">
+                                {nfts.map((nft, index) => (
+                                  <Card key={`${nft.chain}-${nft.contractAddress}-${index}`}>
+                                    <CardHeader className="py-3">
+                                      <div className="flex justify-between items-center">
+                                        <CardTitle className="text-base">
+                                          {nft.name}
+                                          <span className="text-xs text-muted-foreground ml-2">
+                                            ({nft.chain})
+                                          </span>
+                                        </CardTitle>
+                                        <Badge variant="default">{nft.assetType}</Badge>
+                                      </div>
+                                    </CardHeader>
+                                    <CardContent className="py-3">
+                                      <div className="flex justify-between items-center">
+                                        <p className="text-sm text-muted-foreground">Items held</p>
+                                        <p className="text-lg font-mono">{nft.balance}</p>
+                                      </div>
+                                      
+                                      {nft.tokenIds && nft.tokenIds.length > 0 ? (
+                                        <div className="mt-2 flex flex-wrap gap-1">
+                                          {nft.tokenIds.map(tokenId => (
+                                            <Badge key={tokenId} variant="outline" className="font-mono">
+                                              #{tokenId.length > 12 ? `${tokenId.slice(0, 6)}…${tokenId.slice(-4)}` : tokenId}
+                                            </Badge>
+                                          ))}
+                                        </div>
+                                      ) : (
+                                        <p className="mt-2 text-xs text-muted-foreground">
+                                          This collection does not list token ids per owner
+                                        </p>
+                                      )}
+                                      
+                                      <div className="mt-2 pt-2 border-t text-xs text-muted-foreground">
+                                        Contract: {truncateAddress(nft.contractAddress || '')}
+                                      </div>
+                                    </CardContent>
+                                  </Card>
+                                ))}
+                              </div>
+                            </div>
+                          );
+                        })()}
                       </div>
                     )}
                   </TabsContent>
                   
+                  <TabsContent value="command" className="space-y-4">
+                    {!lzReadCommand ? (
+                      <Alert>
+                        <AlertTitle>No lzRead command</AlertTitle>
+                        <AlertDescription>
+                          {requestDetails?.result?.commandUnavailable || 'No command was built for this query.'}
+                        </AlertDescription>
+                      </Alert>
+                    ) : (
+                      <>
+                        <div>
+                          <Label className="text-xs text-muted-foreground">
+                            Encoded command ({(lzReadCommand.length - 2) / 2} bytes)
+                          </Label>
+                          <div className="bg-muted p-3 rounded-md mt-1">
+                            <p className="font-mono text-xs break-all">{lzReadCommand}</p>
+                          </div>
+                        </div>
+                        
+                        {decodedCommand && (
+                          <div className="space-y-2">
+                            <p className="text-sm">
+                              Command label {decodedCommand.appCmdLabel} · {decodedCommand.requests.length} EVMCallRequestV1
+                              {decodedCommand.compute && ' · with EVMCallComputeV1'}
+                            </p>
+                            {decodedCommand.requests.map(request => (
+                              <Card key={request.appRequestLabel}>
+                                <CardHeader className="py-3">
+                                  <div className="flex justify-between items-center">
+                                    <CardTitle className="text-sm">
+                                      #{request.appRequestLabel} {getChainKeyByEid(request.targetEid)}
+                                      <span className="text-xs text-muted-foreground ml-2">
+                                        (EID: {request.targetEid})
+                                      </span>
+                                    </CardTitle>
+                                    <div className="flex gap-2">
+                                      <Badge variant="outline">
+                                        {request.isBlockNum ? `Block #${request.blockNumOrTimestamp}` : `Time ${request.blockNumOrTimestamp}`}
+                                      </Badge>
+                                      <Badge variant="secondary">{request.confirmations} confirmations</Badge>
+                                    </div>
+                                  </div>
+                                </CardHeader>
+                                <CardContent className="py-3 space-y-1">
+                                  <p className="font-mono text-xs">to: {request.to}</p>
+                                  <p className="font-mono text-xs break-all">callData: {request.callData}</p>
+                                </CardContent>
+                              </Card>
+                            ))}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </TabsContent>
+                  
+                  <TabsContent value="compute">
+                    {requestDetails?.result && (
+                      <ComputeSimulator key={requestDetails.id} request={requestDetails} />
+                    )}
+                  </TabsContent>
+                  
                   <TabsContent value="raw">
                     <div className="bg-muted p-4 rounded-md overflow-auto max-h-[600px]">
                       <pre className="text-xs">
@@ -1,8 +1,10 @@
+import { Link } from "wouter";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Network, ExternalLink, Copy } from "lucide-react";
 import { ProcessedDeployment } from "@shared/types";
+import { getEndpointAddress, listContracts } from "@shared/contracts";
 import { truncateAddress, getExplorerUrl } from "@/lib/utils";
 
 interface DeploymentCardProps {
@@ -16,6 +18,10 @@ export default function DeploymentCard({
   onViewDetails,
   onCopyAddress 
 }: DeploymentCardProps) {
+  const endpointAddress = getEndpointAddress(deployment);
+  const endpointLabel = deployment.contracts?.endpointV2 ? 'EndpointV2' : 'Endpoint';
+  const contractCount = listContracts(deployment).length;
+
   return (
     <Card className="rounded-xl overflow-hidden border-[1px] border-secondary/20 bg-background-dark/80 backdrop-blur-lg hover:shadow-lg hover:shadow-primary/5 transition-all duration-300">
       <CardHeader className="flex flex-row items-center p-4 border-b border-secondary/10 bg-gradient-to-br from-background to-background-light/10">
@@ -23,7 +29,9 @@ export default function DeploymentCard({
           <Network className="text-white h-5 w-5" />
         </div>
         <div>
-          <h3 className="font-bold text-lg tracking-tight">{deployment.chainKey}</h3>
+          <Link href={`/chains/${deployment.chainKey}`} className="font-bold text-lg tracking-tight hover:text-accent">
+            {deployment.chainKey}
+          </Link>
           <div className="flex items-center">
             <span className="text-xs text-foreground/70 mr-2 font-mono">EID: {deployment.eid}</span>
             <Badge variant={deployment.stage === 'mainnet' ? 'default' : 'secondary'} 
@@ -38,14 +46,17 @@ export default function DeploymentCard({
       
       <CardContent className="p-4 space-y-4 bg-gradient-to-b from-background-dark/60 to-background-dark/90">
         <div className="p-3 rounded-lg bg-background/30 border border-secondary/10">
-          <p className="text-xs uppercase tracking-wider font-medium text-foreground/60 mb-2">Endpoint</p>
+          <div className="flex justify-between items-center mb-2">
+            <p className="text-xs uppercase tracking-wider font-medium text-foreground/60">{endpointLabel}</p>
+            <p className="text-xs text-foreground/50">{contractCount} contracts</p>
+          </div>
           <div className="flex items-center">
-            <p className="text-sm font-mono font-medium text-foreground/80 truncate">{truncateAddress(deployment.endpoint.address)}</p>
+            <p className="text-sm font-mono font-medium text-foreground/80 truncate">{truncateAddress(endpointAddress)}</p>
             <Button 
               variant="ghost" 
               size="sm" 
               className="ml-2 p-1 h-auto text-secondary hover:text-accent hover:bg-secondary/10 rounded-full"
-              onClick={() => onCopyAddress(deployment.endpoint.address)}
+              onClick={() => onCopyAddress(endpointAddress)}
               aria-label="Copy endpoint address"
             >
               <Copy className="h-4 w-4" />
@@ -86,7 +97,7 @@ export default function DeploymentCard({
             asChild
           >
             <a 
-              href={getExplorerUrl(deployment.chainKey, deployment.endpoint.address, deployment)} 
+              href={getExplorerUrl(deployment.chainKey, endpointAddress, deployment)} 
               target="_blank" 
               rel="noopener noreferrer"
               aria-label="View in Explorer"
@@ -4,10 +4,12 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Network, X, ExternalLink, Copy, Info, CheckCircle, ArrowRight, Loader2 } from "lucide-react";
 import { ProcessedDeployment } from "@shared/types";
+import { listContracts, getEndpointAddress } from "@shared/contracts";
 import { truncateAddress, getExplorerUrl } from "@/lib/utils";
 import { useEffect, useState } from "react";
 import { fetchDeploymentById } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import BytecodeVerificationPanel from "@/components/BytecodeVerificationPanel";
 
 interface DetailModalProps {
   deployment: ProcessedDeployment;
@@ -51,12 +53,18 @@ export default function DetailModal({
     fetchLatestData();
   }, [initialDeployment.id]);
   
+  // Group the deployment's contracts for the panels below
+  const coreContracts = [...listContracts(deployment, 'endpoint'), ...listContracts(deployment, 'execution')];
+  const libraryContracts = listContracts(deployment, 'messageLibrary');
+  const otherContracts = [...listContracts(deployment, 'verification'), ...listContracts(deployment, 'other')];
+  const endpointAddress = getEndpointAddress(deployment);
+  
   // Helper function to render contract address
-  const renderContractAddress = (label: string, contract: { address: string } | undefined) => {
+  const renderContractAddress = (label: string, contract: { address: string } | undefined, protocolVersion?: number) => {
     if (!contract) return null;
     if (contract.address === 'N/A') {
       return (
-        <div className="p-3 rounded-lg bg-background/50 border border-secondary/10">
+        <div key={label} className="p-3 rounded-lg bg-background/50 border border-secondary/10">
           <p className="text-xs uppercase tracking-wider font-medium text-foreground/60 mb-2">{label}</p>
           <div className="text-sm font-mono text-foreground/70">Not Available</div>
         </div>
@@ -64,8 +72,13 @@ export default function DetailModal({
     }
     
     return (
-      <div className="p-3 rounded-lg bg-background/50 border border-secondary/10">
-        <p className="text-xs uppercase tracking-wider font-medium text-foreground/60 mb-2">{label}</p>
+      <div key={label} className="p-3 rounded-lg bg-background/50 border border-secondary/10">
+        <div className="flex justify-between items-center mb-2">
+          <p className="text-xs uppercase tracking-wider font-medium text-foreground/60">{label}</p>
+          {protocolVersion && (
+            <span className="text-[10px] font-mono text-foreground/50">V{protocolVersion}</span>
+          )}
+        </div>
         <div className="flex items-center">
           <a 
             href={getExplorerUrl(deployment.chainKey, contract.address, deployment)} 
@@ -175,13 +188,13 @@ export default function DetailModal({
               </h3>
               
               <div className="space-y-4">
-                {renderContractAddress("Endpoint", deployment.endpoint)}
-                {deployment.version >= 2 && deployment.rawData?.endpointV2 && 
-                  renderContractAddress("EndpointV2", deployment.rawData.endpointV2)}
-                {renderContractAddress("UltraLightNodeV2", deployment.ultraLightNodeV2)}
-                {renderContractAddress("RelayerV2", deployment.relayerV2)}
-                {deployment.version >= 2 && deployment.rawData?.executor && 
-                  renderContractAddress("Executor", deployment.rawData.executor)}
+                {coreContracts.map(contract => renderContractAddress(contract.label, contract, contract.protocolVersion))}
+                
+                {coreContracts.length === 0 && (
+                  <div className="p-4 rounded-lg bg-background/20 border border-secondary/10 text-foreground/60 text-center">
+                    No core contracts available for this deployment
+                  </div>
+                )}
               </div>
             </div>
             
@@ -195,39 +208,36 @@ export default function DetailModal({
               </h3>
               
               <div className="space-y-4">
-                {deployment.version === 1 ? (
-                  <>
-                    {renderContractAddress("SendUln301", deployment.sendUln301)}
-                    {renderContractAddress("ReceiveUln301", deployment.receiveUln301)}
-                    {renderContractAddress("NonceContract", deployment.nonceContract)}
-                  </>
-                ) : (
-                  <>
-                    {renderContractAddress("SendUln302", deployment.rawData?.sendUln302)}
-                    {renderContractAddress("ReceiveUln302", deployment.rawData?.receiveUln302)}
-                    {renderContractAddress("BlockedMessageLib", deployment.rawData?.blockedMessageLib)}
-                    {renderContractAddress("LzExecutor", deployment.rawData?.lzExecutor)}
-                  </>
-                )}
+                {libraryContracts.map(contract => renderContractAddress(contract.label, contract, contract.protocolVersion))}
                 
-                {deployment.version === 1 && !deployment.sendUln301 && !deployment.receiveUln301 && !deployment.nonceContract && (
+                {libraryContracts.length === 0 && (
                   <div className="p-4 rounded-lg bg-background/20 border border-secondary/10 text-foreground/60 text-center">
                     No send/receive contracts available for this deployment
                   </div>
                 )}
-                
-                {deployment.version === 2 && 
-                  !deployment.rawData?.sendUln302 && 
-                  !deployment.rawData?.receiveUln302 && 
-                  !deployment.rawData?.blockedMessageLib && (
-                  <div className="p-4 rounded-lg bg-background/20 border border-secondary/10 text-foreground/60 text-center">
-                    No send/receive contracts available for this v2 deployment
-                  </div>
-                )}
               </div>
             </div>
           </div>
           
+          {/* Verification and Other Contracts Panel */}
+          {otherContracts.length > 0 && (
+            <div className="glass-panel p-5 space-y-5">
+              <h3 className="text-lg font-bold text-foreground flex items-center">
+                <div className="w-6 h-6 bg-accent/20 rounded-md flex items-center justify-center mr-2">
+                  <CheckCircle className="text-accent h-4 w-4" />
+                </div>
+                Verification &amp; Other Contracts
+              </h3>
+              
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {otherContracts.map(contract => renderContractAddress(contract.label, contract, contract.protocolVersion))}
+              </div>
+            </div>
+          )}
+          
+          {/* On-chain Bytecode Verification Panel */}
+          <BytecodeVerificationPanel deployment={deployment} />
+          
           {/* Deployment Details Panel */}
           <div className="glass-panel p-5 space-y-4">
             <h3 className="text-lg font-bold text-foreground flex items-center">
@@ -304,7 +314,7 @@ export default function DetailModal({
               disabled={loading}
             >
               <a 
-                href={getExplorerUrl(deployment.chainKey, deployment.endpoint.address, deployment)} 
+                href={getExplorerUrl(deployment.chainKey, endpointAddress, deployment)} 
                 target="_blank" 
                 rel="noopener noreferrer"
               >
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Copy } from 'lucide-react';
+import { fetchDvnProviders, fetchDvnProvider } from '@/lib/api';
+import { DvnProvider } from '@shared/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { truncateAddress, copyToClipboard, getExplorerUrl } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+
+function DvnRegistry() {
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState<string>('');
+  const [lzReadOnly, setLzReadOnly] = useState<boolean>(false);
+  const [showDeprecatedOnly, setShowDeprecatedOnly] = useState<boolean>(false);
+  const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
+
+  // Fetch the provider list
+  const { data: providers, isLoading: isLoadingProviders } = useQuery({
+    queryKey: ['/api/dvns', lzReadOnly],
+    queryFn: () => fetchDvnProviders({ lzReadCompatible: lzReadOnly || undefined }),
+  });
+
+  // Fetch details for the selected provider
+  const { data: providerDetails, isLoading: isLoadingDetails } = useQuery({
+    queryKey: ['/api/dvns', selectedProvider],
+    queryFn: () => fetchDvnProvider(selectedProvider!),
+    enabled: !!selectedProvider,
+  });
+
+  const filteredProviders = (providers || []).filter((provider: DvnProvider) =>
+    provider.canonicalName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    provider.id.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const visibleDeployments = (providerDetails?.deployments || [])
+    .filter(dvn => !showDeprecatedOnly || dvn.deprecated)
+    .sort((a, b) => a.chainKey.localeCompare(b.chainKey) || a.stage.localeCompare(b.stage));
+
+  const handleCopyAddress = async (address: string) => {
+    const success = await copyToClipboard(address);
+    toast({
+      title: success ? 'Address copied to clipboard' : 'Failed to copy address',
+      variant: success ? 'default' : 'destructive',
+      duration: 2000,
+    });
+  };
+
+  return (
+    <div className="w-full max-w-7xl mx-auto p-4">
+      <div className="flex flex-col lg:flex-row gap-8">
+        {/* Provider List */}
+        <div className="lg:w-1/3">
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle>DVN Providers</CardTitle>
+              <CardDescription>
+                Decentralized Verifier Networks registered in the LayerZero metadata
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Input
+                type="search"
+                placeholder="Search providers..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="lzReadOnly">lzRead compatible only</Label>
+                <Switch id="lzReadOnly" checked={lzReadOnly} onCheckedChange={setLzReadOnly} />
+              </div>
+
+              {isLoadingProviders ? (
+                <div className="space-y-2">
+                  <Skeleton className="h-12 w-full" />
+                  <Skeleton className="h-12 w-full" />
+                  <Skeleton className="h-12 w-full" />
+                </div>
+              ) : filteredProviders.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">
+                  No DVN providers match your search.
+                </p>
+              ) : (
+                <div className="space-y-1 max-h-[600px] overflow-y-auto">
+                  {filteredProviders.map((provider) => (
+                    <div
+                      key={provider.id}
+                      className={`p-3 rounded-md cursor-pointer hover:bg-muted transition-colors ${
+                        selectedProvider === provider.id ? 'bg-muted' : ''
+                      }`}
+                      onClick={() => setSelectedProvider(provider.id)}
+                    >
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <p className="font-medium">{provider.canonicalName}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {provider.chains.length} chains • {provider.deployments.length} addresses
+                          </p>
+                        </div>
+                        <div className="flex gap-1">
+                          {provider.lzReadCompatible && <Badge variant="outline">lzRead</Badge>}
+                          {provider.deprecatedCount > 0 && (
+                            <Badge variant="secondary">{provider.deprecatedCount} deprecated</Badge>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Provider Details */}
+        <div className="lg:w-2/3">
+          <Card className="shadow-lg h-full">
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <div>
+                  <CardTitle>{providerDetails?.canonicalName || 'Provider Details'}</CardTitle>
+                  {providerDetails && (
+                    <CardDescription>
+                      Serves {providerDetails.chains.length} chains with {providerDetails.deployments.length} addresses
+                    </CardDescription>
+                  )}
+                </div>
+                {providerDetails && (
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="deprecatedOnly" className="text-sm">Deprecated only</Label>
+                    <Switch
+                      id="deprecatedOnly"
+                      checked={showDeprecatedOnly}
+                      onCheckedChange={setShowDeprecatedOnly}
+                    />
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!selectedProvider ? (
+                <div className="text-center py-12">
+                  <p className="text-muted-foreground">
+                    Select a DVN provider to view the chains it serves
+                  </p>
+                </div>
+              ) : isLoadingDetails ? (
+                <div className="space-y-4">
+                  <Skeleton className="h-12 w-full" />
+                  <Skeleton className="h-12 w-full" />
+                  <Skeleton className="h-12 w-full" />
+                </div>
+              ) : visibleDeployments.length === 0 ? (
+                <Alert>
+                  <AlertTitle>No addresses found</AlertTitle>
+                  <AlertDescription>
+                    This provider has no DVN addresses matching the current filter.
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="py-2">Chain</th>
+                        <th className="py-2">Stage</th>
+                        <th className="py-2">Address</th>
+                        <th className="py-2">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleDeployments.map((dvn) => (
+                        <tr key={`${dvn.chainKey}-${dvn.stage}-${dvn.address}`} className="border-t">
+                          <td className="py-2 font-medium">{dvn.chainKey}</td>
+                          <td className="py-2">{dvn.stage}</td>
+                          <td className="py-2 font-mono text-xs">
+                            <div className="flex items-center">
+                              <a
+                                href={getExplorerUrl(dvn.chainKey, dvn.address)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="hover:text-primary"
+                              >
+                                {truncateAddress(dvn.address, 10, 8)}
+                              </a>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-6 w-6 p-0 ml-1 rounded-full"
+                                onClick={() => handleCopyAddress(dvn.address)}
+                                aria-label="Copy address"
+                              >
+                                <Copy className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          </td>
+                          <td className="py-2">
+                            <div className="flex gap-1">
+                              {dvn.deprecated ? (
+                                <Badge variant="destructive">deprecated</Badge>
+                              ) : (
+                                <Badge variant="default">active</Badge>
+                              )}
+                              {dvn.lzReadCompatible && <Badge variant="outline">lzRead</Badge>}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default DvnRegistry;
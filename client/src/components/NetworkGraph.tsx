@@ -2,7 +2,18 @@ import { useRef, useEffect, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import * as d3 from 'd3';
 import { Card } from '@/components/ui/card';
-import { NetworkNode, NetworkLink } from '@shared/types';
+import { fetchNetworkData } from '@/lib/api';
+import { NetworkNode, NetworkLink, NetworkData } from '@shared/types';
+
+// Node colours by chain layer group (L1, L2, L3, unknown)
+const GROUP_COLORS = ['#6366F1', '#3B82F6', '#22D3EE', '#F97316'];
+
+// Link colours by strongest reason: lzRead overlap, then EndpointV2 on both sides, then DVN only
+function getLinkColor(link: NetworkLink): string {
+  if (link.reasons.includes('lzRead')) return 'rgba(236, 72, 153, 0.6)';
+  if (link.reasons.includes('endpointV2')) return 'rgba(99, 102, 241, 0.6)';
+  return 'rgba(148, 163, 184, 0.4)';
+}
 
 interface NodeTooltipProps {
   node: NetworkNode | null;
@@ -27,18 +38,62 @@ function NodeTooltip({ node, position }: NodeTooltipProps) {
         <span className="text-slate-400">Stage: <span className="text-primary">{node.stage}</span></span>
         <span className="text-slate-400">EID: <span className="text-slate-200">{node.eid}</span></span>
         <span className="text-slate-400">Connections: <span className="text-secondary">{node.connections}</span></span>
+        <span className="text-slate-400">DVN providers: <span className="text-slate-200">{node.dvnProviders}</span></span>
+        <span className="text-slate-400">EndpointV2: <span className="text-slate-200">{node.hasEndpointV2 ? 'yes' : 'no'}</span></span>
       </div>
     </Card>
   );
 }
 
-export default function NetworkGraph() {
+interface LinkTooltipProps {
+  link: NetworkLink | null;
+  position: { x: number; y: number } | null;
+}
+
+function LinkTooltip({ link, position }: LinkTooltipProps) {
+  if (!link || !position) return null;
+  
+  // d3 replaces source/target ids with node objects once the simulation starts
+  const source = typeof link.source === 'string' ? link.source : (link.source as NetworkNode).id;
+  const target = typeof link.target === 'string' ? link.target : (link.target as NetworkNode).id;
+  
+  return (
+    <Card 
+      className="absolute p-3 rounded-lg text-xs font-mono z-10 shadow-lg border border-slate-600 bg-slate-800/90 backdrop-blur-sm max-w-xs"
+      style={{ 
+        top: `${position.y}px`, 
+        left: `${position.x}px`,
+        transform: 'translate(-50%, -100%)',
+        marginTop: '-10px'
+      }}
+    >
+      <div className="flex flex-col">
+        <span className="text-accent">{source} ↔ {target}</span>
+        <span className="text-slate-400">Weight: <span className="text-slate-200">{link.value}</span></span>
+        <span className="text-slate-400">Reasons: <span className="text-slate-200">{link.reasons.join(', ')}</span></span>
+        <span className="text-slate-400">Shared DVNs: <span className="text-slate-200">{link.sharedDvns.join(', ')}</span></span>
+        {link.lzReadDvns.length > 0 && (
+          <span className="text-slate-400">lzRead DVNs: <span className="text-slate-200">{link.lzReadDvns.join(', ')}</span></span>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+interface NetworkGraphProps {
+  stage?: string;
+  minWeight?: number;
+}
+
+export default function NetworkGraph({ stage = 'mainnet', minWeight }: NetworkGraphProps) {
   const svgRef = useRef<SVGSVGElement | null>(null);
   const [hoveredNode, setHoveredNode] = useState<NetworkNode | null>(null);
+  const [hoveredLink, setHoveredLink] = useState<NetworkLink | null>(null);
   const [tooltipPosition, setTooltipPosition] = useState<{ x: number; y: number } | null>(null);
   
-  const { data, isLoading } = useQuery({
-    queryKey: ['/api/network'],
+  const { data, isLoading } = useQuery<NetworkData>({
+    queryKey: ['/api/network', stage, minWeight],
+    queryFn: () => fetchNetworkData(stage, minWeight),
   });
   
   useEffect(() => {
@@ -54,9 +109,14 @@ export default function NetworkGraph() {
       .attr('width', width)
       .attr('height', height);
     
+    // d3 mutates nodes and links, so work on copies and keep the query cache intact
+    const nodes = data.nodes.map(node => ({ ...node }));
+    const links = data.links.map(link => ({ ...link }));
+    const maxWeight = Math.max(1, ...links.map(link => link.value));
+    
     // Create a force simulation
-    const simulation = d3.forceSimulation(data.nodes)
-      .force('link', d3.forceLink(data.links).id((d: any) => d.id).distance(100))
+    const simulation = d3.forceSimulation(nodes)
+      .force('link', d3.forceLink(links).id((d: any) => d.id).distance((d: any) => 160 - 100 * (d.value / maxWeight)))
       .force('charge', d3.forceManyBody().strength(-300))
       .force('center', d3.forceCenter(width / 2, height / 2))
       .force('collision', d3.forceCollide().radius(30));
@@ -65,18 +125,26 @@ export default function NetworkGraph() {
     const link = svg.append('g')
       .attr('class', 'links')
       .selectAll('line')
-      .data(data.links)
+      .data(links)
       .enter()
       .append('line')
       .attr('class', 'link')
-      .style('stroke', 'rgba(99, 102, 241, 0.6)')
-      .style('stroke-width', 1.5);
+      .style('stroke', (d: any) => getLinkColor(d))
+      .style('stroke-width', (d: any) => 0.5 + 3.5 * (d.value / maxWeight))
+      .on('mouseover', function(event: any, d: any) {
+        setHoveredLink(d);
+        setTooltipPosition({ x: event.pageX, y: event.pageY });
+      })
+      .on('mouseout', function() {
+        setHoveredLink(null);
+        setTooltipPosition(null);
+      });
     
     // Add nodes
     const nodeGroup = svg.append('g')
       .attr('class', 'nodes')
       .selectAll('g')
-      .data(data.nodes)
+      .data(nodes)
       .enter()
       .append('g');
     
@@ -84,16 +152,7 @@ export default function NetworkGraph() {
     nodeGroup.append('circle')
       .attr('class', 'node')
       .attr('r', 8)
-      .style('fill', (d: any) => {
-        const colors = [
-          '#6366F1', // primary
-          '#3B82F6', // secondary
-          '#22D3EE', // accent
-          '#F97316', // orange
-          '#EC4899'  // pink
-        ];
-        return colors[d.group % colors.length];
-      })
+      .style('fill', (d: any) => GROUP_COLORS[d.group % GROUP_COLORS.length])
       .style('stroke', '#22D3EE')
       .style('stroke-width', 2)
       .on('mouseover', function(event, d: any) {
@@ -111,12 +170,7 @@ export default function NetworkGraph() {
           .transition()
           .duration(300)
           .attr('r', 8)
-          .style('fill', (d: any) => {
-            const colors = [
-              '#6366F1', '#3B82F6', '#22D3EE', '#F97316', '#EC4899'
-            ];
-            return colors[d.group % colors.length];
-          });
+          .style('fill', (d: any) => GROUP_COLORS[d.group % GROUP_COLORS.length]);
         
         setHoveredNode(null);
         setTooltipPosition(null);
@@ -182,6 +236,7 @@ export default function NetworkGraph() {
         <>
           <svg ref={svgRef} width="100%" height="100%"></svg>
           <NodeTooltip node={hoveredNode} position={tooltipPosition} />
+          <LinkTooltip link={hoveredLink} position={tooltipPosition} />
         </>
       )}
     </div>
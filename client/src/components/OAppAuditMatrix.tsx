@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ShieldAlert } from 'lucide-react';
+import { AuditCheck, AuditFinding, AuditSeverity, PathwayAudit } from '@shared/types';
+import { fetchOAppAudit } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+interface OAppAuditMatrixProps {
+  address: string;
+  chain: string;
+  eids?: string[];
+}
+
+const CHECKS: { check: AuditCheck; label: string }[] = [
+  { check: 'peer', label: 'Peer' },
+  { check: 'library', label: 'Libraries' },
+  { check: 'dvnCount', label: 'DVN count' },
+  { check: 'dvnStatus', label: 'DVN status' },
+  { check: 'confirmations', label: 'Confirmations' },
+];
+
+const SEVERITY_ORDER: AuditSeverity[] = ['high', 'medium', 'low', 'info'];
+
+const RISK_STYLES: Record<AuditSeverity | 'none', { label: string; className: string }> = {
+  high: { label: 'High', className: 'bg-destructive/20 text-destructive border-destructive/30' },
+  medium: { label: 'Medium', className: 'bg-destructive/10 text-destructive border-destructive/20' },
+  low: { label: 'Low', className: 'bg-secondary/10 text-secondary border-secondary/20' },
+  info: { label: 'Info', className: 'bg-foreground/5 text-foreground/60 border-foreground/10' },
+  none: { label: 'OK', className: 'bg-success/10 text-success border-success/20' },
+};
+
+function worstSeverity(findings: AuditFinding[]): AuditSeverity | 'none' {
+  return SEVERITY_ORDER.find(severity => findings.some(finding => finding.severity === severity)) || 'none';
+}
+
+function MatrixRow({ pathway }: { pathway: PathwayAudit }) {
+  return (
+    <tr className="border-t border-border">
+      <td className="py-2 pr-4">
+        <div className="font-medium">{pathway.remoteChainKey || 'Unknown chain'}</div>
+        <div className="text-xs text-muted-foreground font-mono">EID {pathway.remoteEid}</div>
+      </td>
+      {CHECKS.map(({ check }) => {
+        const findings = pathway.findings.filter(finding => finding.check === check);
+        const style = RISK_STYLES[worstSeverity(findings)];
+        return (
+          <td key={check} className="p-1">
+            <div
+              className={`rounded-md border px-2 py-2 text-center text-xs font-medium ${style.className}`}
+              title={findings.map(finding => finding.message).join('\n') || 'No findings'}
+            >
+              {style.label}
+            </div>
+          </td>
+        );
+      })}
+      <td className="p-1 text-center">
+        <Badge variant="outline" className={RISK_STYLES[pathway.risk].className}>
+          {RISK_STYLES[pathway.risk].label}
+        </Badge>
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * Security audit of the inspected OApp: one row per pathway, one cell per check, colored
+ * by the most severe finding. The audit also reads each peer's config on its own chain.
+ */
+function OAppAuditMatrix({ address, chain, eids }: OAppAuditMatrixProps) {
+  const [enabled, setEnabled] = useState<boolean>(false);
+
+  const { data: audit, isFetching, error, refetch } = useQuery({
+    queryKey: ['/api/oapp', address, 'audit', chain, eids],
+    queryFn: () => fetchOAppAudit(address, chain, eids),
+    enabled,
+  });
+
+  const flagged = audit?.pathways.filter(pathway => pathway.findings.length > 0) || [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Security Audit
+          </CardTitle>
+          <CardDescription>
+            Flags missing or mismatched peers, blocked libraries, single or deprecated DVNs, and confirmations
+            that disagree with the peer's config
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isFetching}
+          onClick={() => enabled ? refetch() : setEnabled(true)}
+        >
+          {isFetching ? 'Auditing...' : audit ? 'Re-run Audit' : 'Run Audit'}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isFetching && !audit && <Skeleton className="h-32 w-full" />}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Audit failed</AlertTitle>
+            <AlertDescription>{error instanceof Error ? error.message : String(error)}</AlertDescription>
+          </Alert>
+        )}
+
+        {audit && (
+          <>
+            <div className="flex flex-wrap gap-2 text-xs text-muted-foreground items-center">
+              <span>{audit.pathways.length} pathways at block {audit.blockNumber}:</span>
+              {(['high', 'medium', 'low', 'info', 'none'] as const)
+                .filter(risk => audit.summary[risk])
+                .map(risk => (
+                  <Badge key={risk} variant="outline" className={RISK_STYLES[risk].className}>
+                    {audit.summary[risk]} {RISK_STYLES[risk].label}
+                  </Badge>
+                ))}
+            </div>
+
+            {audit.pathways.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No pathways to audit.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-muted-foreground">
+                      <th className="pb-2 pr-4 font-medium">Remote</th>
+                      {CHECKS.map(({ check, label }) => (
+                        <th key={check} className="pb-2 px-1 font-medium text-center">{label}</th>
+                      ))}
+                      <th className="pb-2 px-1 font-medium text-center">Risk</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {audit.pathways.map(pathway => (
+                      <MatrixRow key={pathway.remoteEid} pathway={pathway} />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {flagged.length > 0 && (
+              <div className="space-y-3">
+                {flagged.map(pathway => (
+                  <div key={pathway.remoteEid} className="space-y-1">
+                    <h4 className="text-sm font-medium">
+                      {pathway.remoteChainKey || 'Unknown chain'} (EID {pathway.remoteEid})
+                    </h4>
+                    {pathway.findings.map((finding, index) => (
+                      <div key={index} className="flex items-start gap-2 text-sm">
+                        <Badge variant="outline" className={`shrink-0 ${RISK_STYLES[finding.severity].className}`}>
+                          {RISK_STYLES[finding.severity].label}
+                        </Badge>
+                        <span className="text-muted-foreground">{finding.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default OAppAuditMatrix;
@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { LabeledAddress, LzReadChain, OAppPathwayConfig, UlnConfigData } from '@shared/types';
+import { fetchLzReadChains, fetchOAppConfig } from '@/lib/api';
+import OAppAuditMatrix from '@/components/OAppAuditMatrix';
+import { truncateAddress } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface InspectParams {
+  address: string;
+  chain: string;
+  eids?: string[];
+}
+
+// A bytes32 peer left-padded from an EVM address reads as that address
+function formatPeer(peer: string | null): string {
+  if (!peer) return 'Not set';
+  return /^0x0{24}/.test(peer) ? truncateAddress(`0x${peer.slice(26)}`) : truncateAddress(peer, 10, 8);
+}
+
+function AddressLabel({ value }: { value?: LabeledAddress }) {
+  if (!value) return <span className="text-muted-foreground">—</span>;
+  return (
+    <span className="font-mono text-xs" title={value.address}>
+      {value.label || truncateAddress(value.address)}
+      {value.deprecated && <Badge variant="destructive" className="ml-1 text-[10px]">deprecated</Badge>}
+    </span>
+  );
+}
+
+function DvnList({ config }: { config?: UlnConfigData }) {
+  if (!config) return <span className="text-muted-foreground">—</span>;
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-1">
+        {config.requiredDVNs.map(dvn => (
+          <Badge key={dvn.address} variant={dvn.deprecated || dvn.kind === 'deadDVN' ? 'destructive' : 'secondary'} title={dvn.address}>
+            {dvn.label || truncateAddress(dvn.address)}
+          </Badge>
+        ))}
+        {config.requiredDVNs.length === 0 && <span className="text-xs text-muted-foreground">No required DVNs</span>}
+      </div>
+      {config.optionalDVNs.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-muted-foreground">
+            {config.optionalDVNThreshold} of
+          </span>
+          {config.optionalDVNs.map(dvn => (
+            <Badge key={dvn.address} variant="outline" title={dvn.address}>
+              {dvn.label || truncateAddress(dvn.address)}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PathwayRow({ pathway }: { pathway: OAppPathwayConfig }) {
+  return (
+    <TableRow>
+      <TableCell>
+        <div className="font-medium">{pathway.remoteChainKey || 'Unknown chain'}</div>
+        <div className="text-xs text-muted-foreground font-mono">EID {pathway.remoteEid}</div>
+      </TableCell>
+      <TableCell className="font-mono text-xs" title={pathway.peer || undefined}>
+        {formatPeer(pathway.peer)}
+      </TableCell>
+      <TableCell>
+        <div><AddressLabel value={pathway.sendLibrary} /></div>
+        <div><AddressLabel value={pathway.receiveLibrary} /></div>
+        {(pathway.sendLibrary?.isDefault || pathway.receiveLibrary?.isDefault) && (
+          <span className="text-xs text-muted-foreground">endpoint default</span>
+        )}
+      </TableCell>
+      <TableCell className="font-mono text-xs">
+        {pathway.sendUlnConfig?.confirmations ?? '—'} / {pathway.receiveUlnConfig?.confirmations ?? '—'}
+      </TableCell>
+      <TableCell><DvnList config={pathway.sendUlnConfig} /></TableCell>
+      <TableCell><DvnList config={pathway.receiveUlnConfig} /></TableCell>
+      <TableCell>
+        <AddressLabel value={pathway.executorConfig?.executor} />
+        {pathway.executorConfig && (
+          <div className="text-xs text-muted-foreground">max {pathway.executorConfig.maxMessageSize} bytes</div>
+        )}
+        {pathway.errors?.map(error => (
+          <div key={error} className="text-xs text-destructive">{error}</div>
+        ))}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function OAppInspector() {
+  const [address, setAddress] = useState<string>('');
+  const [chain, setChain] = useState<string>('');
+  const [eids, setEids] = useState<string>('');
+  const [params, setParams] = useState<InspectParams | null>(null);
+
+  const { data: chains } = useQuery<LzReadChain[]>({
+    queryKey: ['/api/lzread/chains'],
+    queryFn: fetchLzReadChains
+  });
+
+  const { data: config, isLoading, error } = useQuery({
+    queryKey: ['/api/oapp', params?.address, 'config', params?.chain, params?.eids],
+    queryFn: () => fetchOAppConfig(params!.address, params!.chain, params!.eids),
+    enabled: !!params,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const remoteEids = eids.split(',').map(eid => eid.trim()).filter(Boolean);
+    setParams({ address: address.trim(), chain, eids: remoteEids.length > 0 ? remoteEids : undefined });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Inspect an OApp</CardTitle>
+          <CardDescription>
+            Reads the OApp's peers, message libraries, DVNs and executor from EndpointV2 on the chosen chain
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="oappAddress">OApp Address</Label>
+              <Input
+                id="oappAddress"
+                placeholder="0x..."
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oappChain">Chain</Label>
+              <Select value={chain} onValueChange={setChain}>
+                <SelectTrigger id="oappChain">
+                  <SelectValue placeholder="Select chain" />
+                </SelectTrigger>
+                <SelectContent>
+                  {chains?.map(item => (
+                    <SelectItem key={item.chainKey} value={item.chainKey}>{item.chainKey}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oappEids">Remote EIDs</Label>
+              <Input
+                id="oappEids"
+                placeholder="All with a peer"
+                value={eids}
+                onChange={(e) => setEids(e.target.value)}
+              />
+            </div>
+            <Button type="submit" className="md:col-span-4" disabled={!address.trim() || !chain || isLoading}>
+              {isLoading ? 'Reading configuration...' : 'Read Configuration'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {isLoading && <Skeleton className="h-48 w-full" />}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Could not read the configuration</AlertTitle>
+          <AlertDescription>{error instanceof Error ? error.message : String(error)}</AlertDescription>
+        </Alert>
+      )}
+
+      {config && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-mono text-base">{config.address}</CardTitle>
+            <CardDescription>
+              {config.chainKey} (EID {config.eid}) · EndpointV2 {truncateAddress(config.endpoint)} ·
+              delegate {config.delegate ? truncateAddress(config.delegate) : 'not set'} · block {config.blockNumber}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {config.pathways.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No peers set towards any of the {config.scannedEids} endpoints checked. Enter remote EIDs to read
+                their libraries and configs anyway.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Remote</TableHead>
+                    <TableHead>Peer</TableHead>
+                    <TableHead>Send / Receive Library</TableHead>
+                    <TableHead>Confirmations</TableHead>
+                    <TableHead>Send DVNs</TableHead>
+                    <TableHead>Receive DVNs</TableHead>
+                    <TableHead>Executor</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {config.pathways.map(pathway => (
+                    <PathwayRow key={pathway.remoteEid} pathway={pathway} />
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {config && params && (
+        <OAppAuditMatrix
+          key={`${params.chain}-${params.address}-${params.eids?.join(',')}`}
+          address={params.address}
+          chain={params.chain}
+          eids={params.eids}
+        />
+      )}
+    </div>
+  );
+}
+
+export default OAppInspector;
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Copy, Download } from 'lucide-react';
+import { DvnProvider } from '@shared/types';
+import { fetchDvnProviders, generateReadConfig } from '@/lib/api';
+import { copyToClipboard, downloadFile } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+
+interface ReadConfigGeneratorProps {
+  chains: string[];
+}
+
+type DvnRole = 'none' | 'required' | 'optional';
+
+/**
+ * Builds a layerzero.config.ts for an lzRead OApp on the chains selected in the explorer,
+ * using each chain's ReadLib1002 and Executor and the chosen lzRead DVN providers.
+ */
+function ReadConfigGenerator({ chains }: ReadConfigGeneratorProps) {
+  const { toast } = useToast();
+  const [contractName, setContractName] = useState<string>('MyReadOApp');
+  const [roles, setRoles] = useState<Record<string, DvnRole>>({ 'layerzero-labs': 'required' });
+  const [threshold, setThreshold] = useState<string>('1');
+  const [gas, setGas] = useState<string>('80000');
+  const [size, setSize] = useState<string>('1000000');
+
+  const { data: providers, isLoading: isLoadingProviders } = useQuery({
+    queryKey: ['/api/dvns', 'lzRead', chains],
+    queryFn: () => fetchDvnProviders({ chains, lzReadCompatible: true }),
+    enabled: chains.length > 0,
+  });
+
+  const mutation = useMutation({
+    mutationFn: generateReadConfig,
+  });
+
+  // Only providers listed for the current chains count, so deselecting chains drops stale roles
+  const listed = (providers || []).map(provider => provider.id);
+  const required = listed.filter(id => roles[id] === 'required');
+  const optional = listed.filter(id => roles[id] === 'optional');
+
+  const handleGenerate = () => {
+    mutation.mutate({
+      chains,
+      contractName: contractName.trim(),
+      requiredDVNs: required,
+      optionalDVNs: optional,
+      optionalDVNThreshold: optional.length > 0 ? parseInt(threshold, 10) || 0 : 0,
+      enforcedOptions: { gas: parseInt(gas, 10), size: parseInt(size, 10) },
+    });
+  };
+
+  const handleCopy = async (source: string) => {
+    const success = await copyToClipboard(source);
+    toast({
+      title: success ? 'Config copied to clipboard' : 'Failed to copy config',
+      variant: success ? 'default' : 'destructive',
+      duration: 2000,
+    });
+  };
+
+  // How many of the selected chains a provider has an lzRead DVN on
+  const coverage = (provider: DvnProvider) => provider.chains.filter(chain => chains.includes(chain)).length;
+
+  const result = mutation.data;
+
+  return (
+    <Card className="mt-4 shadow-lg">
+      <CardHeader>
+        <CardTitle>lzRead Config</CardTitle>
+        <CardDescription>
+          Generate a layerzero.config.ts for a read OApp on the selected chains
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {chains.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Select chains above to choose their lzRead DVNs.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="readContractName">Contract Name</Label>
+              <Input
+                id="readContractName"
+                value={contractName}
+                onChange={(e) => setContractName(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>DVNs</Label>
+              {isLoadingProviders ? (
+                <Skeleton className="h-20 w-full" />
+              ) : !providers?.length ? (
+                <p className="text-sm text-muted-foreground">No lzRead DVNs on the selected chains.</p>
+              ) : (
+                <div className="space-y-1 max-h-64 overflow-y-auto pr-1">
+                  {providers.map(provider => (
+                    <div key={provider.id} className="flex items-center justify-between gap-2 text-sm">
+                      <div>
+                        <span className="font-medium">{provider.canonicalName}</span>
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {coverage(provider)}/{chains.length} chains
+                        </span>
+                      </div>
+                      <Select
+                        value={roles[provider.id] || 'none'}
+                        onValueChange={(role) => setRoles({ ...roles, [provider.id]: role as DvnRole })}
+                      >
+                        <SelectTrigger className="w-28 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Not used</SelectItem>
+                          <SelectItem value="required">Required</SelectItem>
+                          <SelectItem value="optional">Optional</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="readThreshold" className="text-xs">Optional threshold</Label>
+                <Input
+                  id="readThreshold"
+                  type="number"
+                  min={0}
+                  max={optional.length}
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  disabled={optional.length === 0}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="readGas" className="text-xs">lzReceive gas</Label>
+                <Input id="readGas" type="number" min={1} value={gas} onChange={(e) => setGas(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="readSize" className="text-xs">Response size</Label>
+                <Input id="readSize" type="number" min={1} value={size} onChange={(e) => setSize(e.target.value)} />
+              </div>
+            </div>
+
+            <Button
+              className="w-full"
+              onClick={handleGenerate}
+              disabled={mutation.isPending || !contractName.trim() || required.length + optional.length === 0}
+            >
+              {mutation.isPending ? 'Generating...' : 'Generate Config'}
+            </Button>
+          </>
+        )}
+
+        {mutation.error && (
+          <Alert variant="destructive">
+            <AlertTitle>Could not generate the config</AlertTitle>
+            <AlertDescription>
+              {mutation.error instanceof Error ? mutation.error.message : String(mutation.error)}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <div className="space-y-2">
+            {result.skipped.length > 0 && (
+              <Alert>
+                <AlertTitle>{result.skipped.length} chains left out</AlertTitle>
+                <AlertDescription>
+                  <ul className="text-xs space-y-0.5 mt-1">
+                    {result.skipped.map(({ chainKey, reason }) => (
+                      <li key={chainKey}><span className="font-medium">{chainKey}</span>: {reason}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-muted-foreground">
+                {result.contracts.length} chains in {result.fileName}
+              </span>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => handleCopy(result.source)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => downloadFile(result.fileName, result.source, 'text/typescript')}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Download
+                </Button>
+              </div>
+            </div>
+            <pre className="text-xs font-mono bg-muted p-3 rounded-md overflow-auto max-h-80">
+              {result.source}
+            </pre>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ReadConfigGenerator;
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { ResolvedStorageSlot, StorageQuery, StorageSlotQuery } from '@shared/types';
+import { resolveStorageSlots } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+
+interface StorageSlotBuilderProps {
+  storage: StorageQuery;
+  onChange: (storage: StorageQuery) => void;
+}
+
+type SlotMode = 'slot' | 'eip1967' | 'variable';
+
+function slotMode(slot: StorageSlotQuery): SlotMode {
+  if (slot.eip1967) return 'eip1967';
+  if (slot.variable !== undefined) return 'variable';
+  return 'slot';
+}
+
+/**
+ * The slots a storage query reads: raw slots with optional mapping keys and array index,
+ * EIP-1967 proxy slots, or variable paths through a pasted storage layout.
+ */
+export default function StorageSlotBuilder({ storage, onChange }: StorageSlotBuilderProps) {
+  const { toast } = useToast();
+  const [resolved, setResolved] = useState<ResolvedStorageSlot[]>([]);
+
+  const updateSlot = (index: number, slot: StorageSlotQuery) => {
+    setResolved([]);
+    onChange({ ...storage, slots: storage.slots.map((item, i) => i === index ? slot : item) });
+  };
+
+  const changeMode = (index: number, mode: SlotMode) => {
+    const slot: StorageSlotQuery = mode === 'eip1967'
+      ? { eip1967: 'implementation' }
+      : mode === 'variable' ? { variable: '' } : { slot: '0' };
+    updateSlot(index, slot);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: resolveStorageSlots,
+    onSuccess: setResolved,
+    onError: (error) => {
+      toast({
+        title: 'Invalid storage slots',
+        description: error instanceof Error ? error.message : 'Failed to resolve the storage slots',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const usesLayout = storage.slots.some(slot => slot.variable !== undefined);
+
+  return (
+    <div className="space-y-4 border rounded-md p-3">
+      {storage.slots.map((slot, index) => {
+        const mode = slotMode(slot);
+        return (
+          <div key={index} className="space-y-2">
+            <div className="flex gap-2">
+              <Select value={mode} onValueChange={(value) => changeMode(index, value as SlotMode)}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="slot">Slot</SelectItem>
+                  <SelectItem value="eip1967">EIP-1967 slot</SelectItem>
+                  <SelectItem value="variable">Layout variable</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {mode === 'slot' && (
+                <Input
+                  placeholder="Slot, e.g. 0 or 0x…"
+                  value={slot.slot || ''}
+                  onChange={(e) => updateSlot(index, { ...slot, slot: e.target.value })}
+                  className="font-mono text-xs"
+                />
+              )}
+              {mode === 'eip1967' && (
+                <Select
+                  value={slot.eip1967}
+                  onValueChange={(value) => updateSlot(index, { eip1967: value as StorageSlotQuery['eip1967'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="implementation">Implementation</SelectItem>
+                    <SelectItem value="admin">Admin</SelectItem>
+                    <SelectItem value="beacon">Beacon</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              {mode === 'variable' && (
+                <Input
+                  placeholder="e.g. owner, balances[0x…] or users[3].score"
+                  value={slot.variable || ''}
+                  onChange={(e) => updateSlot(index, { variable: e.target.value })}
+                  className="font-mono text-xs"
+                />
+              )}
+
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={storage.slots.length === 1}
+                onClick={() => onChange({ ...storage, slots: storage.slots.filter((_, i) => i !== index) })}
+              >
+                Remove
+              </Button>
+            </div>
+
+            {mode === 'slot' && (
+              <div className="grid grid-cols-3 gap-2">
+                <Input
+                  placeholder="Mapping keys, comma separated"
+                  value={(slot.keys || []).join(',')}
+                  onChange={(e) => updateSlot(index, { ...slot, keys: e.target.value ? e.target.value.split(',') : undefined })}
+                  className="font-mono text-xs"
+                />
+                <Input
+                  placeholder="Array index"
+                  value={slot.index || ''}
+                  onChange={(e) => updateSlot(index, { ...slot, index: e.target.value || undefined })}
+                  className="font-mono text-xs"
+                />
+                <Input
+                  placeholder="Decode as, e.g. uint256"
+                  value={slot.type || ''}
+                  onChange={(e) => updateSlot(index, { ...slot, type: e.target.value || undefined })}
+                  className="font-mono text-xs"
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {usesLayout && (
+        <div className="space-y-2">
+          <Label htmlFor="storageLayout">Storage layout</Label>
+          <Textarea
+            id="storageLayout"
+            placeholder="solc storageLayout JSON, or a compiler artifact that includes it"
+            value={storage.layout || ''}
+            onChange={(e) => {
+              setResolved([]);
+              onChange({ ...storage, layout: e.target.value });
+            }}
+            className="font-mono text-xs min-h-[100px]"
+          />
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...storage, slots: [...storage.slots, { slot: '0' }] })}
+        >
+          Add Slot
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => previewMutation.mutate(storage)}
+          disabled={previewMutation.isPending}
+        >
+          {previewMutation.isPending ? 'Resolving...' : 'Preview Slots'}
+        </Button>
+      </div>
+
+      {resolved.length > 0 && (
+        <div className="space-y-1">
+          {resolved.map((slot, index) => (
+            <div key={index} className="text-xs">
+              <span className="text-muted-foreground">{slot.label}{slot.type && ` (${slot.type})`}: </span>
+              <span className="font-mono break-all">{slot.slot}</span>
+              {slot.offset > 0 && <span className="text-muted-foreground"> at byte offset {slot.offset}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
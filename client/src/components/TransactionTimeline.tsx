@@ -0,0 +1,86 @@
+import { TransactionRecord } from '@shared/types';
+import { formatBalance } from '@shared/format';
+import { truncateAddress } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+interface TransactionTimelineProps {
+  transactions: TransactionRecord[];
+  getNativeCurrency: (chainKey: string) => { symbol: string; decimals: number };
+  page: number;
+  hasMore: boolean;
+  onPageChange?: (page: number) => void;
+}
+
+const DIRECTION_LABELS: Record<TransactionRecord['direction'], string> = {
+  in: 'In',
+  out: 'Out',
+  self: 'Self',
+};
+
+/**
+ * Cross-chain activity: every chain's transactions for the address, newest first.
+ */
+export default function TransactionTimeline({
+  transactions,
+  getNativeCurrency,
+  page,
+  hasMore,
+  onPageChange
+}: TransactionTimelineProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <h4 className="text-sm font-medium">Activity timeline</h4>
+        {onPageChange && (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" className="h-7 text-xs" disabled={page <= 1} onClick={() => onPageChange(page - 1)}>
+              Newer
+            </Button>
+            <span className="text-xs text-muted-foreground">Page {page}</span>
+            <Button variant="outline" size="sm" className="h-7 text-xs" disabled={!hasMore} onClick={() => onPageChange(page + 1)}>
+              Older
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {transactions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No transactions found for this address in the scanned blocks
+        </p>
+      ) : (
+        <div className="border rounded-md divide-y max-h-[420px] overflow-y-auto">
+          {transactions.map(tx => {
+            const currency = getNativeCurrency(tx.chainKey);
+            return (
+              <div key={`${tx.chainKey}-${tx.hash}`} className="p-2 text-xs space-y-1">
+                <div className="flex justify-between items-center gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{tx.chainKey}</Badge>
+                    <Badge variant={tx.direction === 'out' ? 'secondary' : 'default'}>
+                      {DIRECTION_LABELS[tx.direction]}
+                    </Badge>
+                    <span className="font-mono" title={tx.selector}>{tx.method}</span>
+                    {tx.status === 'failed' && <Badge variant="destructive">Failed</Badge>}
+                  </div>
+                  <span className="text-muted-foreground">
+                    {new Date(tx.timestamp * 1000).toISOString().replace('T', ' ').slice(0, 19)}
+                  </span>
+                </div>
+                <div className="flex justify-between text-muted-foreground">
+                  <span className="font-mono" title={tx.hash}>
+                    {truncateAddress(tx.hash)} · {truncateAddress(tx.from)} → {tx.to ? truncateAddress(tx.to) : '[Contract Creation]'}
+                  </span>
+                  <span>
+                    {formatBalance(tx.value, currency.decimals)} {currency.symbol}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import * as React from "react"
+import type { LzReadRequest } from "@shared/types"
+import { queryClient } from "@/lib/queryClient"
+
+// Keeps the cached lzRead request up to date from the server's event stream until it finishes
+export function useRequestEvents(requestId: string | null) {
+  React.useEffect(() => {
+    if (!requestId) return
+
+    const source = new EventSource(`/api/lzread/request/${encodeURIComponent(requestId)}/events`)
+    source.addEventListener("update", (event) => {
+      const request: LzReadRequest = JSON.parse((event as MessageEvent).data)
+      queryClient.setQueryData(["/api/lzread/request", requestId], request)
+
+      if (request.status !== "pending") {
+        // Close before the server ends the stream, so EventSource doesn't reconnect
+        source.close()
+        queryClient.invalidateQueries({ queryKey: ["/api/lzread/recent"] })
+      }
+    })
+
+    return () => source.close()
+  }, [requestId])
+}
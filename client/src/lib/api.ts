@@ -4,7 +4,27 @@ import {
   DeploymentStats,
   FilterOptions,
   CrossChainQuery,
-  LzReadRequest
+  LzReadRequest,
+  DvnProvider,
+  ChangesResponse,
+  ChainMetadata,
+  ChainDetail,
+  LzReadChain,
+  RpcChainHealth,
+  LzReadHistoryFilters,
+  LzReadHistoryPage,
+  LzReadCommand,
+  AbiFunctionInfo,
+  LzReadComputeSpec,
+  LzReadComputeResult,
+  StorageQuery,
+  ResolvedStorageSlot,
+  BytecodeVerificationJob,
+  DeploymentBytecodeReport,
+  OAppConfig,
+  OAppAudit,
+  ReadConfigRequest,
+  GeneratedReadConfig
 } from "@shared/types";
 import { apiRequest } from "./queryClient";
 
@@ -28,6 +48,18 @@ export async function fetchDeploymentById(id: string): Promise<ProcessedDeployme
   return response.json();
 }
 
+// Fetch a deployment's bytecode report, with the state of the latest verification job
+export async function fetchDeploymentBytecode(id: string): Promise<{ job: BytecodeVerificationJob | null; report: DeploymentBytecodeReport | null }> {
+  const response = await apiRequest("GET", `/api/deployments/${id}/bytecode`);
+  return response.json();
+}
+
+// Start verifying the bytecode of every deployment in a stage
+export async function startBytecodeVerification(stage: string): Promise<BytecodeVerificationJob> {
+  const response = await apiRequest("POST", "/api/verification/bytecode", { stage });
+  return response.json();
+}
+
 // Search deployments with filters
 export async function searchDeployments(filters: {
   chains?: string[];
@@ -58,9 +90,14 @@ export async function searchDeployments(filters: {
   return response.json();
 }
 
-// Fetch network graph data
-export async function fetchNetworkData(): Promise<NetworkData> {
-  const response = await apiRequest("GET", "/api/network");
+// Fetch the pathway graph for one stage
+export async function fetchNetworkData(stage = 'mainnet', minWeight?: number): Promise<NetworkData> {
+  const params = new URLSearchParams({ stage });
+  if (minWeight) {
+    params.append('minWeight', minWeight.toString());
+  }
+  
+  const response = await apiRequest("GET", `/api/network?${params.toString()}`);
   return response.json();
 }
 
@@ -76,8 +113,58 @@ export async function fetchFilterOptions(): Promise<FilterOptions> {
   return response.json();
 }
 
+// Fetch DVN providers, optionally restricted to chains or lzRead-compatible DVNs
+export async function fetchDvnProviders(filters: {
+  chains?: string[];
+  lzReadCompatible?: boolean;
+} = {}): Promise<DvnProvider[]> {
+  const params = new URLSearchParams();
+  
+  if (filters.chains && filters.chains.length > 0) {
+    params.append('chains', filters.chains.join(','));
+  }
+  
+  if (filters.lzReadCompatible) {
+    params.append('lzRead', 'true');
+  }
+  
+  const response = await apiRequest("GET", `/api/dvns?${params.toString()}`);
+  return response.json();
+}
+
+// Fetch a single DVN provider with its per-chain deployments
+export async function fetchDvnProvider(id: string): Promise<DvnProvider> {
+  const response = await apiRequest("GET", `/api/dvns/${encodeURIComponent(id)}`);
+  return response.json();
+}
+
+// Fetch the deployment change feed, optionally only changes after `since`
+export async function fetchDeploymentChanges(since?: string, limit: number = 200): Promise<ChangesResponse> {
+  const params = new URLSearchParams();
+  
+  if (since) {
+    params.append('since', since);
+  }
+  params.append('limit', limit.toString());
+  
+  const response = await apiRequest("GET", `/api/changes?${params.toString()}`);
+  return response.json();
+}
+
 // lzRead API functions
 
+// Fetch the chains lzRead queries can target
+export async function fetchLzReadChains(): Promise<LzReadChain[]> {
+  const response = await apiRequest("GET", "/api/lzread/chains");
+  return response.json();
+}
+
+// Fetch RPC endpoint health for every configured chain
+export async function fetchRpcHealth(): Promise<RpcChainHealth[]> {
+  const response = await apiRequest("GET", "/api/rpc/health");
+  return response.json();
+}
+
 // Perform a cross-chain query using lzRead
 export async function performCrossChainQuery(query: CrossChainQuery): Promise<LzReadRequest> {
   const response = await apiRequest("POST", "/api/lzread/query", query);
@@ -95,6 +182,33 @@ export async function fetchRecentLzReadRequests(limit: number = 10): Promise<LzR
   return response.json();
 }
 
+// Fetch a page of persisted lzRead requests, optionally filtered
+export async function fetchLzReadHistory(filters: LzReadHistoryFilters = {}): Promise<LzReadHistoryPage> {
+  const params = new URLSearchParams();
+  
+  if (filters.address) {
+    params.append('address', filters.address);
+  }
+  
+  if (filters.requestType) {
+    params.append('type', filters.requestType);
+  }
+  
+  if (filters.status) {
+    params.append('status', filters.status);
+  }
+  
+  if (filters.chain) {
+    params.append('chain', filters.chain);
+  }
+  
+  params.append('page', (filters.page || 1).toString());
+  params.append('limit', (filters.limit || 20).toString());
+  
+  const response = await apiRequest("GET", `/api/lzread/history?${params.toString()}`);
+  return response.json();
+}
+
 // Fetch a specific lzRead request by ID
 export async function fetchLzReadRequestById(id: string): Promise<LzReadRequest> {
   const response = await apiRequest("GET", `/api/lzread/request/${id}`);
@@ -109,6 +223,58 @@ export async function fetchLzReadRequestById(id: string): Promise<LzReadRequest>
   return response.json();
 }
 
+// Simulate lzMap / lzReduce over a completed query's responses
+export async function simulateLzReadCompute(requestId: string, spec: LzReadComputeSpec): Promise<LzReadComputeResult> {
+  const response = await apiRequest("POST", `/api/lzread/request/${requestId}/compute`, spec);
+  return response.json();
+}
+
+// List the functions in a pasted ABI
+export async function fetchAbiFunctions(abi: string): Promise<AbiFunctionInfo[]> {
+  const response = await apiRequest("POST", "/api/abi/functions", { abi });
+  return response.json();
+}
+
+// Resolve storage slots (mapping keys, array indexes, layout paths) without reading them
+export async function resolveStorageSlots(query: StorageQuery): Promise<ResolvedStorageSlot[]> {
+  const response = await apiRequest("POST", "/api/storage/slots", query);
+  return response.json();
+}
+
+// Encode an lzRead command into its hex form
+export async function encodeLzReadCommand(command: LzReadCommand): Promise<{ command: string; size: number }> {
+  const response = await apiRequest("POST", "/api/lzread/encode", command);
+  return response.json();
+}
+
+// Decode a hex lzRead command into its requests and compute
+export async function decodeLzReadCommand(command: string): Promise<LzReadCommand> {
+  const response = await apiRequest("POST", "/api/lzread/decode", { command });
+  return response.json();
+}
+
+// Generate a layerzero.config.ts for an lzRead OApp from the selected chains and DVNs
+export async function generateReadConfig(request: ReadConfigRequest): Promise<GeneratedReadConfig> {
+  const response = await apiRequest("POST", "/api/lzread/config", request);
+  return response.json();
+}
+
+// Read an OApp's LayerZero configuration on one chain, optionally limited to some remote EIDs
+export async function fetchOAppConfig(address: string, chain: string, eids?: string[]): Promise<OAppConfig> {
+  const params = new URLSearchParams({ chain });
+  if (eids?.length) params.set('eids', eids.join(','));
+  const response = await apiRequest("GET", `/api/oapp/${address}/config?${params.toString()}`);
+  return response.json();
+}
+
+// Audit the security posture of an OApp's pathways on one chain
+export async function fetchOAppAudit(address: string, chain: string, eids?: string[]): Promise<OAppAudit> {
+  const params = new URLSearchParams({ chain });
+  if (eids?.length) params.set('eids', eids.join(','));
+  const response = await apiRequest("GET", `/api/oapp/${address}/audit?${params.toString()}`);
+  return response.json();
+}
+
 // Perform a wallet vacuum to scan for assets across chains
 export async function performWalletVacuum(address: string, chains: string[]): Promise<LzReadRequest> {
   const response = await apiRequest("POST", "/api/lzread/wallet-vacuum", { address, chains });
@@ -119,3 +285,15 @@ export async function performWalletVacuum(address: string, chains: string[]): Pr
   
   return response.json();
 }
+
+// Fetch all chains with their per-stage metadata
+export async function fetchChains(): Promise<ChainMetadata[]> {
+  const response = await apiRequest("GET", "/api/chains");
+  return response.json();
+}
+
+// Fetch a single chain with its deployments and DVNs
+export async function fetchChain(chainKey: string): Promise<ChainDetail> {
+  const response = await apiRequest("GET", `/api/chains/${encodeURIComponent(chainKey)}`);
+  return response.json();
+}
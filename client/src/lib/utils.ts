@@ -23,6 +23,16 @@ export async function copyToClipboard(text: string): Promise<boolean> {
   }
 }
 
+// Save text as a file through a temporary download link
+export function downloadFile(fileName: string, contents: string, type: string = 'text/plain'): void {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 // Format date string
 export function formatDate(dateString: string): string {
   if (!dateString) return 'N/A';
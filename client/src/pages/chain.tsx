@@ -0,0 +1,19 @@
+import React from 'react';
+import ChainDetails from '@/components/ChainDetails';
+
+interface ChainPageProps {
+  params: { chainKey: string };
+}
+
+export default function ChainPage({ params }: ChainPageProps) {
+  return (
+    <div className="container py-8">
+      <h1 className="text-3xl font-bold mb-8">Chain Details</h1>
+      <p className="text-muted-foreground mb-8 max-w-3xl">
+        Chain metadata aggregated across every stage, with all of the chain's endpoint IDs, block
+        explorers and the DVNs deployed on it.
+      </p>
+      <ChainDetails chainKey={params.chainKey} />
+    </div>
+  );
+}
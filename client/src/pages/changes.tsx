@@ -0,0 +1,15 @@
+import React from 'react';
+import ChangeFeed from '@/components/ChangeFeed';
+
+export default function ChangesPage() {
+  return (
+    <div className="container py-8">
+      <h1 className="text-3xl font-bold mb-8">What Changed</h1>
+      <p className="text-muted-foreground mb-8 max-w-3xl">
+        Track how LayerZero deployments evolve between metadata syncs. Rotated endpoints, executors and
+        message libraries show up here as soon as the next sync picks them up.
+      </p>
+      <ChangeFeed />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import React from 'react';
+import DvnRegistry from '@/components/DvnRegistry';
+
+export default function DvnRegistryPage() {
+  return (
+    <div className="container py-8">
+      <h1 className="text-3xl font-bold mb-8">DVN Registry</h1>
+      <p className="text-muted-foreground mb-8 max-w-3xl">
+        Browse the Decentralized Verifier Networks securing LayerZero messages. See which chains each
+        provider serves, which addresses support lzRead, and which have been deprecated.
+      </p>
+      <DvnRegistry />
+    </div>
+  );
+}
@@ -20,6 +20,7 @@ import DeploymentCard from "@/components/DeploymentCard";
 import DetailModal from "@/components/DetailModal";
 import SimpleFilterPanel from "@/components/SimpleFilterPanel";
 import { ProcessedDeployment } from "@shared/types";
+import { getEndpointAddress } from "@shared/contracts";
 import { truncateAddress, copyToClipboard } from "@/lib/utils";
 
 export default function Home() {
@@ -78,7 +79,7 @@ export default function Home() {
         !deployment.chainKey.toLowerCase().includes(searchLower) &&
         !deployment.eid.toLowerCase().includes(searchLower) &&
         !deployment.stage.toLowerCase().includes(searchLower) &&
-        !deployment.endpoint.address.toLowerCase().includes(searchLower)
+        !getEndpointAddress(deployment).toLowerCase().includes(searchLower)
       ) {
         return false;
       }
@@ -459,7 +460,7 @@ export default function Home() {
                                 <div className="flex items-center">
                                   <div className="text-xs text-foreground/60 mr-2">Endpoint:</div>
                                   <div className="bg-background/40 px-2 py-1 rounded border border-secondary/10 font-mono text-xs text-foreground/80">
-                                    {truncateAddress(deployment.endpoint.address)}
+                                    {truncateAddress(getEndpointAddress(deployment))}
                                   </div>
                                   <Button 
                                     size="sm" 
@@ -467,7 +468,7 @@ export default function Home() {
                                     className="h-6 w-6 p-0 ml-1 rounded-full hover:bg-secondary/10"
                                     onClick={(e) => {
                                       e.stopPropagation();
-                                      handleCopyAddress(deployment.endpoint.address);
+                                      handleCopyAddress(getEndpointAddress(deployment));
                                     }}
                                     aria-label="Copy address"
                                   >
@@ -534,7 +535,7 @@ export default function Home() {
                                 <td className="font-mono text-xs">
                                   <div className="flex items-center">
                                     <span className="bg-background/40 px-2 py-1 rounded border border-secondary/10">
-                                      {truncateAddress(deployment.endpoint.address)}
+                                      {truncateAddress(getEndpointAddress(deployment))}
                                     </span>
                                     <Button 
                                       size="sm" 
@@ -542,7 +543,7 @@ export default function Home() {
                                       className="h-6 w-6 p-0 ml-1 rounded-full hover:bg-secondary/10"
                                       onClick={(e) => {
                                         e.stopPropagation();
-                                        handleCopyAddress(deployment.endpoint.address);
+                                        handleCopyAddress(getEndpointAddress(deployment));
                                       }}
                                       aria-label="Copy address"
                                     >
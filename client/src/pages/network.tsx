@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import NetworkGraph from '@/components/NetworkGraph';
+import { fetchFilterOptions } from '@/lib/api';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+
+export default function NetworkPage() {
+  const [stage, setStage] = useState<string>('mainnet');
+  const [minWeight, setMinWeight] = useState<number>(5);
+
+  const { data: filterOptions } = useQuery({
+    queryKey: ['/api/filter-options'],
+    queryFn: fetchFilterOptions
+  });
+
+  return (
+    <div className="container py-8">
+      <h1 className="text-3xl font-bold mb-8">Pathway Graph</h1>
+      <p className="text-muted-foreground mb-8 max-w-3xl">
+        Chains are linked when they share at least one active DVN provider. Thicker links mean more shared
+        providers, EndpointV2 on both sides, or lzRead-compatible DVNs in common. Hover a link to see why it exists.
+      </p>
+      <div className="flex flex-wrap items-end gap-8 mb-6">
+        <div className="space-y-2">
+          <Label>Stage</Label>
+          <Select value={stage} onValueChange={setStage}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Stage" />
+            </SelectTrigger>
+            <SelectContent>
+              {(filterOptions?.stages || ['mainnet']).map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2 w-64">
+          <Label>Minimum link weight: {minWeight}</Label>
+          <Slider
+            min={1}
+            max={15}
+            step={1}
+            value={[minWeight]}
+            onValueChange={([value]) => setMinWeight(value)}
+          />
+        </div>
+      </div>
+      <Card className="shadow-lg">
+        <CardContent className="p-0 h-[700px]">
+          <NetworkGraph stage={stage} minWeight={minWeight} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import React from 'react';
+import OAppInspector from '@/components/OAppInspector';
+
+export default function OAppInspectorPage() {
+  return (
+    <div className="container py-8">
+      <h1 className="text-3xl font-bold mb-8">OApp Inspector</h1>
+      <p className="text-muted-foreground mb-8 max-w-3xl">
+        Read how an OApp is wired on-chain: its peers on every remote chain, the send and receive libraries
+        it uses, and the DVNs, confirmations and executor configured for each pathway.
+      </p>
+      <OAppInspector />
+    </div>
+  );
+}
@@ -2,18 +2,7 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomiclabs/hardhat-ethers";
 import "hardhat-deploy";
 import * as dotenv from "dotenv";
-
-// Define custom EndpointId enum to avoid dependency on @layerzerolabs/lz-definitions
-enum EndpointId {
-  ETHEREUM_V2_MAINNET = "30001",
-  ARBITRUM_V2_MAINNET = "30110",
-  OPTIMISM_V2_MAINNET = "30111",
-  POLYGON_V2_MAINNET = "30109",
-  AVALANCHE_V2_MAINNET = "30106",
-  BSC_V2_MAINNET = "30102",
-  BASE_V2_MAINNET = "30116",
-  CANTO_V2_MAINNET = "30125"
-}
+import { getChainConfigs } from "./server/chainRegistry";
 
 dotenv.config();
 
@@ -37,51 +26,21 @@ interface CustomHardhatUserConfig extends HardhatUserConfig {
   };
 }
 
+// Networks come from the shared chain registry (lzread-config/chains.json plus RPC_URL_<CHAIN> overrides).
+// dotenv has already run, so overrides in .env are picked up here.
+const networks: Record<string, CustomNetworkConfig> = {};
+Object.values(getChainConfigs()).forEach(chain => {
+  networks[chain.chainKey] = {
+    eid: chain.eid,
+    url: chain.rpcUrls[0],
+    chainId: chain.chainId,
+    accounts,
+  };
+});
+
 const config: CustomHardhatUserConfig = {
   solidity: "0.8.20",
-  networks: {
-    ethereum: {
-      eid: EndpointId.ETHEREUM_V2_MAINNET,
-      url: process.env.RPC_URL_ETHEREUM || "https://eth.llamarpc.com",
-      accounts,
-    },
-    arbitrum: {
-      eid: EndpointId.ARBITRUM_V2_MAINNET,
-      url: process.env.RPC_URL_ARBITRUM || "https://arb1.arbitrum.io/rpc",
-      accounts,
-    },
-    optimism: {
-      eid: EndpointId.OPTIMISM_V2_MAINNET,
-      url: process.env.RPC_URL_OPTIMISM || "https://mainnet.optimism.io",
-      accounts,
-    },
-    polygon: {
-      eid: EndpointId.POLYGON_V2_MAINNET,
-      url: process.env.RPC_URL_POLYGON || "https://polygon-rpc.com",
-      accounts,
-    },
-    avalanche: {
-      eid: EndpointId.AVALANCHE_V2_MAINNET,
-      url: process.env.RPC_URL_AVALANCHE || "https://api.avax.network/ext/bc/C/rpc",
-      accounts,
-    },
-    bsc: {
-      eid: EndpointId.BSC_V2_MAINNET,
-      url: process.env.RPC_URL_BSC || "https://bsc-dataseed.binance.org",
-      accounts,
-    },
-    // Add more networks as needed
-    canto: {
-      eid: "30125", // Canto EID
-      url: "https://canto.slingshot.finance",
-      accounts,
-    },
-    base: {
-      eid: "30116", // Base EID
-      url: "https://mainnet.base.org",
-      accounts,
-    },
-  },
+  networks,
   paths: {
     sources: "./contracts",
     tests: "./test",
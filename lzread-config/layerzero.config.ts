@@ -1,143 +1,110 @@
-// Use an enum definition instead of importing from the package
-// This avoids the dependency on @layerzerolabs/lz-definitions in our MVP
-enum CustomEndpointId {
-  ETHEREUM_V2_MAINNET = "30001",
-  ARBITRUM_V2_MAINNET = "30110",
-  BASE_V2_MAINNET = "30116",
-  CANTO_V2_MAINNET = "30125"
-}
+import { ChannelId, EndpointId } from '@layerzerolabs/lz-definitions';
+import { ExecutorOptionType } from '@layerzerolabs/lz-v2-utilities';
+import type { OAppReadOmniGraphHardhat, OmniPointHardhat } from '@layerzerolabs/toolbox-hardhat';
 
-enum CustomChannelId {
-  READ_CHANNEL_1 = "1"
-}
+// Generated from the mainnet LayerZero deployment metadata: ReadLib1002, the Executor and
+// lzRead DVNs on each chain. Regenerate it from the Cross-Chain Explorer when they change.
 
-// Alias these to match the original imports
-const EndpointId = CustomEndpointId;
-const ChannelId = CustomChannelId;
-
-// Define a replacement interface for OAppReadOmniGraphHardhat to avoid the import error
-interface OAppReadOmniGraphHardhatInterface {
-  contracts: Array<{
-    contract: {
-      eid: string | number;
-      contractName: string;
-    };
-    config: {
-      readLibrary: string;
-      readChannels: Array<{
-        channelId: string | number;
-        active: boolean;
-      }>;
-      readConfig: {
-        ulnConfig: {
-          requiredDVNs: string[];
-          executor: string;
-        };
-      };
-    };
-  }>;
-  connections: any[];
-}
-
-// Define the contracts we want to interact with
-const ethereumContract = {
+const ethereumContract: OmniPointHardhat = {
   eid: EndpointId.ETHEREUM_V2_MAINNET,
-  contractName: 'UniswapV3QuoteDemo', // Example contract name
+  contractName: 'UniswapV3QuoteDemo',
 };
 
-const arbitrumContract = {
+const arbitrumContract: OmniPointHardhat = {
   eid: EndpointId.ARBITRUM_V2_MAINNET,
-  contractName: 'UniswapV3QuoteDemo', // Example contract name
-};
-
-const baseContract = {
-  eid: "30116", // EndpointId.BASE_V2_MAINNET
-  contractName: 'UniswapV3QuoteDemo', // Example contract name
+  contractName: 'UniswapV3QuoteDemo',
 };
 
-const cantoContract = {
-  eid: "30125", // EndpointId.CANTO_V2_MAINNET
-  contractName: 'UniswapV3QuoteDemo', // Example contract name
+const baseContract: OmniPointHardhat = {
+  eid: EndpointId.BASE_V2_MAINNET,
+  contractName: 'UniswapV3QuoteDemo',
 };
 
-// Define the config for lzRead
-const config: OAppReadOmniGraphHardhatInterface = {
+const config: OAppReadOmniGraphHardhat = {
   contracts: [
     {
-      contract: ethereumContract, 
+      contract: ethereumContract,
       config: {
-        readLibrary: '0xbcd4CADCac3F767C57c4F402932C4705DF62BEFf', // Read Library address
-        readChannels: [
+        readChannelConfigs: [
           {
             channelId: ChannelId.READ_CHANNEL_1,
             active: true,
+            readLibrary: '0x74F55Bc2a79A27A0bF1D1A35dB5d0Fc36b9FDB9D', // ReadLib1002
+            ulnConfig: {
+              requiredDVNs: [
+                '0xDb979D0A36aF0525AFa60Fc265B1525505c55D79', // LayerZero Labs
+              ],
+              executor: '0x173272739Bd7Aa6e4e214714048a9fE699453059', // Executor
+            },
+            enforcedOptions: [
+              {
+                msgType: 1,
+                optionType: ExecutorOptionType.LZ_READ,
+                gas: 80000,
+                size: 1000000,
+                value: 0,
+              },
+            ],
           },
         ],
-        readConfig: {
-          ulnConfig: {
-            requiredDVNs: ['0x1308151a7ebac14f435d3ad5ff95c34160d539a5'], // Example DVN
-            executor: '0x31CAe3B7fB82d847621859fb1585353c5720660D', // Example executor address
-          },
-        },
       },
     },
     {
       contract: arbitrumContract,
       config: {
-        readLibrary: '0xbcd4CADCac3F767C57c4F402932C4705DF62BEFf', // Read Library address
-        readChannels: [
+        readChannelConfigs: [
           {
             channelId: ChannelId.READ_CHANNEL_1,
             active: true,
+            readLibrary: '0xbcd4CADCac3F767C57c4F402932C4705DF62BEFf', // ReadLib1002
+            ulnConfig: {
+              requiredDVNs: [
+                '0x1308151a7ebaC14f435d3Ad5fF95c34160D539A5', // LayerZero Labs
+              ],
+              executor: '0x31CAe3B7fB82d847621859fb1585353c5720660D', // Executor
+            },
+            enforcedOptions: [
+              {
+                msgType: 1,
+                optionType: ExecutorOptionType.LZ_READ,
+                gas: 80000,
+                size: 1000000,
+                value: 0,
+              },
+            ],
           },
         ],
-        readConfig: {
-          ulnConfig: {
-            requiredDVNs: ['0x1308151a7ebac14f435d3ad5ff95c34160d539a5'], // Example DVN
-            executor: '0x31CAe3B7fB82d847621859fb1585353c5720660D', // Example executor address
-          },
-        },
       },
     },
-    // Add Base and Canto contracts
     {
       contract: baseContract,
       config: {
-        readLibrary: '0xbcd4CADCac3F767C57c4F402932C4705DF62BEFf', // Read Library address
-        readChannels: [
+        readChannelConfigs: [
           {
             channelId: ChannelId.READ_CHANNEL_1,
             active: true,
+            readLibrary: '0x1273141a3f7923AA2d9edDfA402440cE075ed8Ff', // ReadLib1002
+            ulnConfig: {
+              requiredDVNs: [
+                '0xB1473AC9f58FB27597a21710da9D1071841E8163', // LayerZero Labs
+              ],
+              executor: '0x2CCA08ae69E0C44b18a57Ab2A87644234dAebaE4', // Executor
+            },
+            enforcedOptions: [
+              {
+                msgType: 1,
+                optionType: ExecutorOptionType.LZ_READ,
+                gas: 80000,
+                size: 1000000,
+                value: 0,
+              },
+            ],
           },
         ],
-        readConfig: {
-          ulnConfig: {
-            requiredDVNs: ['0x1308151a7ebac14f435d3ad5ff95c34160d539a5'], // Example DVN
-            executor: '0x31CAe3B7fB82d847621859fb1585353c5720660D', // Example executor address
-          },
-        },
       },
     },
-    {
-      contract: cantoContract,
-      config: {
-        readLibrary: '0xbcd4CADCac3F767C57c4F402932C4705DF62BEFf', // Read Library address
-        readChannels: [
-          {
-            channelId: ChannelId.READ_CHANNEL_1,
-            active: true,
-          },
-        ],
-        readConfig: {
-          ulnConfig: {
-            requiredDVNs: ['0x1308151a7ebac14f435d3ad5ff95c34160d539a5'], // Example DVN
-            executor: '0x31CAe3B7fB82d847621859fb1585353c5720660D', // Example executor address
-          },
-        },
-      },
-    }
   ],
-  connections: [], // No connections needed for read-only setup
+  connections: [], // Read channels need no pathways between the contracts
 };
 
-export default config;
\ No newline at end of file
+export default config;
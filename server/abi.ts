@@ -0,0 +1,163 @@
+import { ethers } from "ethers";
+import { AbiFunctionInfo, AbiParam, ContractCall, DecodedAbiValue } from "@shared/types";
+
+/**
+ * ABI handling for call queries: parsing user-supplied ABIs, encoding calls from
+ * form arguments and turning return data into JSON-safe values.
+ */
+
+const ABI_KEYWORDS = ['function', 'event', 'error', 'constructor', 'fallback', 'receive', 'struct'];
+
+// Invalid ABI, function or arguments, reported to API callers as a 400
+export class AbiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AbiError';
+  }
+}
+
+function errorMessage(error: unknown): string {
+  // ethers errors carry a `reason` without the long diagnostic suffix
+  return (error as any)?.reason || (error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Parses a JSON ABI, a compiler artifact with an `abi` field, or human-readable signatures
+ * (one per line, with or without the leading `function`).
+ */
+export function parseAbi(abi: string): ethers.utils.Interface {
+  const source = (abi || '').trim();
+  if (!source) {
+    throw new AbiError('ABI is required');
+  }
+
+  let fragments: any;
+  if (source.startsWith('[') || source.startsWith('{')) {
+    try {
+      fragments = JSON.parse(source);
+    } catch (error) {
+      throw new AbiError(`ABI is not valid JSON: ${errorMessage(error)}`);
+    }
+    if (!Array.isArray(fragments)) {
+      fragments = fragments?.abi;
+    }
+    if (!Array.isArray(fragments)) {
+      throw new AbiError('JSON ABI must be an array, or an artifact with an abi array');
+    }
+  } else {
+    fragments = source
+      .split('\n')
+      .map(line => line.trim().replace(/;$/, ''))
+      .filter(line => line && !line.startsWith('//'))
+      .map(line => ABI_KEYWORDS.includes(line.split(/[\s(]/)[0]) ? line : `function ${line}`);
+  }
+
+  try {
+    return new ethers.utils.Interface(fragments);
+  } catch (error) {
+    throw new AbiError(`Could not parse ABI: ${errorMessage(error)}`);
+  }
+}
+
+function toAbiParam(param: ethers.utils.ParamType, index: number): AbiParam {
+  return { name: param.name || `_${index}`, type: param.format(ethers.utils.FormatTypes.sighash) };
+}
+
+export function listAbiFunctions(abi: string): AbiFunctionInfo[] {
+  const iface = parseAbi(abi);
+
+  return Object.values(iface.functions).map(fragment => ({
+    name: fragment.name,
+    signature: fragment.format(ethers.utils.FormatTypes.sighash),
+    selector: iface.getSighash(fragment),
+    stateMutability: fragment.stateMutability,
+    inputs: fragment.inputs.map(toAbiParam),
+    outputs: (fragment.outputs || []).map(toAbiParam),
+  }));
+}
+
+// Form arguments arrive as strings; arrays and tuples are given as JSON
+function parseArg(param: ethers.utils.ParamType, raw: string): unknown {
+  const value = (raw ?? '').trim();
+
+  if (param.baseType === 'array' || param.baseType === 'tuple') {
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      throw new AbiError(`Argument ${param.name || param.type} must be JSON for type ${param.format(ethers.utils.FormatTypes.sighash)}`);
+    }
+  }
+  if (param.baseType === 'bool') {
+    if (value !== 'true' && value !== 'false') {
+      throw new AbiError(`Argument ${param.name || param.type} must be true or false`);
+    }
+    return value === 'true';
+  }
+  return value;
+}
+
+/**
+ * Resolves the called function and encodes its call data.
+ */
+export function encodeContractCall(call: ContractCall): {
+  iface: ethers.utils.Interface;
+  fragment: ethers.utils.FunctionFragment;
+  callData: string;
+} {
+  const iface = parseAbi(call.abi);
+
+  let fragment: ethers.utils.FunctionFragment;
+  try {
+    fragment = iface.getFunction((call.functionName || '').trim());
+  } catch (error) {
+    throw new AbiError(`Function ${call.functionName} not found in the ABI, or overloaded and needs its full signature`);
+  }
+
+  const rawArgs = call.args || [];
+  if (rawArgs.length !== fragment.inputs.length) {
+    throw new AbiError(`${fragment.name} takes ${fragment.inputs.length} arguments, ${rawArgs.length} given`);
+  }
+
+  const args = fragment.inputs.map((param, index) => parseArg(param, rawArgs[index]));
+  try {
+    return { iface, fragment, callData: iface.encodeFunctionData(fragment, args) };
+  } catch (error) {
+    throw new AbiError(`Invalid arguments for ${fragment.name}: ${errorMessage(error)}`);
+  }
+}
+
+// Converts a decoded value to plain JSON, following the ABI type
+function toJsonValue(param: ethers.utils.ParamType, value: any): unknown {
+  if (param.baseType === 'array') {
+    return (value as any[]).map(item => toJsonValue(param.arrayChildren, item));
+  }
+  if (param.baseType === 'tuple') {
+    const result: Record<string, unknown> = {};
+    param.components.forEach((component, index) => {
+      result[component.name || String(index)] = toJsonValue(component, value[index]);
+    });
+    return result;
+  }
+  if (ethers.BigNumber.isBigNumber(value)) {
+    return value.toString();
+  }
+  return value;
+}
+
+export function decodeContractResult(
+  iface: ethers.utils.Interface,
+  fragment: ethers.utils.FunctionFragment,
+  data: string
+): DecodedAbiValue[] {
+  let decoded: ethers.utils.Result;
+  try {
+    decoded = iface.decodeFunctionResult(fragment, data);
+  } catch (error) {
+    throw new AbiError(`Could not decode ${fragment.name} return data: ${errorMessage(error)}`);
+  }
+
+  return (fragment.outputs || []).map((param, index) => ({
+    ...toAbiParam(param, index),
+    value: toJsonValue(param, decoded[index]),
+  }));
+}
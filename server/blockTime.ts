@@ -0,0 +1,97 @@
+import { rpcCall } from "./rpcPool";
+import type { ReadStats } from "./multicall";
+
+/**
+ * Resolves a unix timestamp to a block on one chain: the last block produced at or
+ * before that time, which is how lzRead reads requests with isBlockNum=false.
+ *
+ * The search bisects block numbers between genesis and the head with
+ * eth_getBlockByNumber. Block timestamps never change, so every lookup is cached per
+ * chain and repeated or nearby resolutions need few or no requests.
+ */
+
+// Bounds for the per-chain caches; the oldest entries are evicted first
+const MAX_CACHED_BLOCKS_PER_CHAIN = 5000;
+const MAX_CACHED_RESOLUTIONS = 1000;
+
+export interface BlockAtTimestamp {
+  blockNumber: number;
+  blockTimestamp: number; // Timestamp of the resolved block, at or before the requested one
+  lookups: number; // Blocks fetched to resolve it; 0 when it came from the cache
+}
+
+const blockTimestamps = new Map<string, Map<number, number>>();
+const resolutions = new Map<string, { blockNumber: number; blockTimestamp: number }>();
+
+function remember<K, V>(cache: Map<K, V>, key: K, value: V, limit: number): void {
+  cache.set(key, value);
+  if (cache.size > limit) {
+    cache.delete(cache.keys().next().value as K);
+  }
+}
+
+async function fetchBlock(chainKey: string, blockTag: string, stats?: ReadStats): Promise<{ number: number; timestamp: number }> {
+  const block = await rpcCall<{ number: string; timestamp: string } | null>(chainKey, 'eth_getBlockByNumber', [blockTag, false]);
+  if (stats) stats.roundTrips++;
+  if (!block) {
+    throw new Error(`Block ${blockTag} not found on ${chainKey}`);
+  }
+
+  const number = parseInt(block.number, 16);
+  const timestamp = parseInt(block.timestamp, 16);
+
+  let chainCache = blockTimestamps.get(chainKey);
+  if (!chainCache) {
+    chainCache = new Map();
+    blockTimestamps.set(chainKey, chainCache);
+  }
+  remember(chainCache, number, timestamp, MAX_CACHED_BLOCKS_PER_CHAIN);
+
+  return { number, timestamp };
+}
+
+export async function resolveBlockAtTimestamp(chainKey: string, timestamp: number, stats?: ReadStats): Promise<BlockAtTimestamp> {
+  const cacheKey = `${chainKey}:${timestamp}`;
+  const cached = resolutions.get(cacheKey);
+  if (cached) {
+    return { ...cached, lookups: 0 };
+  }
+
+  let lookups = 0;
+  const getTimestamp = async (blockNumber: number): Promise<number> => {
+    const known = blockTimestamps.get(chainKey)?.get(blockNumber);
+    if (known !== undefined) return known;
+    lookups++;
+    return (await fetchBlock(chainKey, `0x${blockNumber.toString(16)}`, stats)).timestamp;
+  };
+
+  // The head moves, so a time at or after it resolves to the current head and isn't cached
+  const head = await fetchBlock(chainKey, 'latest', stats);
+  lookups++;
+  if (timestamp >= head.timestamp) {
+    return { blockNumber: head.number, blockTimestamp: head.timestamp, lookups };
+  }
+
+  let low = 0;
+  const lowTimestamp = await getTimestamp(low);
+  if (timestamp < lowTimestamp) {
+    throw new Error(`${chainKey} has no block at or before ${new Date(timestamp * 1000).toISOString()}`);
+  }
+
+  // Invariant: block `low` is at or before the timestamp, block `high` is after it
+  let high = head.number;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (await getTimestamp(middle) <= timestamp) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  const resolved = { blockNumber: low, blockTimestamp: await getTimestamp(low) };
+  remember(resolutions, cacheKey, resolved, MAX_CACHED_RESOLUTIONS);
+  console.log(`[BlockTime] Resolved ${new Date(timestamp * 1000).toISOString()} on ${chainKey} to block ${low} with ${lookups} lookups`);
+
+  return { ...resolved, lookups };
+}
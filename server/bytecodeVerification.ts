@@ -0,0 +1,281 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  BytecodeCheck, BytecodeCheckStatus, BytecodeVerificationJob,
+  ContractKind, DeploymentBytecodeReport, ProcessedDeployment
+} from "@shared/types";
+import { listContracts } from "@shared/contracts";
+import { getChainConfig } from "./chainRegistry";
+import { inspectContracts, InspectedContract } from "./contractInspection";
+import { enqueueJob, getChainConcurrency, mapWithConcurrency } from "./jobs";
+import { readChain } from "./multicall";
+import { storage } from "./storage";
+
+/**
+ * Verifies that the protocol contracts listed in the deployment metadata are really
+ * deployed, and deployed with the same code on every chain.
+ *
+ * Every EVM contract of every deployment in a stage is read through the lzRead RPC
+ * layer (proxies are followed to their implementation). For each contract kind, the
+ * most common code hash across chains is the reference; other chains either match it,
+ * differ only in PUSH32 constants (immutables such as the local eid, which make the
+ * same source compile to different runtime code per chain), or mismatch. Addresses
+ * without code are told apart as EOAs or empty addresses by their nonce.
+ *
+ * One job runs at a time; the latest job and its per-deployment reports stay in memory.
+ */
+
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const PUSH32 = '7f';
+
+let currentJob: BytecodeVerificationJob | undefined;
+const reports = new Map<string, DeploymentBytecodeReport>();
+
+// One contract as read from its chain, before it is compared with the other chains
+interface ContractRead {
+  kind: ContractKind;
+  address: string;
+  inspection?: InspectedContract;
+  nonce?: number;
+  status?: BytecodeCheckStatus; // Set when the contract could not be read
+  detail?: string;
+}
+
+interface DeploymentRead {
+  deployment: ProcessedDeployment;
+  blockNumber?: number;
+  contracts: ContractRead[];
+}
+
+// The code that runs for a contract: the implementation's for proxies
+function effectiveCode(inspection: InspectedContract): string {
+  return inspection.implementationCode ?? inspection.code;
+}
+
+/**
+ * True when two runtime codes have the same length and every differing byte lies within
+ * the 32-byte operand of a PUSH32 present in both, which is where immutables are embedded.
+ */
+function differsOnlyInImmutables(reference: string, code: string): boolean {
+  if (reference.length !== code.length) return false;
+
+  const a = reference.toLowerCase();
+  const b = code.toLowerCase();
+  const byteAt = (hex: string, index: number) => hex.substr(2 + index * 2, 2);
+  const byteCount = (a.length - 2) / 2;
+
+  for (let index = 0; index < byteCount; index++) {
+    if (byteAt(a, index) === byteAt(b, index)) continue;
+
+    let inOperand = false;
+    for (let push = Math.max(0, index - 32); push < index && !inOperand; push++) {
+      inOperand = byteAt(a, push) === PUSH32 && byteAt(b, push) === PUSH32;
+    }
+    if (!inOperand) return false;
+  }
+  return true;
+}
+
+async function readDeployment(deployment: ProcessedDeployment): Promise<DeploymentRead> {
+  const contracts: ContractRead[] = listContracts(deployment).map(({ kind, address }) => ({ kind, address }));
+  const evmContracts = contracts.filter(contract => EVM_ADDRESS.test(contract.address));
+
+  contracts
+    .filter(contract => !EVM_ADDRESS.test(contract.address))
+    .forEach(contract => {
+      contract.status = 'skipped';
+      contract.detail = 'Not an EVM address';
+    });
+
+  if (evmContracts.length === 0) {
+    return { deployment, contracts };
+  }
+  if (!getChainConfig(deployment.chainKey)) {
+    evmContracts.forEach(contract => {
+      contract.status = 'skipped';
+      contract.detail = `No RPC configured for ${deployment.chainKey}`;
+    });
+    return { deployment, contracts };
+  }
+
+  try {
+    // Some kinds share an address, so each address is read once
+    const addresses = Array.from(new Set(evmContracts.map(contract => contract.address.toLowerCase())));
+    const inspection = await inspectContracts(deployment.chainKey, addresses, {});
+    const byAddress = new Map(addresses.map((address, index) => [address, inspection.contracts[index]]));
+
+    // Addresses without code: an EOA has sent transactions, an empty address has not
+    const empty = addresses.filter(address => !byAddress.get(address)!.isContract);
+    const nonces = new Map<string, number>();
+    if (empty.length > 0) {
+      const read = await readChain(deployment.chainKey, empty.map(address => ({
+        type: 'rpc' as const, method: 'eth_getTransactionCount', params: (blockTag: string) => [address, blockTag]
+      })), { blockNumber: inspection.blockNumber });
+      empty.forEach((address, index) => {
+        const result = read.results[index];
+        if (result.success) nonces.set(address, parseInt(result.data, 16));
+      });
+    }
+
+    evmContracts.forEach(contract => {
+      const address = contract.address.toLowerCase();
+      contract.inspection = byAddress.get(address);
+      contract.nonce = nonces.get(address);
+    });
+    return { deployment, blockNumber: inspection.blockNumber, contracts };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Bytecode] Failed to read ${deployment.chainKey}:`, message);
+    evmContracts.forEach(contract => {
+      contract.status = 'error';
+      contract.detail = message;
+    });
+    return { deployment, contracts };
+  }
+}
+
+// The most common effective code per contract kind, with how many chains share it
+function findReferences(reads: DeploymentRead[]) {
+  const hashesByKind = new Map<ContractKind, Map<string, { count: number; code: string }>>();
+
+  reads.forEach(read => read.contracts.forEach(({ kind, inspection }) => {
+    if (!inspection?.isContract || !inspection.effectiveCodeHash) return;
+
+    const hashes = hashesByKind.get(kind) || new Map<string, { count: number; code: string }>();
+    const entry = hashes.get(inspection.effectiveCodeHash);
+    hashes.set(inspection.effectiveCodeHash, { count: (entry?.count || 0) + 1, code: entry?.code || effectiveCode(inspection) });
+    hashesByKind.set(kind, hashes);
+  }));
+
+  const references = new Map<ContractKind, { hash: string; code: string; count: number; total: number }>();
+  hashesByKind.forEach((hashes, kind) => {
+    let total = 0;
+    let best: { hash: string; code: string; count: number } | undefined;
+    hashes.forEach(({ count, code }, hash) => {
+      total += count;
+      if (!best || count > best.count) best = { hash, code, count };
+    });
+    references.set(kind, { ...best!, total });
+  });
+  return references;
+}
+
+function toCheck(contract: ContractRead, references: ReturnType<typeof findReferences>): BytecodeCheck {
+  const { kind, address, inspection } = contract;
+
+  if (contract.status) {
+    return { kind, address, status: contract.status, detail: contract.detail };
+  }
+  if (!inspection?.isContract) {
+    const eoa = (contract.nonce || 0) > 0;
+    return {
+      kind,
+      address,
+      status: eoa ? 'eoa' : 'missing',
+      detail: eoa ? `Externally owned account with nonce ${contract.nonce}` : 'No code deployed at this address',
+    };
+  }
+
+  if (!inspection.effectiveCodeHash) {
+    return {
+      kind,
+      address,
+      status: 'missing',
+      proxy: inspection.proxy,
+      implementation: inspection.implementation?.address,
+      detail: 'Proxy implementation has no code',
+    };
+  }
+
+  const reference = references.get(kind)!;
+  const check: BytecodeCheck = {
+    kind,
+    address,
+    status: 'match',
+    codeHash: inspection.effectiveCodeHash,
+    codeSize: inspection.implementation?.codeSize ?? inspection.codeSize,
+    proxy: inspection.proxy,
+    implementation: inspection.implementation?.address,
+    referenceHash: reference.hash,
+    matchingChains: reference.count,
+    comparedChains: reference.total,
+  };
+
+  if (inspection.proxy && !inspection.implementation) {
+    check.detail = 'Proxy implementation could not be resolved; compared by the proxy code';
+  }
+  if (inspection.effectiveCodeHash !== reference.hash) {
+    check.status = differsOnlyInImmutables(reference.code, effectiveCode(inspection)) ? 'immutables' : 'mismatch';
+  }
+  return check;
+}
+
+async function runVerification(job: BytecodeVerificationJob): Promise<void> {
+  try {
+    const deployments = (await storage.getDeployments()).filter(deployment => deployment.stage === job.stage);
+    job.progress.total = deployments.length;
+    console.log(`[Bytecode] Verifying ${deployments.length} ${job.stage} deployments`);
+
+    const reads = await mapWithConcurrency(deployments, getChainConcurrency(), async deployment => {
+      const read = await readDeployment(deployment);
+      job.progress.done++;
+      return read;
+    });
+
+    const references = findReferences(reads);
+    const checkedAt = new Date().toISOString();
+    const summary: Partial<Record<BytecodeCheckStatus, number>> = {};
+
+    reports.clear();
+    reads.forEach(({ deployment, blockNumber, contracts }) => {
+      const checks = contracts.map(contract => toCheck(contract, references));
+      checks.forEach(check => summary[check.status] = (summary[check.status] || 0) + 1);
+
+      reports.set(deployment.id, {
+        deploymentId: deployment.id,
+        chainKey: deployment.chainKey,
+        eid: deployment.eid,
+        blockNumber,
+        checkedAt,
+        contracts: checks,
+      });
+    });
+
+    job.summary = summary;
+    job.status = 'completed';
+    console.log(`[Bytecode] Verification ${job.id} completed:`, summary);
+  } catch (error) {
+    console.error(`[Bytecode] Verification ${job.id} failed:`, error);
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    job.completedAt = new Date().toISOString();
+  }
+}
+
+/**
+ * Starts verifying every deployment in a stage, or returns the job already running.
+ */
+export function startBytecodeVerification(stage: string): BytecodeVerificationJob {
+  if (currentJob?.status === 'running') {
+    return currentJob;
+  }
+
+  const job: BytecodeVerificationJob = {
+    id: uuidv4(),
+    stage,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    progress: { done: 0, total: 0 },
+  };
+  currentJob = job;
+  enqueueJob(`bytecode-verification-${job.id}`, () => runVerification(job));
+  return job;
+}
+
+export function getBytecodeVerificationJob(): BytecodeVerificationJob | undefined {
+  return currentJob;
+}
+
+export function getDeploymentBytecodeReport(deploymentId: string): DeploymentBytecodeReport | undefined {
+  return reports.get(deploymentId);
+}
@@ -0,0 +1,170 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { ChainMetadata, LzReadChain } from "@shared/types";
+
+// This module is also loaded by hardhat.config.ts, so it only uses type imports from @shared
+
+/**
+ * Chain registry shared by the lzRead explorer, the wallet vacuum and the Hardhat config.
+ *
+ * Each chain is resolved from three layers, later layers winning:
+ * 1. Metadata seed: nativeChainId, nativeCurrency and the mainnet V2 EID from the metadata API
+ * 2. Config file: lzread-config/chains.json (or the file named by LZREAD_CHAINS_CONFIG)
+ * 3. Environment overrides, keyed by the upper-cased chain key:
+ *    RPC_URL_<CHAIN> (comma-separated list), CHAIN_ID_<CHAIN>, EID_<CHAIN>,
+ *    NATIVE_SYMBOL_<CHAIN>, NATIVE_NAME_<CHAIN>, NATIVE_DECIMALS_<CHAIN>
+ *
+ * A chain is only usable once it has at least one RPC URL, so setting RPC_URL_<CHAIN>
+ * is enough to enable any EVM chain the metadata knows about.
+ */
+export interface ChainConfig extends LzReadChain {
+  rpcUrls: string[];
+}
+
+type PartialChainConfig = Partial<Omit<ChainConfig, 'nativeCurrency'>> & {
+  nativeCurrency?: Partial<ChainConfig['nativeCurrency']>;
+};
+
+const DEFAULT_CONFIG_PATH = "lzread-config/chains.json";
+
+// Chain configs seeded from the metadata API, refreshed on every sync
+let metadataSeed: Record<string, PartialChainConfig> = {};
+// The config file is read once; environment overrides are read on every lookup
+let fileConfigs: Record<string, PartialChainConfig> | null = null;
+
+function getEnvKey(chainKey: string): string {
+  return chainKey.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+}
+
+function loadConfigFile(): Record<string, PartialChainConfig> {
+  const configPath = path.resolve(process.cwd(), process.env.LZREAD_CHAINS_CONFIG || DEFAULT_CONFIG_PATH);
+
+  try {
+    return JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    console.warn(`Could not load chain config from ${configPath}:`, error instanceof Error ? error.message : error);
+    return {};
+  }
+}
+
+function getEnvOverrides(chainKey: string): PartialChainConfig {
+  const key = getEnvKey(chainKey);
+  const env = process.env;
+  const overrides: PartialChainConfig = {};
+
+  if (env[`RPC_URL_${key}`]) {
+    overrides.rpcUrls = env[`RPC_URL_${key}`]!.split(',').map(url => url.trim()).filter(Boolean);
+  }
+  if (env[`CHAIN_ID_${key}`]) overrides.chainId = parseInt(env[`CHAIN_ID_${key}`]!, 10);
+  if (env[`EID_${key}`]) overrides.eid = env[`EID_${key}`];
+
+  const nativeCurrency: Partial<ChainConfig['nativeCurrency']> = {};
+  if (env[`NATIVE_SYMBOL_${key}`]) nativeCurrency.symbol = env[`NATIVE_SYMBOL_${key}`];
+  if (env[`NATIVE_NAME_${key}`]) nativeCurrency.name = env[`NATIVE_NAME_${key}`];
+  if (env[`NATIVE_DECIMALS_${key}`]) nativeCurrency.decimals = parseInt(env[`NATIVE_DECIMALS_${key}`]!, 10);
+  if (Object.keys(nativeCurrency).length > 0) overrides.nativeCurrency = nativeCurrency;
+
+  return overrides;
+}
+
+// Chain keys that have RPC URL overrides in the environment. Env names are matched back to
+// the known chain keys (e.g. RPC_URL_ARBITRUM_SEPOLIA -> arbitrum-sepolia), and names that
+// match none are taken as the lower-cased chain key
+function getEnvChainKeys(knownChainKeys: string[]): string[] {
+  const byEnvKey = new Map(knownChainKeys.map(chainKey => [getEnvKey(chainKey), chainKey]));
+
+  return Object.keys(process.env)
+    .filter(name => name.startsWith('RPC_URL_'))
+    .map(name => name.slice('RPC_URL_'.length))
+    .map(envKey => byEnvKey.get(envKey) || envKey.toLowerCase());
+}
+
+function mergeLayers(chainKey: string, layers: PartialChainConfig[]): ChainConfig | null {
+  const merged = layers.reduce<PartialChainConfig>((result, layer) => ({
+    ...result,
+    ...layer,
+    nativeCurrency: { ...result.nativeCurrency, ...layer.nativeCurrency },
+  }), {});
+
+  if (!merged.rpcUrls || merged.rpcUrls.length === 0 || !merged.chainId || !merged.eid) {
+    return null;
+  }
+
+  return {
+    chainKey,
+    chainId: merged.chainId,
+    eid: merged.eid,
+    rpcUrls: merged.rpcUrls,
+    nativeCurrency: {
+      name: merged.nativeCurrency?.name || merged.nativeCurrency?.symbol || 'Native Token',
+      symbol: merged.nativeCurrency?.symbol || 'NATIVE',
+      decimals: merged.nativeCurrency?.decimals ?? 18,
+      cgId: merged.nativeCurrency?.cgId,
+    },
+  };
+}
+
+/**
+ * Resolves every usable chain from the metadata seed, the config file and the environment.
+ * Synchronous so the Hardhat config can build its network list at load time.
+ */
+export function getChainConfigs(): Record<string, ChainConfig> {
+  if (!fileConfigs) {
+    fileConfigs = loadConfigFile();
+  }
+
+  const files = fileConfigs;
+  const knownChainKeys = [...Object.keys(metadataSeed), ...Object.keys(files)];
+  const chainKeys = new Set([...Object.keys(files), ...getEnvChainKeys(knownChainKeys)]);
+  const configs: Record<string, ChainConfig> = {};
+
+  chainKeys.forEach(chainKey => {
+    const config = mergeLayers(chainKey, [
+      metadataSeed[chainKey] || {},
+      files[chainKey] || {},
+      getEnvOverrides(chainKey),
+    ]);
+
+    if (config) {
+      configs[chainKey] = config;
+    }
+  });
+
+  return configs;
+}
+
+export function getChainConfig(chainKey: string): ChainConfig | undefined {
+  return getChainConfigs()[chainKey];
+}
+
+// Chains exposed to the client, without RPC URLs since they may carry API keys
+export function listLzReadChains(): LzReadChain[] {
+  return Object.values(getChainConfigs())
+    .map(({ rpcUrls, ...chain }) => chain)
+    .sort((a, b) => a.chainKey.localeCompare(b.chainKey));
+}
+
+/**
+ * Seeds chain ids, native currencies and mainnet EIDs from the metadata API, so the
+ * config file only needs RPC URLs for chains the metadata already describes.
+ */
+export function seedChainRegistry(chains: ChainMetadata[]): void {
+  const seed: Record<string, PartialChainConfig> = {};
+
+  chains
+    .filter(chain => chain.chainType === 'evm')
+    .forEach(chain => {
+      const mainnetV2 = chain.eids.find(e => e.stage === 'mainnet' && e.version === 2);
+      const nativeCurrency = chain.nativeCurrency;
+
+      seed[chain.chainKey] = {
+        chainId: chain.nativeChainId,
+        eid: mainnetV2?.eid,
+        nativeCurrency: nativeCurrency
+          ? { name: nativeCurrency.name, symbol: nativeCurrency.symbol, decimals: nativeCurrency.decimals, cgId: nativeCurrency.cgId }
+          : undefined,
+      };
+    });
+
+  metadataSeed = seed;
+}
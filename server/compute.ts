@@ -0,0 +1,215 @@
+import { ethers } from "ethers";
+import {
+  ChainData, ContractCallData, CrossChainQuery, EVMCallComputeSetting,
+  LzReadComputeResponse, LzReadComputeResult, LzReadComputeSpec, LzReduceOperation,
+  StorageReadData, StorageSlotValue
+} from "@shared/types";
+
+/**
+ * Local simulation of lzRead's compute step.
+ *
+ * On-chain, the DVNs hand each read response to the OApp's lzMap, pass the mapped
+ * responses to lzReduce as a bytes[] in request order, and deliver lzReduce's output
+ * to _lzReceive. Here lzMap extracts one integer from a response and ABI-encodes it,
+ * and lzReduce combines those integers with the chosen operation, using Solidity's
+ * integer semantics (division truncates). Without a reduce step the mapped responses
+ * are delivered packed together.
+ */
+
+export const REDUCE_OPERATIONS: LzReduceOperation[] = ['sum', 'min', 'max', 'median', 'average', 'collect'];
+
+// Largest power of ten that fits a uint256
+const MAX_DECIMALS = 77;
+
+// Invalid compute spec, or responses the spec can't be applied to; reported as a 400
+export class ComputeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ComputeError';
+  }
+}
+
+function checkDecimals(name: string, value: unknown): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_DECIMALS) {
+    throw new ComputeError(`${name} must be an integer from 0 to ${MAX_DECIMALS}`);
+  }
+  return value;
+}
+
+export function validateComputeSpec(spec: LzReadComputeSpec): void {
+  if (!spec || (!spec.map && !spec.reduce)) {
+    throw new ComputeError('A compute needs a map step, a reduce step or both');
+  }
+  if (spec.reduce && !REDUCE_OPERATIONS.includes(spec.reduce)) {
+    throw new ComputeError(`Reduce must be one of ${REDUCE_OPERATIONS.join(', ')}`);
+  }
+  if (spec.map?.scale) {
+    checkDecimals('map.scale.fromDecimals', spec.map.scale.fromDecimals);
+    checkDecimals('map.scale.toDecimals', spec.map.scale.toDecimals);
+  }
+}
+
+function getComputeSetting(spec: LzReadComputeSpec): EVMCallComputeSetting {
+  if (spec.map && spec.reduce) return 2;
+  return spec.reduce ? 1 : 0;
+}
+
+function toInteger(value: unknown, what: string): bigint {
+  if (typeof value === 'boolean') return value ? BigInt(1) : BigInt(0);
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && /^-?\d+$/.test(value)) return BigInt(value);
+  if (typeof value === 'string' && /^0x[0-9a-fA-F]+$/.test(value)) return BigInt(value);
+  throw new ComputeError(`${what} is not an integer`);
+}
+
+// A call query's return value by name or index, then by dotted path into tuples and arrays
+function resolveCallField(data: ContractCallData, field: string | undefined, chainKey: string): unknown {
+  const [head, ...path] = (field || '').split('.').filter(Boolean);
+
+  const top = head === undefined
+    ? data.values[0]
+    : data.values.find(value => value.name === head) || (/^\d+$/.test(head) ? data.values[Number(head)] : undefined);
+  if (!top) {
+    throw new ComputeError(`${chainKey}: ${data.function} has no return value ${head ?? ''}`.trim());
+  }
+
+  let value: any = top.value;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object' || !(key in value)) {
+      throw new ComputeError(`${chainKey}: ${field} not found in the return value`);
+    }
+    value = value[key];
+  }
+  return value;
+}
+
+// A storage query's slot by label or index; defaults to the first
+function resolveStorageField(data: StorageReadData, field: string | undefined, chainKey: string): StorageSlotValue {
+  const slot = field === undefined
+    ? data.slots[0]
+    : data.slots.find(item => item.label === field) || (/^\d+$/.test(field) ? data.slots[Number(field)] : undefined);
+  if (!slot) {
+    throw new ComputeError(`${chainKey}: no storage slot ${field ?? ''}`.trim());
+  }
+  return slot;
+}
+
+// The response bytes and the integer lzMap extracts from them
+function readResponse(query: CrossChainQuery, chainData: ChainData, field?: string): { raw: string; value: bigint } {
+  const what = `${chainData.chainKey} ${query.queryType} response`;
+
+  switch (query.queryType) {
+    case 'balance':
+    case 'nonce': {
+      const value = toInteger(chainData.data, what);
+      return { raw: ethers.utils.defaultAbiCoder.encode(['uint256'], [value.toString()]), value };
+    }
+    case 'storage': {
+      const slot = resolveStorageField(chainData.data as StorageReadData, field, chainData.chainKey);
+      // Decoded integers and addresses carry the value; other types use the whole word
+      const decoded = slot.decoded !== undefined && /^(-?\d+|0x[0-9a-fA-F]+)$/.test(slot.decoded) ? slot.decoded : slot.word;
+      return { raw: slot.word, value: toInteger(decoded, what) };
+    }
+    case 'call': {
+      const data = chainData.data as ContractCallData;
+      const value = toInteger(resolveCallField(data, field, chainData.chainKey), `${chainData.chainKey} ${field || 'return value'}`);
+      return { raw: data.raw, value };
+    }
+    default:
+      throw new ComputeError(`${query.queryType} responses have no integer value to compute over`);
+  }
+}
+
+function powerOfTen(decimals: number): bigint {
+  return BigInt(`1${'0'.repeat(decimals)}`);
+}
+
+function scale(value: bigint, spec: LzReadComputeSpec): bigint {
+  const scaling = spec.map?.scale;
+  if (!scaling) return value;
+  // Multiply first so scaling down keeps as much precision as Solidity would
+  return value * powerOfTen(scaling.toDecimals) / powerOfTen(scaling.fromDecimals);
+}
+
+function reduce(values: bigint[], operation: LzReduceOperation): bigint | bigint[] {
+  const sum = () => values.reduce((total, value) => total + value, BigInt(0));
+
+  switch (operation) {
+    case 'sum':
+      return sum();
+    case 'min':
+      return values.reduce((min, value) => value < min ? value : min);
+    case 'max':
+      return values.reduce((max, value) => value > max ? value : max);
+    case 'average':
+      return sum() / BigInt(values.length);
+    case 'median': {
+      const sorted = [...values].sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / BigInt(2);
+    }
+    case 'collect':
+      return values;
+  }
+}
+
+/**
+ * Runs the compute spec over a query's per-chain results. Chains that failed are skipped
+ * and listed, since a real command would not resolve with them missing.
+ */
+export function simulateCompute(query: CrossChainQuery, results: ChainData[], spec: LzReadComputeSpec): LzReadComputeResult {
+  validateComputeSpec(spec);
+
+  const skipped: Record<string, string> = {};
+  const reads = results.filter(result => {
+    if (result.error) skipped[result.chainKey] = result.error;
+    return !result.error;
+  });
+  if (reads.length === 0) {
+    throw new ComputeError('No chain responses to compute over');
+  }
+
+  const extracted = reads.map(chainData => {
+    const { raw, value } = readResponse(query, chainData, spec.map?.field);
+    return { chainData, raw, value: scale(value, spec) };
+  });
+
+  // Values are ABI-encoded as uint256 unless one is negative
+  const valueType = extracted.some(item => item.value < BigInt(0)) ? 'int256' : 'uint256';
+
+  const responses: LzReadComputeResponse[] = extracted.map(({ chainData, raw, value }) => ({
+    chainKey: chainData.chainKey,
+    eid: chainData.eid,
+    raw,
+    // Without a map step lzReduce sees the raw responses
+    mapped: spec.map ? ethers.utils.defaultAbiCoder.encode([valueType], [value.toString()]) : raw,
+    value: value.toString()
+  }));
+  const reduceInput = responses.map(response => response.mapped);
+
+  const computed: LzReadComputeResult = {
+    computeSetting: getComputeSetting(spec),
+    responses,
+    reduceInput,
+    payload: ethers.utils.hexConcat(reduceInput),
+    value: responses.map(response => response.value),
+    valueType: `packed ${valueType}[]`
+  };
+
+  if (spec.reduce) {
+    const reduced = reduce(extracted.map(item => item.value), spec.reduce);
+    if (Array.isArray(reduced)) {
+      computed.valueType = `${valueType}[]`;
+      computed.value = reduced.map(value => value.toString());
+    } else {
+      computed.valueType = valueType;
+      computed.value = reduced.toString();
+    }
+    computed.payload = ethers.utils.defaultAbiCoder.encode([computed.valueType], [computed.value]);
+  }
+
+  if (Object.keys(skipped).length > 0) {
+    computed.skipped = skipped;
+  }
+  return computed;
+}
@@ -0,0 +1,179 @@
+import { ethers } from "ethers";
+import { CodeParity, ContractCode, ContractInspection } from "@shared/types";
+import { readChain, ReadRequest, ReadStats } from "./multicall";
+import { EIP1967_SLOTS } from "./storageSlots";
+
+/**
+ * Contract code and proxy detection over the lzRead RPC layer.
+ *
+ * Each address is checked for the common proxy patterns:
+ *   - EIP-1167 minimal proxies, by their fixed bytecode
+ *   - EIP-1967 implementation, admin and beacon slots (UUPS, transparent and beacon proxies)
+ *   - the EIP-1822 PROXIABLE slot
+ * The implementation is then resolved and hashed as well, so contracts can be compared
+ * across chains by the code that actually runs.
+ */
+
+// keccak256("PROXIABLE")
+const EIP1822_SLOT = '0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7';
+
+// 363d3d373d3d3d363d73 <implementation> 5af43d82803e903d91602b57fd5bf3
+const EIP1167_PATTERN = /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/;
+
+const beaconInterface = new ethers.utils.Interface([
+  "function implementation() view returns (address)",
+]);
+
+function toCode(address: string, code: string): ContractCode {
+  const hasCode = !!code && code !== '0x';
+  return {
+    address,
+    codeHash: hasCode ? ethers.utils.keccak256(code) : null,
+    codeSize: hasCode ? ethers.utils.hexDataLength(code) : 0,
+  };
+}
+
+// An address stored in the low 20 bytes of a slot, or undefined for an empty slot
+function slotAddress(word: string | undefined): string | undefined {
+  if (!word || ethers.BigNumber.from(word).isZero()) return undefined;
+  return ethers.utils.getAddress(ethers.utils.hexDataSlice(ethers.utils.hexZeroPad(word, 32), 12));
+}
+
+function getCode(address: string): ReadRequest {
+  return { type: 'rpc', method: 'eth_getCode', params: blockTag => [address, blockTag] };
+}
+
+function getSlot(address: string, slot: string): ReadRequest {
+  return { type: 'rpc', method: 'eth_getStorageAt', params: blockTag => [address, slot, blockTag] };
+}
+
+async function readAll(chainKey: string, requests: ReadRequest[], blockNumber: number | undefined, stats?: ReadStats) {
+  const read = await readChain(chainKey, requests, { blockNumber, stats });
+  const failed = read.results.find(result => !result.success);
+  if (failed) {
+    throw new Error(failed.error || 'Read failed');
+  }
+  return read;
+}
+
+// Inspections carry the runtime code, and the implementation's for proxies
+export type InspectedContract = ContractInspection & { code: string; implementationCode?: string };
+
+export interface ContractInspectionResult {
+  blockNumber: number;
+  timestamp: number;
+  contracts: InspectedContract[];
+}
+
+/**
+ * Inspects contracts on one chain at a single block: their code, proxy kind and
+ * implementation. Every round of reads is batched across all the addresses.
+ */
+export async function inspectContracts(
+  chainKey: string,
+  addresses: string[],
+  options: { blockNumber?: number; stats?: ReadStats } = {}
+): Promise<ContractInspectionResult> {
+  const { stats } = options;
+  const proxySlots = [EIP1967_SLOTS.implementation, EIP1967_SLOTS.admin, EIP1967_SLOTS.beacon, EIP1822_SLOT];
+
+  // Round one: code and proxy slots of every address
+  const first = await readAll(chainKey, addresses.flatMap(address => [
+    getCode(address),
+    ...proxySlots.map(slot => getSlot(address, slot)),
+  ]), options.blockNumber, stats);
+  const blockNumber = first.blockNumber;
+
+  const contracts = addresses.map((address, index): { inspection: InspectedContract; implementationAddress?: string } => {
+    const [code, implementationSlot, adminSlot, beaconSlot, proxiableSlot] = first.results
+      .slice(index * 5, index * 5 + 5)
+      .map(result => result.data as string);
+
+    const own = toCode(address, code);
+    const inspection: InspectedContract = {
+      ...own,
+      code: code || '0x',
+      isContract: own.codeHash !== null,
+      effectiveCodeHash: own.codeHash,
+    };
+    if (!inspection.isContract) {
+      return { inspection };
+    }
+
+    const minimal = code.toLowerCase().match(EIP1167_PATTERN);
+    if (minimal) {
+      inspection.proxy = { kind: 'eip1167' };
+      return { inspection, implementationAddress: ethers.utils.getAddress(`0x${minimal[1]}`) };
+    }
+
+    const implementationAddress = slotAddress(implementationSlot);
+    if (implementationAddress) {
+      const admin = slotAddress(adminSlot);
+      inspection.proxy = admin ? { kind: 'transparent', admin } : { kind: 'eip1967' };
+      return { inspection, implementationAddress };
+    }
+
+    const beacon = slotAddress(beaconSlot);
+    if (beacon) {
+      inspection.proxy = { kind: 'beacon', beacon };
+      return { inspection };
+    }
+
+    const proxiable = slotAddress(proxiableSlot);
+    if (proxiable) {
+      inspection.proxy = { kind: 'eip1822' };
+      return { inspection, implementationAddress: proxiable };
+    }
+    return { inspection };
+  });
+
+  // Round two: beacon proxies ask their beacon for the implementation
+  const beacons = contracts.filter(item => item.inspection.proxy?.beacon);
+  if (beacons.length > 0) {
+    const callData = beaconInterface.encodeFunctionData('implementation');
+    const read = await readChain(chainKey, beacons.map(item => ({
+      type: 'call', target: item.inspection.proxy!.beacon!, callData
+    })), { blockNumber, stats });
+
+    beacons.forEach((item, index) => {
+      const result = read.results[index];
+      if (result.success && result.data && result.data !== '0x') {
+        item.implementationAddress = beaconInterface.decodeFunctionResult('implementation', result.data)[0];
+      }
+    });
+  }
+
+  // Round three: the implementations' code
+  const proxies = contracts.filter(item => item.implementationAddress);
+  if (proxies.length > 0) {
+    const read = await readAll(chainKey, proxies.map(item => getCode(item.implementationAddress!)), blockNumber, stats);
+    proxies.forEach((item, index) => {
+      const implementation = toCode(item.implementationAddress!, read.results[index].data);
+      item.inspection.implementation = implementation;
+      item.inspection.implementationCode = read.results[index].data || '0x';
+      item.inspection.effectiveCodeHash = implementation.codeHash;
+    });
+  }
+
+  return { blockNumber, timestamp: first.timestamp, contracts: contracts.map(item => item.inspection) };
+}
+
+/**
+ * Groups chains by code hash. A chain without code is its own mismatch, so a contract
+ * only counts as identical when it is deployed everywhere with the same code.
+ */
+export function compareCodeHashes(entries: { chainKey: string; codeHash: string | null }[]): CodeParity {
+  const groups = new Map<string | null, string[]>();
+  entries.forEach(({ chainKey, codeHash }) => {
+    groups.set(codeHash, [...(groups.get(codeHash) || []), chainKey]);
+  });
+
+  const sorted = Array.from(groups.entries())
+    .map(([codeHash, chains]) => ({ codeHash, chains }))
+    .sort((a, b) => b.chains.length - a.chains.length);
+
+  return {
+    identical: sorted.length === 1 && sorted[0].codeHash !== null,
+    groups: sorted,
+  };
+}
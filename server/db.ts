@@ -1,24 +1,30 @@
-import { drizzle } from 'drizzle-orm/neon-http';
+import { drizzle, type NeonHttpDatabase } from 'drizzle-orm/neon-http';
 import { neon, neonConfig } from '@neondatabase/serverless';
 import * as schema from '@shared/schema';
 
 // Get the DATABASE_URL from environment variables
 const DATABASE_URL = process.env.DATABASE_URL;
 
+// Without a DATABASE_URL the app runs on in-memory storage (e.g. offline fixture mode)
+export const isDatabaseConfigured = !!DATABASE_URL;
+
 if (!DATABASE_URL) {
-  throw new Error('DATABASE_URL environment variable is not defined');
+  console.warn('DATABASE_URL environment variable is not defined, database storage is disabled');
 }
 
 // Configure neon
 neonConfig.fetchConnectionCache = true;
 
-// Create a connection factory
-const sql = neon(DATABASE_URL);
-
-// Create a Drizzle client
-export const db = drizzle(sql, { schema });
+// Create a Drizzle client, or null when the database is not configured
+export const db: NeonHttpDatabase<typeof schema> | null = DATABASE_URL
+  ? drizzle(neon(DATABASE_URL), { schema })
+  : null;
 
 export async function initializeDatabase() {
+  if (!db) {
+    return false;
+  }
+
   try {
     // Test database connection
     const result = await db.select().from(schema.deployments).limit(1);
@@ -0,0 +1,61 @@
+import { ProcessedDeployment, DeploymentChange, ContractKind } from "@shared/types";
+import { CONTRACT_KINDS } from "@shared/contracts";
+
+// A change as computed by the diff, before it is attached to a snapshot
+export type PendingDeploymentChange = Omit<DeploymentChange, 'id' | 'snapshotId' | 'detectedAt'>;
+
+function getContractAddress(deployment: ProcessedDeployment, contract: ContractKind): string | undefined {
+  return deployment.contracts?.[contract]?.address;
+}
+
+/**
+ * Compares two sets of deployments and returns the added, removed and changed entries.
+ * A changed deployment produces one entry per contract whose address differs.
+ */
+export function diffDeployments(
+  previous: ProcessedDeployment[],
+  next: ProcessedDeployment[]
+): PendingDeploymentChange[] {
+  const changes: PendingDeploymentChange[] = [];
+  const previousById = new Map(previous.map(d => [d.id, d]));
+  const nextById = new Map(next.map(d => [d.id, d]));
+
+  nextById.forEach((deployment, id) => {
+    const before = previousById.get(id);
+    const base = {
+      deploymentId: id,
+      chainKey: deployment.chainKey,
+      eid: deployment.eid,
+      stage: deployment.stage,
+    };
+
+    if (!before) {
+      changes.push({ ...base, changeType: 'added' });
+      return;
+    }
+
+    CONTRACT_KINDS.forEach(contract => {
+      const previousAddress = getContractAddress(before, contract);
+      const newAddress = getContractAddress(deployment, contract);
+
+      // Addresses in the metadata are not consistently checksummed
+      if ((previousAddress || '').toLowerCase() !== (newAddress || '').toLowerCase()) {
+        changes.push({ ...base, changeType: 'changed', contract, previousAddress, newAddress });
+      }
+    });
+  });
+
+  previousById.forEach((deployment, id) => {
+    if (!nextById.has(id)) {
+      changes.push({
+        deploymentId: id,
+        chainKey: deployment.chainKey,
+        eid: deployment.eid,
+        stage: deployment.stage,
+        changeType: 'removed',
+      });
+    }
+  });
+
+  return changes;
+}
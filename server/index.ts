@@ -1,9 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { initializeDatabase } from "./db";
+import { initializeDatabase, isDatabaseConfigured } from "./db";
 import { storage } from "./storage";
-import { fetchLayerZeroDeployments } from "./layerzero";
+import { fetchLayerZeroDeployments, fetchLayerZeroDvns, fetchLayerZeroChains } from "./layerzero";
+import { seedChainRegistry } from "./chainRegistry";
+import { diffDeployments } from "./history";
+import { pruneRequestHistory } from "./lzread";
 
 const app = express();
 app.use(express.json());
@@ -44,8 +47,32 @@ async function syncDeploymentsData() {
   try {
     log("Starting LayerZero deployments sync", "sync");
     const deployments = await fetchLayerZeroDeployments();
-    await storage.cacheDeployments(deployments);
-    log(`Synced ${deployments.length} deployments to database`, "sync");
+    
+    // An empty result means the fetch failed, so keep the current data and history as-is
+    if (deployments.length > 0) {
+      // Diff against the currently cached deployments before replacing them. They persist
+      // in the database across restarts, so only the very first sync records a baseline.
+      const previous = await storage.getDeployments();
+      const changes = previous.length > 0 ? diffDeployments(previous, deployments) : [];
+      const snapshot = await storage.recordSnapshot(deployments.length, changes);
+      log(`Recorded snapshot ${snapshot.id}: +${snapshot.added} -${snapshot.removed} ~${snapshot.changed}`, "sync");
+      
+      await storage.cacheDeployments(deployments);
+      log(`Synced ${deployments.length} deployments to database`, "sync");
+    } else {
+      log("No deployments fetched, keeping existing data", "sync");
+    }
+    
+    const dvns = await fetchLayerZeroDvns();
+    await storage.cacheDvns(dvns);
+    log(`Synced ${dvns.length} DVNs to database`, "sync");
+    
+    const chains = await fetchLayerZeroChains();
+    if (chains.length > 0) {
+      await storage.cacheChains(chains);
+      seedChainRegistry(chains);
+      log(`Synced ${chains.length} chains to database`, "sync");
+    }
     
     // Schedule next sync
     setTimeout(syncDeploymentsData, 5 * 60 * 1000); // Every 5 minutes
@@ -57,11 +84,27 @@ async function syncDeploymentsData() {
   }
 }
 
+// Apply lzRead history retention, then again every hour
+async function pruneLzReadHistory() {
+  try {
+    const deleted = await pruneRequestHistory();
+    log(`lzRead history retention removed ${deleted} requests`, "history");
+  } catch (error) {
+    console.error("Error pruning lzRead history:", error);
+  }
+  
+  setTimeout(pruneLzReadHistory, 60 * 60 * 1000);
+}
+
 (async () => {
   // Initialize database
   try {
     // Migrate and initialize database
     try {
+      if (!isDatabaseConfigured) {
+        throw new Error("DATABASE_URL is not configured");
+      }
+      
       // Import and run migrations first
       const migrate = (await import('./migrate')).default;
       await migrate();
@@ -82,6 +125,8 @@ async function syncDeploymentsData() {
     // Start data sync process - populate with data regardless of storage type
     await syncDeploymentsData();
     log("Initial data sync completed", "sync");
+    
+    await pruneLzReadHistory();
   } catch (error) {
     console.error("Application initialization error:", error);
   }
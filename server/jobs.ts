@@ -0,0 +1,79 @@
+/**
+ * Bounded-concurrency execution for background work such as lzRead requests.
+ *
+ * Jobs are queued and at most LZREAD_JOB_CONCURRENCY (default 2) run at once; the rest
+ * wait in submission order. Within a job, mapWithConcurrency bounds how many items
+ * (e.g. chains, LZREAD_CHAIN_CONCURRENCY at a time, default 4) are worked on at once.
+ */
+
+const DEFAULT_JOB_CONCURRENCY = 2;
+const DEFAULT_CHAIN_CONCURRENCY = 4;
+
+type Job = {
+  name: string;
+  task: () => Promise<void>;
+};
+
+const queue: Job[] = [];
+let runningJobs = 0;
+
+function getJobConcurrency(): number {
+  return parseInt(process.env.LZREAD_JOB_CONCURRENCY || '', 10) || DEFAULT_JOB_CONCURRENCY;
+}
+
+// Chains worked on at once within one job, overridable through the environment
+export function getChainConcurrency(): number {
+  return parseInt(process.env.LZREAD_CHAIN_CONCURRENCY || '', 10) || DEFAULT_CHAIN_CONCURRENCY;
+}
+
+function drain(): void {
+  while (runningJobs < getJobConcurrency() && queue.length > 0) {
+    const job = queue.shift()!;
+    runningJobs++;
+
+    job.task()
+      .catch(error => {
+        // Jobs are expected to record their own failures; this only guards the runner
+        console.error(`[Jobs] Job ${job.name} failed:`, error instanceof Error ? error.message : error);
+      })
+      .finally(() => {
+        runningJobs--;
+        drain();
+      });
+  }
+}
+
+/**
+ * Queues a job. It starts on a later tick, so the caller can respond before any work begins.
+ */
+export function enqueueJob(name: string, task: () => Promise<void>): void {
+  queue.push({ name, task });
+  setImmediate(drain);
+}
+
+export function getJobQueueStats(): { running: number; queued: number } {
+  return { running: runningJobs, queued: queue.length };
+}
+
+/**
+ * Like Promise.all over items.map(worker), but with at most `limit` workers in flight.
+ * Results keep the order of `items`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, runWorker));
+  return results;
+}
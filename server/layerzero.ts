@@ -1,28 +1,159 @@
 import fetch from "node-fetch";
-import { ProcessedDeployment } from "@shared/types";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ProcessedDeployment,
+  DeploymentContracts,
+  DvnDeployment,
+  DvnProvider,
+  ChainMetadata,
+  ChainStageDetails,
+} from "@shared/types";
+import { extractContracts } from "@shared/contracts";
 
 // Cache mechanism for API responses
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-let cachedDeployments: {
-  data: ProcessedDeployment[];
+let cachedMetadata: {
+  data: Record<string, any>;
   timestamp: number;
 } | null = null;
 
-// Function to fetch and process data from LayerZero API
-export async function fetchLayerZeroDeployments(): Promise<ProcessedDeployment[]> {
+const DEFAULT_METADATA_URL = "https://metadata.layerzero-api.com/v1/metadata";
+
+// Where the metadata document is loaded from. Configured with LAYERZERO_METADATA_SOURCE:
+// - unset or an http(s) URL: the live metadata API
+// - a path to a JSON file: a single fixture, e.g. ./layerzero_data.json
+// - a path to a directory: a series of JSON snapshots replayed in filename order,
+//   one per sync, staying on the last one (useful for exercising the change feed)
+export interface MetadataSource {
+  type: 'live' | 'file' | 'directory';
+  location: string;
+}
+
+let resolvedSource: MetadataSource | null = null;
+let snapshotIndex = 0;
+
+export function getMetadataSource(): MetadataSource {
+  if (resolvedSource) return resolvedSource;
+
+  const configured = process.env.LAYERZERO_METADATA_SOURCE?.trim();
+  if (!configured || /^https?:\/\//.test(configured)) {
+    resolvedSource = { type: 'live', location: configured || DEFAULT_METADATA_URL };
+  } else {
+    const location = path.resolve(configured);
+    if (!fs.existsSync(location)) {
+      throw new Error(`LAYERZERO_METADATA_SOURCE path does not exist: ${location}`);
+    }
+    resolvedSource = {
+      type: fs.statSync(location).isDirectory() ? 'directory' : 'file',
+      location,
+    };
+  }
+
+  console.log(`Using ${resolvedSource.type} metadata source: ${resolvedSource.location}`);
+  return resolvedSource;
+}
+
+async function readJsonFile(filePath: string): Promise<unknown> {
+  const contents = await fs.promises.readFile(filePath, 'utf-8');
+  return JSON.parse(contents);
+}
+
+// Load the metadata document from the configured source, bypassing the cache
+async function loadMetadataFromSource(source: MetadataSource): Promise<unknown> {
+  switch (source.type) {
+    case 'file':
+      return readJsonFile(source.location);
+
+    case 'directory': {
+      const snapshots = (await fs.promises.readdir(source.location))
+        .filter(file => file.endsWith('.json'))
+        .sort();
+      if (snapshots.length === 0) {
+        throw new Error(`No JSON snapshots found in ${source.location}`);
+      }
+
+      const snapshot = snapshots[Math.min(snapshotIndex, snapshots.length - 1)];
+      snapshotIndex++;
+      console.log(`Loading metadata snapshot ${snapshot}`);
+      return readJsonFile(path.join(source.location, snapshot));
+    }
+
+    case 'live':
+    default: {
+      const metadataResponse = await fetch(source.location);
+      if (!metadataResponse.ok) {
+        throw new Error(`Metadata API responded with status: ${metadataResponse.status}`);
+      }
+      return metadataResponse.json();
+    }
+  }
+}
+
+// Fetch the raw metadata document, shared by the deployment and DVN processors
+async function fetchLayerZeroMetadata(): Promise<Record<string, any> | null> {
   // If we have cached data and it's not expired, return it
-  if (cachedDeployments && Date.now() - cachedDeployments.timestamp < CACHE_DURATION) {
-    return cachedDeployments.data;
+  if (cachedMetadata && Date.now() - cachedMetadata.timestamp < CACHE_DURATION) {
+    return cachedMetadata.data;
   }
 
   try {
-    // Fetch both the metadata and deployments endpoints for complete data
-    const metadataResponse = await fetch("https://metadata.layerzero-api.com/v1/metadata");
-    if (!metadataResponse.ok) {
-      throw new Error(`Metadata API responded with status: ${metadataResponse.status}`);
+    const metadataData = await loadMetadataFromSource(getMetadataSource());
+    if (typeof metadataData !== 'object' || metadataData === null) {
+      throw new Error("Metadata source returned an unexpected payload");
     }
 
-    const metadataData = await metadataResponse.json();
+    // Update cache
+    cachedMetadata = {
+      data: metadataData as Record<string, any>,
+      timestamp: Date.now(),
+    };
+
+    return cachedMetadata.data;
+  } catch (error) {
+    console.error("Failed to fetch LayerZero metadata:", error);
+
+    // If we have cached data, return it even if expired
+    if (cachedMetadata) {
+      return cachedMetadata.data;
+    }
+
+    return null;
+  }
+}
+
+// Parse chainKey and stage from a metadata key
+// For mainnet chains, the key is just the chainKey (e.g., "ethereum")
+// For testnet chains, the key is chainKey-stage (e.g., "ethereum-testnet")
+export function parseChainKeyStage(chainKeyStage: string): { chainKey: string; stage: string } {
+  if (chainKeyStage.includes('-')) {
+    const parts = chainKeyStage.split('-');
+    return { chainKey: parts[0], stage: parts.slice(1).join('-') };
+  }
+
+  return { chainKey: chainKeyStage, stage: 'mainnet' }; // Default for keys without explicit stage
+}
+
+// Determine which version to use based on available contracts
+function getDeploymentVersion(deployment: any, contracts: DeploymentContracts): number {
+  // If version is explicitly 0, make it 1 for UI purposes
+  if (deployment.version === 0) return 1;
+  // If version is undefined, infer from available contracts
+  if (deployment.version === undefined) return contracts.endpointV2 ? 2 : 1;
+  return deployment.version;
+}
+
+// Function to fetch and process data from LayerZero API
+export async function fetchLayerZeroDeployments(): Promise<ProcessedDeployment[]> {
+  const metadataData = await fetchLayerZeroMetadata();
+
+  // If no metadata is available, return an empty array instead of throwing
+  if (!metadataData) {
+    console.warn("No cached data available, returning empty array");
+    return [];
+  }
+
+  try {
     const processedData: ProcessedDeployment[] = [];
     
     // Process the response using the metadata endpoint format
@@ -30,19 +161,7 @@ export async function fetchLayerZeroDeployments(): Promise<ProcessedDeployment[]
       // The metadata endpoint returns a more complex structure with chainKeys as primary keys
       Object.entries(metadataData).forEach(([chainKeyStage, chainData]: [string, any]) => {
         if (chainData && typeof chainData === 'object') {
-          // Parse chainKey and stage from the key
-          // For mainnet chains, the key is just the chainKey (e.g., "ethereum")
-          // For testnet chains, the key is chainKey-stage (e.g., "ethereum-testnet")
-          let chainKey, stage;
-          
-          if (chainKeyStage.includes('-')) {
-            const parts = chainKeyStage.split('-');
-            chainKey = parts[0];
-            stage = parts.slice(1).join('-');
-          } else {
-            chainKey = chainKeyStage;
-            stage = 'mainnet'; // Default for keys without explicit stage
-          }
+          const { chainKey, stage } = parseChainKeyStage(chainKeyStage);
           
           // Extract chain details and block explorers
           const chainDetails = chainData.chainDetails || {};
@@ -55,28 +174,10 @@ export async function fetchLayerZeroDeployments(): Promise<ProcessedDeployment[]
           // Process each deployment
           deployments.forEach((deployment: any) => {
             if (deployment && deployment.eid) {
-              // Handle both v1 and v2 contract addresses
-              // V1 contracts
-              const endpoint = deployment.endpoint || null;
-              // Handle both relayerV2 and relayer (legacy support)
-              const relayerV2 = deployment.relayerV2 || deployment.relayer || null;
-              const ultraLightNodeV2 = deployment.ultraLightNodeV2 || null;
-              const sendUln301 = deployment.sendUln301 || null;
-              const receiveUln301 = deployment.receiveUln301 || null;
-              const nonceContract = deployment.nonceContract || null;
-              
-              // V2 contracts
-              const endpointV2 = deployment.endpointV2 || null;
-              const sendUln302 = deployment.sendUln302 || null;
-              const receiveUln302 = deployment.receiveUln302 || null;
-              const executor = deployment.executor || null;
+              // Every contract kind listed for this deployment, V1 and V2 alike
+              const contracts = extractContracts(deployment);
               
-              // Determine which version to use based on available contracts
-              let version = deployment.version;
-              // If version is explicitly 0, make it 1 for UI purposes
-              if (version === 0) version = 1;
-              // If version is undefined, infer from available contracts
-              if (version === undefined) version = endpointV2 ? 2 : 1;
+              const version = getDeploymentVersion(deployment, contracts);
               
               // Create a deployment entry with safe property access
               processedData.push({
@@ -84,12 +185,14 @@ export async function fetchLayerZeroDeployments(): Promise<ProcessedDeployment[]
                 chainKey,
                 eid: deployment.eid,
                 stage,
-                endpoint: endpoint || endpointV2 || { address: 'N/A' }, // Use v2 endpoint if v1 not available
-                relayerV2,
-                ultraLightNodeV2,
-                sendUln301: sendUln301 || sendUln302, // Use v2 if v1 not available
-                receiveUln301: receiveUln301 || receiveUln302, // Use v2 if v1 not available
-                nonceContract,
+                // V1 fields are only set from their own V1 contracts
+                endpoint: contracts.endpoint,
+                relayerV2: contracts.relayerV2,
+                ultraLightNodeV2: contracts.ultraLightNodeV2,
+                sendUln301: contracts.sendUln301,
+                receiveUln301: contracts.receiveUln301,
+                nonceContract: contracts.nonceContract,
+                contracts,
                 version,
                 isActive: true, // Assuming all deployments from the API are active
                 rawData: {
@@ -99,11 +202,6 @@ export async function fetchLayerZeroDeployments(): Promise<ProcessedDeployment[]
                   chainDetails,
                   dvns,
                   blockExplorers,
-                  // Include v2 specific contracts in the raw data
-                  endpointV2,
-                  sendUln302,
-                  receiveUln302,
-                  executor,
                   // Add chain-level metadata for display
                   chainType: chainDetails?.chainType || '',
                   nativeChainId: chainDetails?.nativeChainId || '',
@@ -120,12 +218,6 @@ export async function fetchLayerZeroDeployments(): Promise<ProcessedDeployment[]
     // Log the processed data count for debugging
     console.log(`Processed ${processedData.length} deployments from the API`);
 
-    // Update cache
-    cachedDeployments = {
-      data: processedData,
-      timestamp: Date.now(),
-    };
-
     // If we didn't get any data, return an empty array
     if (processedData.length === 0) {
       console.warn("No deployments found in API response, returning empty array");
@@ -134,17 +226,151 @@ export async function fetchLayerZeroDeployments(): Promise<ProcessedDeployment[]
 
     return processedData;
   } catch (error) {
-    console.error("Failed to fetch LayerZero deployments:", error);
-    
-    // If we have cached data, return it even if expired
-    if (cachedDeployments) {
-      return cachedDeployments.data;
+    console.error("Failed to process LayerZero deployments:", error);
+    return [];
+  }
+}
+
+// Function to extract the DVN registry from the per-chain `dvns` maps
+export async function fetchLayerZeroDvns(): Promise<DvnDeployment[]> {
+  const metadataData = await fetchLayerZeroMetadata();
+  if (!metadataData) {
+    return [];
+  }
+
+  const processedDvns: DvnDeployment[] = [];
+
+  Object.entries(metadataData).forEach(([chainKeyStage, chainData]: [string, any]) => {
+    if (!chainData || typeof chainData !== 'object' || !chainData.dvns) {
+      return;
     }
-    
-    // If no cached data, return an empty array instead of throwing
-    console.warn("No cached data available, returning empty array");
+
+    const { chainKey, stage } = parseChainKeyStage(chainKeyStage);
+
+    Object.entries(chainData.dvns).forEach(([address, dvn]: [string, any]) => {
+      if (!dvn || typeof dvn !== 'object') return;
+
+      const canonicalName = dvn.canonicalName || address;
+      processedDvns.push({
+        // A handful of entries have no provider id, so derive one from the name
+        id: dvn.id || canonicalName.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+        address: address.toLowerCase(),
+        canonicalName,
+        version: dvn.version ?? 2,
+        chainKey,
+        stage,
+        lzReadCompatible: !!dvn.lzReadCompatible,
+        deprecated: !!dvn.deprecated,
+      });
+    });
+  });
+
+  console.log(`Processed ${processedDvns.length} DVN deployments from the API`);
+  return processedDvns;
+}
+
+// Function to aggregate chain metadata across every stage entry of a chain
+export async function fetchLayerZeroChains(): Promise<ChainMetadata[]> {
+  const metadataData = await fetchLayerZeroMetadata();
+  if (!metadataData) {
     return [];
   }
+
+  const chains = new Map<string, ChainMetadata>();
+
+  Object.entries(metadataData).forEach(([chainKeyStage, chainData]: [string, any]) => {
+    if (!chainData || typeof chainData !== 'object') {
+      return;
+    }
+
+    const { chainKey, stage } = parseChainKeyStage(chainKeyStage);
+    const chainDetails = chainData.chainDetails || {};
+
+    let chain = chains.get(chainKey);
+    if (!chain) {
+      chain = {
+        chainKey,
+        name: chainKey,
+        chainType: '',
+        chainLayer: '',
+        chainStatus: '',
+        stages: [],
+        eids: [],
+      };
+      chains.set(chainKey, chain);
+    }
+
+    const stageDetails: ChainStageDetails = {
+      stage,
+      name: chainDetails.name,
+      shortName: chainDetails.shortName,
+      chainStatus: chainDetails.chainStatus,
+      chainLayer: chainDetails.chainLayer,
+      chainType: chainDetails.chainType,
+      nativeChainId: chainDetails.nativeChainId,
+      nativeCurrency: chainDetails.nativeCurrency,
+      blockExplorers: (chainData.blockExplorers || [])
+        .map((explorer: any) => explorer?.url)
+        .filter((url: unknown): url is string => typeof url === 'string'),
+    };
+    chain.stages.push(stageDetails);
+
+    (chainData.deployments || []).forEach((deployment: any) => {
+      if (deployment && deployment.eid) {
+        chain!.eids.push({
+          eid: deployment.eid,
+          stage,
+          version: getDeploymentVersion(deployment, extractContracts(deployment)),
+          deploymentId: `${chainKey}-${deployment.eid}-${stage}`,
+        });
+      }
+    });
+  });
+
+  // Chain-level fields come from mainnet when it exists, since testnets often lack names and ids
+  chains.forEach(chain => {
+    chain.stages.sort((a, b) => (a.stage === 'mainnet' ? -1 : b.stage === 'mainnet' ? 1 : a.stage.localeCompare(b.stage)));
+    chain.eids.sort((a, b) => Number(a.eid) - Number(b.eid));
+
+    const primary = chain.stages[0];
+    chain.name = primary.name || primary.shortName || chain.chainKey;
+    chain.chainType = primary.chainType || '';
+    chain.chainLayer = primary.chainLayer || '';
+    chain.chainStatus = primary.chainStatus || '';
+    chain.nativeChainId = primary.nativeChainId;
+    chain.nativeCurrency = primary.nativeCurrency;
+  });
+
+  console.log(`Processed ${chains.size} chains from the API`);
+  return Array.from(chains.values()).sort((a, b) => a.chainKey.localeCompare(b.chainKey));
+}
+
+// Group DVN deployments into one entry per provider
+export function groupDvnsByProvider(dvns: DvnDeployment[]): DvnProvider[] {
+  const providers = new Map<string, DvnProvider>();
+
+  dvns.forEach(dvn => {
+    let provider = providers.get(dvn.id);
+    if (!provider) {
+      provider = {
+        id: dvn.id,
+        canonicalName: dvn.canonicalName,
+        chains: [],
+        lzReadCompatible: false,
+        deprecatedCount: 0,
+        deployments: [],
+      };
+      providers.set(dvn.id, provider);
+    }
+
+    provider.deployments.push(dvn);
+    if (!provider.chains.includes(dvn.chainKey)) provider.chains.push(dvn.chainKey);
+    if (dvn.lzReadCompatible) provider.lzReadCompatible = true;
+    if (dvn.deprecated) provider.deprecatedCount++;
+  });
+
+  return Array.from(providers.values())
+    .sort((a, b) => a.canonicalName.localeCompare(b.canonicalName));
 }
 
 // Function to fetch a specific deployment by ID
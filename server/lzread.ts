@@ -1,18 +1,22 @@
-import { CrossChainQuery, CrossChainResult, ChainData, LzReadRequest, AssetData, WalletScanResult } from '@shared/types';
+import { ethers } from 'ethers';
+import { CrossChainQuery, CrossChainResult, ChainData, ContractCallData, CodeInspectionData, StorageReadData, TransactionHistoryData, EVMCallRequestV1, LzReadRequest, LzReadChainStatus, AssetData, WalletScanResult } from '@shared/types';
 import { v4 as uuidv4 } from 'uuid';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import * as fs from 'fs';
-import * as path from 'path';
-
-// Import the hardhat types
-import type { HardhatNetworkUserConfig, NetworkUserConfig } from 'hardhat/types';
-
-// Promisify exec for async usage
-const execAsync = promisify(exec);
-
-// In modern Node.js, fetch is available globally
-const fetchApi = fetch;
+import { EventEmitter } from 'events';
+import { getChainConfig } from './chainRegistry';
+import { readChain, ReadRequest, ReadStats, MULTICALL3_ADDRESS } from './multicall';
+import { encodeReadCommand } from './readCodec';
+import { encodeContractCall, decodeContractResult } from './abi';
+import { simulateCompute } from './compute';
+import { resolveBlockAtTimestamp } from './blockTime';
+import { getTransactionHistory } from './transactions';
+import { planStorageSlots, decodeStorageSlot } from './storageSlots';
+import { inspectContracts, compareCodeHashes } from './contractInspection';
+import { scanErc20Balances } from './tokens';
+import { scanNftHoldings } from './nfts';
+import { valueAssets } from './prices';
+import { storage } from './storage';
+import { enqueueJob, mapWithConcurrency, getChainConcurrency } from './jobs';
+import { formatBalance } from '@shared/format';
 
 /**
  * In a production application, we would use the LayerZero lzRead CLI directly
@@ -25,85 +29,104 @@ const fetchApi = fetch;
  * while structuring our code in a way that could be replaced with actual CLI calls
  */
 
-// Map of chainKey to necessary data for interacting with lzRead on that chain
-interface ChainConfig {
-  rpcUrl: string;
-  chainId: number; // Ethereum chain ID
-  eid: string;    // LayerZero Endpoint ID
+// Blocks lzRead DVNs wait for before reading, as in LayerZero's read examples
+const DEFAULT_READ_CONFIRMATIONS = 15;
+
+const multicallReadInterface = new ethers.utils.Interface([
+  "function getEthBalance(address addr) view returns (uint256 balance)"
+]);
+
+// Retention for persisted request history, overridable through the environment
+const DEFAULT_HISTORY_MAX_AGE_DAYS = 30;
+const DEFAULT_HISTORY_MAX_REQUESTS = 10000;
+
+// Persist a request; a storage failure is logged rather than failing the request itself
+async function saveRequest(request: LzReadRequest): Promise<void> {
+  try {
+    await storage.saveLzReadRequest(request);
+  } catch (error) {
+    console.error(`[lzRead] Could not persist request ${request.id}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+function finishRequest(request: LzReadRequest, status: LzReadRequest['status'], error?: unknown): void {
+  request.status = status;
+  request.completedAt = Date.now();
+  request.durationMs = request.completedAt - request.timestamp;
+  if (error !== undefined) {
+    request.error = error instanceof Error ? error.message : String(error);
+  }
+}
+
+// Requests still running, kept in memory so their progress can be read and streamed
+// without waiting on storage. Each update is emitted under the request id.
+const activeRequests = new Map<string, LzReadRequest>();
+const requestUpdates = new EventEmitter();
+requestUpdates.setMaxListeners(0); // One listener per open event stream
+
+function createRequest(fields: Pick<LzReadRequest, 'targetChains' | 'requestType' | 'address' | 'query'>): LzReadRequest {
+  return {
+    id: uuidv4(),
+    sourceChain: 'explorer', // For demo purposes, the source is our explorer app
+    status: 'pending',
+    timestamp: Date.now(),
+    progress: Object.fromEntries(fields.targetChains.map(chainKey => [chainKey, { status: 'pending' }])),
+    ...fields
+  };
+}
+
+function setChainProgress(request: LzReadRequest, chainKey: string, status: LzReadChainStatus, error?: string): void {
+  const previous = request.progress?.[chainKey];
+  const now = Date.now();
+  request.progress = {
+    ...request.progress,
+    [chainKey]: {
+      status,
+      error,
+      startedAt: status === 'running' ? now : previous?.startedAt,
+      finishedAt: status === 'done' || status === 'failed' ? now : undefined
+    }
+  };
+  requestUpdates.emit(request.id, request);
+}
+
+/**
+ * Saves a pending request and queues `run` to fill in its results. Returns straight
+ * away; the request is persisted and published again once `run` settles.
+ */
+async function startRequest(request: LzReadRequest, run: () => Promise<void>): Promise<LzReadRequest> {
+  activeRequests.set(request.id, request);
+  await saveRequest(request);
+
+  enqueueJob(`${request.requestType}:${request.id}`, async () => {
+    try {
+      await run();
+      finishRequest(request, 'completed');
+    } catch (error) {
+      console.error(`[lzRead] Request ${request.id} failed:`, error);
+      finishRequest(request, 'failed', error);
+    } finally {
+      await saveRequest(request);
+      activeRequests.delete(request.id);
+      requestUpdates.emit(request.id, request);
+    }
+  });
+
+  return request;
 }
 
-// Map chainKeys to their configurations (would be stored in a config file for the CLI)
-const chainConfigMap: Record<string, ChainConfig> = {
-  ethereum: { 
-    rpcUrl: 'https://eth-mainnet.public.blastapi.io',
-    chainId: 1,
-    eid: '30001', 
-  },
-  arbitrum: { 
-    rpcUrl: 'https://arb1.arbitrum.io/rpc',
-    chainId: 42161,
-    eid: '30110',
-  },
-  optimism: { 
-    rpcUrl: 'https://mainnet.optimism.io',
-    chainId: 10,
-    eid: '30111',
-  },
-  polygon: { 
-    rpcUrl: 'https://polygon-rpc.com',
-    chainId: 137,
-    eid: '30109',
-  },
-  avalanche: { 
-    rpcUrl: 'https://api.avax.network/ext/bc/C/rpc',
-    chainId: 43114,
-    eid: '30106',
-  },
-  bsc: { 
-    rpcUrl: 'https://bsc-dataseed.binance.org',
-    chainId: 56,
-    eid: '30102',
-  },
-  canto: {
-    rpcUrl: 'https://canto.slingshot.finance',
-    chainId: 7700,
-    eid: '30125',
-  },
-  fantom: {
-    rpcUrl: 'https://rpc.ftm.tools',
-    chainId: 250,
-    eid: '30112',
-  },
-  base: {
-    rpcUrl: 'https://mainnet.base.org',
-    chainId: 8453,
-    eid: '30116',
-  },
-  zksync: {
-    rpcUrl: 'https://mainnet.era.zksync.io',
-    chainId: 324,
-    eid: '30210',
-  },
-  linea: {
-    rpcUrl: 'https://rpc.linea.build',
-    chainId: 59144,
-    eid: '30118',
-  },
-  gnosis: {
-    rpcUrl: 'https://rpc.gnosischain.com',
-    chainId: 100,
-    eid: '30145',
-  },
-  moonbeam: {
-    rpcUrl: 'https://rpc.api.moonbeam.network',
-    chainId: 1284,
-    eid: '30126',
-  },
-};
+/**
+ * Listens for updates to a running request. Returns an unsubscribe function, or null
+ * when the request is not running (its stored state is then final).
+ */
+export function subscribeToRequest(id: string, listener: (request: LzReadRequest) => void): (() => void) | null {
+  if (!activeRequests.has(id)) return null;
 
-// Track in-memory request history for demo purposes
-// In production, this would be stored in a database
-const requestHistory: LzReadRequest[] = [];
+  requestUpdates.on(id, listener);
+  return () => {
+    requestUpdates.off(id, listener);
+  };
+}
 
 /**
  * Simulates a lzRead request to fetch data across multiple chains using LayerZero's lzRead protocol
@@ -115,7 +138,7 @@ const requestHistory: LzReadRequest[] = [];
  * This follows the pattern shown in the lzRead CLI documentation
  */
 function buildLzReadCliCommand(chainKey: string, query: CrossChainQuery): string {
-  const chainConfig = chainConfigMap[chainKey];
+  const chainConfig = getChainConfig(chainKey);
   if (!chainConfig) {
     throw new Error(`Chain ${chainKey} not configured for lzRead`);
   }
@@ -139,8 +162,11 @@ function buildLzReadCliCommand(chainKey: string, query: CrossChainQuery): string
       break;
     case 'storage':
       method = 'storage';
-      // For storage, we'd specify a slot number
-      additionalArgs = ' --slot=0';
+      additionalArgs = planStorageSlots(query.storage).map(({ slot }) => ` --slot=${slot}`).join('');
+      break;
+    case 'call':
+      method = 'call';
+      additionalArgs = ` --function="${query.call?.functionName}"`;
       break;
     default:
       method = query.queryType;
@@ -148,7 +174,9 @@ function buildLzReadCliCommand(chainKey: string, query: CrossChainQuery): string
   
   // Build a command similar to the lzRead CLI tool format
   // Based on documentation at https://docs.layerzero.network/v2/developers/evm/lzread/read-cli
-  const blockNumberArg = query.blockNumber ? ` --block=${query.blockNumber}` : '';
+  const blockNumberArg = query.timestamp
+    ? ` --timestamp=${query.timestamp}`
+    : query.blockNumber !== undefined ? ` --block=${query.blockNumber}` : '';
   
   // This is the command that would be executed in a real implementation
   return `lzread ${method} --chain=${chainConfig.chainId} --endpoint=${chainConfig.eid} --address=${query.address}${blockNumberArg}${additionalArgs}`;
@@ -165,7 +193,7 @@ function buildLzReadCliCommand(chainKey: string, query: CrossChainQuery): string
 async function executeLzReadCliCommand(chainKey: string, query: CrossChainQuery): Promise<ChainData | null> {
   try {
     // Only proceed with chains we have configs for
-    const chainConfig = chainConfigMap[chainKey];
+    const chainConfig = getChainConfig(chainKey);
     if (!chainConfig) {
       console.error(`[lzRead CLI] Chain ${chainKey} not configured for lzRead, skipping`);
       return null;
@@ -185,7 +213,7 @@ async function executeLzReadCliCommand(chainKey: string, query: CrossChainQuery)
     console.log(`[lzRead CLI] Using direct RPC implementation as fallback for ${chainKey}`);
     
     // Use the RPC implementation directly
-    return fetchChainData(chainConfig.rpcUrl, chainKey, chainConfig.eid, query);
+    return fetchChainData(chainKey, chainConfig.eid, query);
     
     /* 
     // This code would be used in production with proper dependencies:
@@ -226,7 +254,7 @@ async function executeLzReadCliCommand(chainKey: string, query: CrossChainQuery)
       
       // If CLI execution fails, we can fall back to RPC call for this MVP
       console.log(`[lzRead CLI] Falling back to RPC query on ${chainKey} for address ${query.address}`);
-      return fetchChainData(chainConfig.rpcUrl, chainKey, chainConfig.eid, query);
+      return fetchChainData(chainKey, chainConfig.eid, query);
     }
     */
   } catch (error) {
@@ -242,209 +270,244 @@ async function executeLzReadCliCommand(chainKey: string, query: CrossChainQuery)
 export async function performCrossChainQuery(query: CrossChainQuery): Promise<LzReadRequest> {
   console.log(`[lzRead] Starting cross-chain query for ${query.address} across ${query.chains.length} chains`);
   
-  // Create a request record
-  const requestId = uuidv4();
-  const request: LzReadRequest = {
-    id: requestId,
-    sourceChain: 'explorer', // For demo purposes, the source is our explorer app
+  // Create a request record; the query itself runs in the background
+  const request = createRequest({
     targetChains: query.chains,
     requestType: query.queryType,
-    status: 'pending',
-    timestamp: Date.now()
-  };
-  
-  // Add to history
-  requestHistory.push(request);
+    address: query.address,
+    query
+  });
   
-  try {
+  return startRequest(request, async () => {
     // In a real implementation with lzRead CLI, we would:
     // 1. Create appropriate CLI command for each target chain
     // 2. Execute the CLI commands (likely in parallel)
     // 3. Parse the CLI output to extract results
     // 4. Format and return the results
 
-    // Use the actual CLI command execution
-    const cliResults: (ChainData | null)[] = await Promise.all(
-      query.chains.map(chainKey => executeLzReadCliCommand(chainKey, query))
-    );
+    // Use the actual CLI command execution, a few chains at a time
+    const cliResults: (ChainData | null)[] = await mapWithConcurrency(query.chains, getChainConcurrency(), async (chainKey) => {
+      setChainProgress(request, chainKey, 'running');
+      const chainData = await executeLzReadCliCommand(chainKey, query);
+      
+      if (!chainData) {
+        setChainProgress(request, chainKey, 'failed', 'Chain not configured for lzRead');
+      } else {
+        setChainProgress(request, chainKey, chainData.error ? 'failed' : 'done', chainData.error);
+      }
+      return chainData;
+    });
     
     // Filter out nulls and process results
     const validResults: ChainData[] = cliResults.filter(r => r !== null) as ChainData[];
     
-    // Update request with results
-    request.status = 'completed';
+    // Update request with results, and the lzRead command that would read the same values
     request.result = {
       address: query.address,
       queryType: query.queryType,
       results: validResults,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      ...buildQueryCommand(query, validResults)
     };
     
-    console.log(`[lzRead] Completed query ${requestId} with ${request.result.results.length} results`);
-    return request;
+    // Merge every chain's page of transactions into one timeline
+    if (query.queryType === 'transactions') {
+      request.result.timeline = validResults
+        .flatMap(result => (result.data as TransactionHistoryData)?.transactions || [])
+        .sort((a, b) => b.timestamp - a.timestamp || b.blockNumber - a.blockNumber);
+    }
+    
+    // Compare the code that actually runs on each chain, the implementation's for proxies
+    if (query.queryType === 'code') {
+      request.result.codeParity = compareCodeHashes(validResults
+        .filter(result => !result.error)
+        .map(result => ({ chainKey: result.chainKey, codeHash: (result.data as CodeInspectionData).effectiveCodeHash })));
+    }
+    
+    // Simulate the compute step over the responses, when the query defines one
+    if (query.compute) {
+      try {
+        request.result.compute = simulateCompute(query, validResults, query.compute);
+      } catch (error) {
+        request.result.computeError = error instanceof Error ? error.message : String(error);
+      }
+    }
+    
+    console.log(`[lzRead] Completed query ${request.id} with ${request.result.results.length} results`);
+  });
+}
+
+/**
+ * The view call an lzRead DVN would make for a query, or null when the query type has none.
+ * lzRead only resolves eth_call, so queries backed by other JSON-RPC methods can't be expressed.
+ */
+function getQueryCall(query: CrossChainQuery): Pick<EVMCallRequestV1, 'to' | 'callData'> | null {
+  switch (query.queryType) {
+    case 'balance':
+      // Native balances are readable through Multicall3's getEthBalance
+      return {
+        to: MULTICALL3_ADDRESS,
+        callData: multicallReadInterface.encodeFunctionData('getEthBalance', [query.address])
+      };
+    case 'call':
+      return { to: query.address, callData: encodeContractCall(query.call!).callData };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Builds the lzRead command for a finished query: one EVMCallRequestV1 per chain that was read,
+ * pinned to the block the value was read at, or to the requested time for timestamp queries.
+ */
+function buildQueryCommand(query: CrossChainQuery, results: ChainData[]): Pick<CrossChainResult, 'command' | 'commandUnavailable'> {
+  const call = getQueryCall(query);
+  if (!call) {
+    return { commandUnavailable: `lzRead resolves view calls only, and ${query.queryType} queries need other JSON-RPC methods` };
+  }
+
+  const reads = results.filter(result => !result.error && result.blockNumber > 0);
+  if (reads.length === 0) {
+    return { commandUnavailable: 'No chain was read successfully' };
+  }
+
+  try {
+    const command = encodeReadCommand({
+      appCmdLabel: 0,
+      requests: reads.map((result, index) => ({
+        appRequestLabel: index + 1,
+        targetEid: Number(result.eid),
+        isBlockNum: !query.timestamp,
+        blockNumOrTimestamp: query.timestamp || result.blockNumber,
+        confirmations: DEFAULT_READ_CONFIRMATIONS,
+        ...call
+      }))
+    });
+    return { command };
   } catch (error) {
-    console.error(`[lzRead] Error performing cross-chain query:`, error);
-    request.status = 'failed';
-    return request;
+    return { commandUnavailable: error instanceof Error ? error.message : String(error) };
   }
 }
 
 /**
  * Fetches data from a specific chain
  */
-async function fetchChainData(rpcUrl: string, chainKey: string, eid: string, query: CrossChainQuery): Promise<ChainData> {
+async function fetchChainData(chainKey: string, eid: string, query: CrossChainQuery): Promise<ChainData> {
   console.log(`[lzRead] Fetching ${query.queryType} data for ${query.address} on ${chainKey}`);
+  const startedAt = Date.now();
   
   try {
-    // In a real lzRead implementation, we'd be constructing calldata like this:
-    // (following the lzRead documentation)
-    let callData: string;
+    // Timestamp queries read at the chain's last block at or before that time
+    const stats: ReadStats = { roundTrips: 0 };
+    const blockNumber = query.timestamp
+      ? (await resolveBlockAtTimestamp(chainKey, query.timestamp, stats)).blockNumber
+      : query.blockNumber;
     
-    // This represents what would happen in a true lzRead implementation
-    // We would encode the function call as calldata according to the query type
-    switch (query.queryType) {
-      case 'balance':
-        // For balance, we'd want to call balanceOf(address) on ERC20 tokens
-        // or use eth_getBalance for native token balance
-        // callData = abi.encodeWithSelector(ERC20.balanceOf.selector, query.address);
-        callData = '0x70a08231' + query.address.slice(2).padStart(64, '0'); // balanceOf selector
-        break;
-      case 'nonce':
-        // For nonce queries, we'd access the nonce via eth_getTransactionCount
-        // In a true implementation, we might encode a custom function call that returns this data
-        callData = '0x2d0335ab'; // example selector for a getNonce function
-        break;
-      case 'code':
-        // For code queries, we'd use a function to fetch the contract bytecode 
-        callData = '0x5c60da1b'; // implementation() selector for proxies
-        break;
-      case 'transactions':
-        // For transactions, we might call a function that returns recent txs for an address
-        callData = '0xc931f687'; // example selector for getRecentTransactions
-        break;
-      case 'storage':
-        // For storage queries, we could encode a call to directly access a storage slot
-        callData = '0x6e1540d7' + '0'.padStart(64, '0'); // example selector for getStorageAt(0)
-        break;
-      default:
-        throw new Error(`Unsupported query type: ${query.queryType}`);
+    // Transaction history spans a block range, so it comes from the history source
+    // rather than a read at one block
+    if (query.queryType === 'transactions') {
+      const history = await getTransactionHistory(chainKey, query.address, {
+        ...query.transactions,
+        toBlock: query.transactions?.toBlock ?? blockNumber
+      }, stats);
+      
+      return {
+        chainKey,
+        eid,
+        blockNumber: history.toBlock,
+        timestamp: Math.floor(Date.now() / 1000),
+        data: history,
+        resolvedFrom: query.timestamp,
+        roundTrips: stats.roundTrips,
+        durationMs: Date.now() - startedAt
+      };
     }
     
-    // In a real lzRead implementation, we would:
-    // 1. Create an EVMCallRequestV1 struct with this calldata
-    // 2. Submit it to the lzRead protocol
-    // 3. Wait for the response
-    
-    // But for our MVP simulation, we'll use direct RPC calls
-    // to simulate what would happen with lzRead
+    // Code queries also detect proxies and resolve their implementations, which takes
+    // follow-up reads at the same block
+    if (query.queryType === 'code') {
+      const inspection = await inspectContracts(chainKey, [query.address], { blockNumber, stats });
+      const { implementationCode, ...data }: CodeInspectionData & { implementationCode?: string } = inspection.contracts[0];
+      
+      return {
+        chainKey,
+        eid,
+        blockNumber: inspection.blockNumber,
+        timestamp: inspection.timestamp,
+        data,
+        resolvedFrom: query.timestamp,
+        roundTrips: stats.roundTrips,
+        durationMs: Date.now() - startedAt
+      };
+    }
     
-    // Map our query types to standard RPC methods
-    // In a real lzRead implementation, we wouldn't need this mapping
-    // since the results would come directly from the lzRead protocol
-    let method = '';
-    let params: any[] = [];
+    // Map our query types to reads. Native balances and contract calls can go
+    // through Multicall3; the other query types have no contract equivalent and
+    // go out as JSON-RPC requests at the pinned block.
+    let requests: ReadRequest[];
+    let contractCall: ReturnType<typeof encodeContractCall> | undefined;
+    let storageSlots: ReturnType<typeof planStorageSlots> | undefined;
     
     switch (query.queryType) {
       case 'balance':
-        method = 'eth_getBalance';
-        params = [query.address, query.blockNumber ? `0x${query.blockNumber.toString(16)}` : 'latest'];
+        requests = [{ type: 'balance', address: query.address }];
         break;
-      case 'nonce':
-        method = 'eth_getTransactionCount';
-        params = [query.address, query.blockNumber ? `0x${query.blockNumber.toString(16)}` : 'latest'];
+      case 'call':
+        contractCall = encodeContractCall(query.call!);
+        requests = [{ type: 'call', target: query.address, callData: contractCall.callData }];
         break;
-      case 'code':
-        method = 'eth_getCode';
-        params = [query.address, query.blockNumber ? `0x${query.blockNumber.toString(16)}` : 'latest'];
-        break;
-      case 'transactions':
-        // Use eth_getBlockByNumber for demo purposes (real implementation would be more complex)
-        method = 'eth_getBlockByNumber';
-        params = [query.blockNumber ? `0x${query.blockNumber.toString(16)}` : 'latest', true];
+      case 'nonce':
+        requests = [{ type: 'rpc', method: 'eth_getTransactionCount', params: blockTag => [query.address, blockTag] }];
         break;
       case 'storage':
-        method = 'eth_getStorageAt';
-        params = [query.address, '0x0', query.blockNumber ? `0x${query.blockNumber.toString(16)}` : 'latest'];
+        // Every requested slot goes out in the same batch
+        storageSlots = planStorageSlots(query.storage);
+        requests = storageSlots.map(({ slot }): ReadRequest => ({
+          type: 'rpc', method: 'eth_getStorageAt', params: blockTag => [query.address, slot, blockTag]
+        }));
         break;
       default:
         throw new Error(`Unsupported query type: ${query.queryType}`);
     }
     
-    // Make RPC call with AbortController for timeout control
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
+    // The query and the block number/timestamp are read together at one block,
+    // through the chain's provider pool
+    const read = await readChain(chainKey, requests, { blockNumber, stats });
+    const failed = read.results.find(item => !item.success);
+    if (failed) {
+      throw new Error(failed.error || 'Read failed');
+    }
+    const result = read.results[0].data;
+    let data: any = result;
     
-    let data: any;
-    let blockNumber = 0;
-    let timestamp = 0;
+    // Storage words are decoded by the type each slot was resolved with
+    if (storageSlots) {
+      const storageData: StorageReadData = {
+        slots: storageSlots.map((slot, index) => decodeStorageSlot(slot, read.results[index].data))
+      };
+      data = storageData;
+    }
     
-    try {
-      const response = await fetchApi(rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 1,
-          method,
-          params,
-        }),
-        signal: controller.signal
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const result = await response.json() as { result: any, error?: any };
-      
-      if (result.error) {
-        throw new Error(`RPC error: ${JSON.stringify(result.error)}`);
-      }
-      
-      // For transaction type, filter to only include transactions related to the queried address
-      data = result.result;
-      if (query.queryType === 'transactions' && Array.isArray(result.result?.transactions)) {
-        data = {
-          transactions: result.result.transactions.filter(
-            (tx: any) => 
-              tx.from?.toLowerCase() === query.address.toLowerCase() || 
-              tx.to?.toLowerCase() === query.address.toLowerCase()
-          ),
-          blockNumber: result.result.number,
-          timestamp: result.result.timestamp
-        };
-      }
-      
-      // Get block info for timestamp
-      const blockResponse = await fetchApi(rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 1,
-          method: 'eth_getBlockByNumber',
-          params: [query.blockNumber ? `0x${query.blockNumber.toString(16)}` : 'latest', false],
-        }),
-        signal: controller.signal
-      });
-      
-      const blockData = await blockResponse.json() as { result?: { number?: string, timestamp?: string } };
-      blockNumber = parseInt(blockData.result?.number || '0x0', 16);
-      timestamp = parseInt(blockData.result?.timestamp || '0x0', 16);
-    } finally {
-      clearTimeout(timeoutId);
+    // Contract calls return raw ABI-encoded data, decoded here by the caller's ABI
+    if (contractCall) {
+      const callData: ContractCallData = {
+        function: contractCall.fragment.format(ethers.utils.FormatTypes.sighash),
+        raw: result,
+        values: decodeContractResult(contractCall.iface, contractCall.fragment, result)
+      };
+      data = callData;
     }
     
     return {
       chainKey,
       eid, // Now using the eid parameter passed in
-      blockNumber,
-      timestamp,
-      data
+      blockNumber: read.blockNumber,
+      timestamp: read.timestamp,
+      data,
+      readMode: read.mode,
+      resolvedFrom: query.timestamp,
+      roundTrips: stats.roundTrips,
+      durationMs: Date.now() - startedAt
     };
   } catch (error: any) { // Use any type to handle unknown error structure
     console.error(`[lzRead] Error fetching data from ${chainKey}:`, error);
@@ -452,8 +515,10 @@ async function fetchChainData(rpcUrl: string, chainKey: string, eid: string, que
       chainKey,
       eid, // Use the eid passed in even for error cases
       blockNumber: 0,
-      timestamp: Date.now(),
-      data: { error: error.message || 'Unknown error' }
+      timestamp: Math.floor(Date.now() / 1000),
+      data: { error: error.message || 'Unknown error' },
+      error: error.message || 'Unknown error',
+      durationMs: Date.now() - startedAt
     };
   }
 }
@@ -461,17 +526,38 @@ async function fetchChainData(rpcUrl: string, chainKey: string, eid: string, que
 /**
  * Gets a list of recent lzRead requests
  */
-export function getRecentRequests(limit: number = 10): LzReadRequest[] {
-  return requestHistory
-    .sort((a, b) => b.timestamp - a.timestamp)
-    .slice(0, limit);
+export async function getRecentRequests(limit: number = 10): Promise<LzReadRequest[]> {
+  const { requests } = await storage.getLzReadHistory({ limit });
+  return requests;
+}
+
+/**
+ * Gets a specific lzRead request by ID, with live progress while it is running
+ */
+export async function getRequestById(id: string): Promise<LzReadRequest | undefined> {
+  const active = activeRequests.get(id);
+  if (active) return active;
+  
+  const request = await storage.getLzReadRequest(id);
+  // A stored request can only be pending without running if the server restarted mid-request
+  if (request?.status === 'pending') {
+    return { ...request, status: 'failed', error: 'Interrupted by a server restart' };
+  }
+  return request;
 }
 
 /**
- * Gets a specific lzRead request by ID
+ * Deletes requests outside the retention window: older than LZREAD_HISTORY_MAX_AGE_DAYS
+ * (default 30) or beyond the newest LZREAD_HISTORY_MAX_REQUESTS (default 10000).
  */
-export function getRequestById(id: string): LzReadRequest | undefined {
-  return requestHistory.find(req => req.id === id);
+export async function pruneRequestHistory(): Promise<number> {
+  const maxAgeDays = parseFloat(process.env.LZREAD_HISTORY_MAX_AGE_DAYS || '') || DEFAULT_HISTORY_MAX_AGE_DAYS;
+  const maxRequests = parseInt(process.env.LZREAD_HISTORY_MAX_REQUESTS || '', 10) || DEFAULT_HISTORY_MAX_REQUESTS;
+
+  return storage.pruneLzReadHistory({
+    maxAgeMs: maxAgeDays * 24 * 60 * 60 * 1000,
+    maxRequests
+  });
 }
 
 /**
@@ -481,28 +567,29 @@ export function getRequestById(id: string): LzReadRequest | undefined {
 export async function performWalletVacuum(address: string, chains: string[]): Promise<LzReadRequest> {
   console.log(`[lzRead] Starting wallet vacuum for ${address} across ${chains.length} chains`);
   
-  // Create a request record for the wallet scan
-  const requestId = uuidv4();
-  const request: LzReadRequest = {
-    id: requestId,
-    sourceChain: 'explorer',
+  // Create a request record for the wallet scan; the scan itself runs in the background
+  const request = createRequest({
     targetChains: chains,
-    requestType: 'wallet_vacuum', 
-    status: 'pending',
-    timestamp: Date.now()
-  };
-  
-  // Add to history
-  requestHistory.push(request);
+    requestType: 'wallet_vacuum',
+    address
+  });
   
-  try {
-    // Execute balance checks on each chain
-    const assetPromises = chains.map(async (chainKey) => {
+  return startRequest(request, async () => {
+    // Round trips across every chain, to report how well the reads batched
+    const stats: ReadStats = { roundTrips: 0 };
+    // Chains that could not be scanned, reported alongside the assets
+    const errors: Record<string, string> = {};
+    
+    // Execute balance checks on each chain, a few chains at a time
+    const chainAssets = await mapWithConcurrency(chains, getChainConcurrency(), async (chainKey): Promise<AssetData[]> => {
+      setChainProgress(request, chainKey, 'running');
       try {
-        const chainConfig = chainConfigMap[chainKey];
+        const chainConfig = getChainConfig(chainKey);
         if (!chainConfig) {
           console.log(`[Wallet Vacuum] Chain ${chainKey} not configured, skipping`);
-          return null;
+          errors[chainKey] = 'Chain not configured';
+          setChainProgress(request, chainKey, 'failed', errors[chainKey]);
+          return [];
         }
         
         // Get native token balance
@@ -513,41 +600,83 @@ export async function performWalletVacuum(address: string, chains: string[]): Pr
         };
         
         const nativeData = await fetchChainData(
-          chainConfig.rpcUrl, 
           chainKey, 
           chainConfig.eid, 
           nativeBalanceQuery
         );
+        stats.roundTrips += nativeData.roundTrips || 0;
+        if (nativeData.error) {
+          throw new Error(nativeData.error);
+        }
+        // Pin the token and NFT scans to the native balance's block, unless that read failed
+        const pinnedBlock = nativeData.blockNumber || undefined;
         
         // Basic asset data for the native token
+        const { nativeCurrency } = chainConfig;
         const nativeAsset: AssetData = {
           chain: chainKey,
           eid: chainConfig.eid,
           assetType: 'native',
-          symbol: getChainNativeSymbol(chainKey),
-          name: getChainNativeName(chainKey),
+          symbol: nativeCurrency.symbol,
+          name: nativeCurrency.name,
           balance: nativeData.data || '0x0',
-          balanceFormatted: formatBalance(nativeData.data || '0x0', 18),
-          decimals: 18,
+          balanceFormatted: formatBalance(nativeData.data || '0x0', nativeCurrency.decimals),
+          decimals: nativeCurrency.decimals,
+          cgId: nativeCurrency.cgId,
           blockNumber: nativeData.blockNumber,
           lastUpdated: nativeData.timestamp
         };
         
-        // In a real implementation, we would also:
-        // 1. Scan for ERC20 tokens
-        // 2. Scan for ERC721 tokens (NFTs)
-        // 3. Check for any other special assets
+        // Scan listed ERC-20 tokens at the same block as the native balance
+        const tokenBalances = await scanErc20Balances(chainKey, chainConfig.chainId, address, pinnedBlock, stats);
+        const tokenAssets: AssetData[] = tokenBalances.map(({ token, balance, decimals, symbol }) => ({
+          chain: chainKey,
+          eid: chainConfig.eid,
+          assetType: 'erc20',
+          symbol,
+          name: token.name,
+          balance,
+          balanceFormatted: formatBalance(balance, decimals),
+          decimals,
+          contractAddress: token.address,
+          cgId: token.extensions?.coingeckoId,
+          blockNumber: nativeData.blockNumber,
+          lastUpdated: nativeData.timestamp
+        }));
         
-        // For now, we'll just return the native asset
-        return nativeAsset;
+        // Check listed NFT collections at the same block
+        const nftHoldings = await scanNftHoldings(chainKey, chainConfig.chainId, address, pinnedBlock, stats);
+        const nftAssets: AssetData[] = nftHoldings.map(({ collection, balance, tokenIds }) => ({
+          chain: chainKey,
+          eid: chainConfig.eid,
+          assetType: collection.standard,
+          name: collection.name,
+          balance,
+          balanceFormatted: balance,
+          decimals: 0,
+          contractAddress: collection.address,
+          tokenIds,
+          blockNumber: nativeData.blockNumber,
+          lastUpdated: nativeData.timestamp
+        }));
+        
+        setChainProgress(request, chainKey, 'done');
+        return [nativeAsset, ...tokenAssets, ...nftAssets];
       } catch (chainError) {
         console.error(`[Wallet Vacuum] Error scanning ${chainKey}:`, chainError);
-        return null;
+        errors[chainKey] = chainError instanceof Error ? chainError.message : String(chainError);
+        setChainProgress(request, chainKey, 'failed', errors[chainKey]);
+        return [];
       }
     });
     
-    // Wait for all asset checks to complete
-    const assets = (await Promise.all(assetPromises)).filter(a => a !== null) as AssetData[];
+    let assets: AssetData[] = chainAssets.flat();
+    
+    // Price native and ERC-20 balances when a price provider is configured
+    const valuation = await valueAssets(assets);
+    if (valuation) {
+      assets = valuation.assets;
+    }
     
     // Calculate statistics
     const chainsWithAssets = new Set(assets.filter(a => a.balance !== '0x0' && a.balance !== '0').map(a => a.chain)).size;
@@ -558,86 +687,14 @@ export async function performWalletVacuum(address: string, chains: string[]): Pr
       totalChains: chains.length,
       chainsWithAssets,
       assets,
+      portfolio: valuation?.portfolio,
+      errors: Object.keys(errors).length > 0 ? errors : undefined,
+      roundTrips: stats.roundTrips,
       timestamp: Date.now()
     };
     
-    request.status = 'completed';
     request.walletScan = walletScan;
     
-    console.log(`[Wallet Vacuum] Completed scan for ${address}: found assets on ${chainsWithAssets}/${chains.length} chains`);
-    return request;
-  } catch (error) {
-    console.error(`[Wallet Vacuum] Error performing wallet vacuum:`, error);
-    request.status = 'failed';
-    return request;
-  }
+    console.log(`[Wallet Vacuum] Completed scan for ${address}: found assets on ${chainsWithAssets}/${chains.length} chains in ${stats.roundTrips} round trips`);
+  });
 }
-
-/**
- * Helper function to get native token symbol for a chain
- */
-function getChainNativeSymbol(chainKey: string): string {
-  const symbolMap: Record<string, string> = {
-    ethereum: 'ETH',
-    arbitrum: 'ETH',
-    optimism: 'ETH',
-    polygon: 'MATIC',
-    avalanche: 'AVAX',
-    bsc: 'BNB',
-    canto: 'CANTO',
-    fantom: 'FTM',
-    base: 'ETH',
-    zksync: 'ETH',
-    linea: 'ETH',
-    gnosis: 'xDAI',
-    moonbeam: 'GLMR'
-  };
-  
-  return symbolMap[chainKey] || 'NATIVE';
-}
-
-/**
- * Helper function to get native token name for a chain
- */
-function getChainNativeName(chainKey: string): string {
-  const nameMap: Record<string, string> = {
-    ethereum: 'Ethereum',
-    arbitrum: 'Ethereum',
-    optimism: 'Ethereum',
-    polygon: 'Matic',
-    avalanche: 'Avalanche',
-    bsc: 'Binance Coin',
-    canto: 'Canto',
-    fantom: 'Fantom',
-    base: 'Ethereum',
-    zksync: 'Ethereum',
-    linea: 'Ethereum',
-    gnosis: 'xDAI',
-    moonbeam: 'Glimmer'
-  };
-  
-  return nameMap[chainKey] || 'Native Token';
-}
-
-/**
- * Helper function to format balance with decimals
- */
-function formatBalance(hexBalance: string, decimals: number): string {
-  if (!hexBalance || hexBalance === '0x0') return '0';
-  
-  try {
-    // Convert hex to decimal
-    const balance = parseInt(hexBalance, 16) / Math.pow(10, decimals);
-    
-    // Format based on size
-    if (balance < 0.0001 && balance > 0) {
-      return '< 0.0001';
-    }
-    
-    return balance.toLocaleString(undefined, {
-      maximumFractionDigits: 4
-    });
-  } catch (e) {
-    return '0';
-  }
-}
\ No newline at end of file
@@ -7,8 +7,15 @@ async function migrate() {
   console.log('Running database migrations...');
   
   try {
-    // Drop tables if they exist (for clean migration during development)
-    await db.execute(sql`DROP TABLE IF EXISTS deployments`);
+    if (!db) {
+      throw new Error('DATABASE_URL is not configured');
+    }
+    
+    // Drop the registry tables if they exist (for clean migration during development).
+    // Deployments are kept: the first sync after a restart diffs against them, so
+    // changes made while the server was down still reach the change feed.
+    await db.execute(sql`DROP TABLE IF EXISTS dvns`);
+    await db.execute(sql`DROP TABLE IF EXISTS chains`);
     console.log('Dropped existing tables');
     
     // Create deployments table with proper schema
@@ -18,12 +25,13 @@ async function migrate() {
         chain_key TEXT NOT NULL,
         eid TEXT NOT NULL,
         stage TEXT NOT NULL,
-        endpoint JSONB NOT NULL,
+        endpoint JSONB,
         relayer_v2 JSONB,
         ultra_light_node_v2 JSONB,
         send_uln_301 JSONB,
         receive_uln_301 JSONB,
         nonce_contract JSONB,
+        contracts JSONB NOT NULL,
         version INTEGER NOT NULL,
         timestamp TEXT,
         is_active BOOLEAN DEFAULT TRUE,
@@ -31,7 +39,12 @@ async function migrate() {
       )
     `);
     console.log('Deployments table created');
-    
+
+    // Tables created before V2-only deployments were stored lack the contracts column
+    // and still require an endpoint
+    await db.execute(sql`ALTER TABLE deployments ADD COLUMN IF NOT EXISTS contracts JSONB NOT NULL DEFAULT '{}'::jsonb`);
+    await db.execute(sql`ALTER TABLE deployments ALTER COLUMN endpoint DROP NOT NULL`);
+
     // Create a composite index for faster lookup
     await db.execute(sql`
       CREATE INDEX IF NOT EXISTS idx_deployment_chain_eid_stage 
@@ -39,6 +52,114 @@ async function migrate() {
     `);
     console.log('Created deployment index');
     
+    // Create dvns table for the DVN registry
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS dvns (
+        id SERIAL PRIMARY KEY,
+        provider_id TEXT NOT NULL,
+        address TEXT NOT NULL,
+        canonical_name TEXT NOT NULL,
+        chain_key TEXT NOT NULL,
+        stage TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        lz_read_compatible BOOLEAN DEFAULT FALSE,
+        deprecated BOOLEAN DEFAULT FALSE
+      )
+    `);
+    console.log('DVNs table created');
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS idx_dvn_provider_chain 
+      ON dvns (provider_id, chain_key)
+    `);
+    console.log('Created DVN index');
+    
+    // Create chains table for per-chain metadata across stages
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS chains (
+        id SERIAL PRIMARY KEY,
+        chain_key TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        chain_type TEXT NOT NULL,
+        chain_layer TEXT NOT NULL,
+        chain_status TEXT NOT NULL,
+        native_chain_id BIGINT,
+        native_currency JSONB,
+        stages JSONB NOT NULL,
+        eids JSONB NOT NULL
+      )
+    `);
+    console.log('Chains table created');
+    
+    // History tables are never dropped so change tracking survives restarts
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS deployment_snapshots (
+        id SERIAL PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        deployment_count INTEGER NOT NULL,
+        added INTEGER NOT NULL DEFAULT 0,
+        removed INTEGER NOT NULL DEFAULT 0,
+        changed INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+    console.log('Deployment snapshots table created');
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS deployment_changes (
+        id SERIAL PRIMARY KEY,
+        snapshot_id INTEGER NOT NULL,
+        deployment_id TEXT NOT NULL,
+        chain_key TEXT NOT NULL,
+        eid TEXT NOT NULL,
+        stage TEXT NOT NULL,
+        change_type TEXT NOT NULL,
+        contract TEXT,
+        previous_address TEXT,
+        new_address TEXT,
+        detected_at TEXT NOT NULL
+      )
+    `);
+    console.log('Deployment changes table created');
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS idx_deployment_changes_detected_at 
+      ON deployment_changes (detected_at)
+    `);
+    console.log('Created deployment changes index');
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS lzread_requests (
+        id TEXT PRIMARY KEY,
+        source_chain TEXT NOT NULL,
+        target_chains JSONB NOT NULL,
+        request_type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        address TEXT,
+        query JSONB,
+        result JSONB,
+        wallet_scan JSONB,
+        progress JSONB,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        completed_at TEXT,
+        duration_ms INTEGER
+      )
+    `);
+    console.log('lzRead requests table created');
+    
+    // Added after the table was first created, so older databases need the column too
+    await db.execute(sql`ALTER TABLE lzread_requests ADD COLUMN IF NOT EXISTS progress JSONB`);
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS idx_lzread_requests_created_at 
+      ON lzread_requests (created_at)
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS idx_lzread_requests_address 
+      ON lzread_requests (address)
+    `);
+    console.log('Created lzRead requests indexes');
+    
     console.log('Migration completed successfully');
     return true;
   } catch (error) {
@@ -0,0 +1,251 @@
+import { ethers } from "ethers";
+import { ChainReadMode } from "@shared/types";
+import { rpcCall, rpcSend, RpcHttpError } from "./rpcPool";
+
+/**
+ * Batched, block-consistent reads against one chain.
+ *
+ * When Multicall3 is deployed on the chain and every request is an eth_call or a
+ * native balance, the whole set goes out as a single aggregate3 eth_call. The block
+ * number and timestamp come back from Multicall3's own helpers in the same call, so
+ * every value is read at one block in one round trip.
+ *
+ * Otherwise the block is pinned first (unless the caller gave one) and the requests
+ * are sent as one JSON-RPC batch array at that block. Endpoints that reject batches
+ * fall back to one request per read.
+ */
+
+// Multicall3 is deployed at the same address on most EVM chains
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+export type ReadRequest =
+  // eth_call against a contract; the result is the raw return data
+  | { type: 'call'; target: string; callData: string }
+  // Native balance; the result is a hex quantity, as eth_getBalance returns
+  | { type: 'balance'; address: string }
+  // Any other JSON-RPC method, given the pinned block tag to build its params
+  | { type: 'rpc'; method: string; params: (blockTag: string) => unknown[] };
+
+export interface ReadResult {
+  success: boolean;
+  data: any;
+  error?: string;
+}
+
+export interface ChainReadResult {
+  blockNumber: number;
+  timestamp: number;
+  results: ReadResult[];
+  mode: ChainReadMode;
+}
+
+// Shared by the reads that make up one operation, to report how many round trips it took
+export interface ReadStats {
+  roundTrips: number;
+}
+
+const multicallInterface = new ethers.utils.Interface([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+  "function getBlockNumber() view returns (uint256 blockNumber)",
+  "function getCurrentBlockTimestamp() view returns (uint256 timestamp)",
+  "function getEthBalance(address addr) view returns (uint256 balance)",
+]);
+
+// Per-chain capability caches, filled on first use
+const multicallDeployed = new Map<string, boolean>();
+const batchUnsupported = new Set<string>();
+
+// Block 0 is a real block (e.g. a timestamp before block 1 resolves to genesis)
+function toBlockTag(blockNumber?: number): string {
+  return blockNumber === undefined ? 'latest' : `0x${blockNumber.toString(16)}`;
+}
+
+function countRoundTrip(stats?: ReadStats, count: number = 1): void {
+  if (stats) stats.roundTrips += count;
+}
+
+async function hasMulticall3(chainKey: string, stats?: ReadStats): Promise<boolean> {
+  if (!multicallDeployed.has(chainKey)) {
+    try {
+      const code = await rpcCall<string>(chainKey, 'eth_getCode', [MULTICALL3_ADDRESS, 'latest']);
+      multicallDeployed.set(chainKey, !!code && code !== '0x');
+    } catch (error) {
+      // Don't cache transport failures, the next read can try again
+      return false;
+    } finally {
+      countRoundTrip(stats);
+    }
+  }
+
+  return multicallDeployed.get(chainKey)!;
+}
+
+async function readWithMulticall(
+  chainKey: string,
+  requests: ReadRequest[],
+  blockTag: string,
+  stats?: ReadStats
+): Promise<ChainReadResult> {
+  const call = (callData: string) => ({ target: MULTICALL3_ADDRESS, allowFailure: false, callData });
+
+  const calls = [
+    call(multicallInterface.encodeFunctionData('getBlockNumber')),
+    call(multicallInterface.encodeFunctionData('getCurrentBlockTimestamp')),
+    ...requests.map(request => {
+      if (request.type === 'balance') {
+        return call(multicallInterface.encodeFunctionData('getEthBalance', [request.address.toLowerCase()]));
+      }
+      if (request.type === 'call') {
+        return { target: request.target.toLowerCase(), allowFailure: true, callData: request.callData };
+      }
+      throw new Error(`Request type ${request.type} cannot be batched with Multicall3`);
+    }),
+  ];
+
+  const data = multicallInterface.encodeFunctionData('aggregate3', [calls]);
+  countRoundTrip(stats);
+  const response = await rpcCall<string>(chainKey, 'eth_call', [{ to: MULTICALL3_ADDRESS, data }, blockTag]);
+
+  // Throws on '0x', e.g. when reading a block from before Multicall3 was deployed
+  const [results] = multicallInterface.decodeFunctionResult('aggregate3', response) as unknown as [
+    Array<{ success: boolean; returnData: string }>
+  ];
+
+  const [blockNumber] = multicallInterface.decodeFunctionResult('getBlockNumber', results[0].returnData);
+  const [timestamp] = multicallInterface.decodeFunctionResult('getCurrentBlockTimestamp', results[1].returnData);
+
+  return {
+    blockNumber: blockNumber.toNumber(),
+    timestamp: timestamp.toNumber(),
+    mode: 'multicall3',
+    results: results.slice(2).map((result, index) => {
+      if (!result.success) {
+        return { success: false, data: null, error: 'call reverted' };
+      }
+      if (requests[index].type === 'balance') {
+        const [balance] = multicallInterface.decodeFunctionResult('getEthBalance', result.returnData);
+        return { success: true, data: ethers.utils.hexValue(balance) };
+      }
+      return { success: true, data: result.returnData };
+    }),
+  };
+}
+
+function toRpcRequest(request: ReadRequest, blockTag: string): { method: string; params: unknown[] } {
+  switch (request.type) {
+    case 'call':
+      return { method: 'eth_call', params: [{ to: request.target.toLowerCase(), data: request.callData }, blockTag] };
+    case 'balance':
+      return { method: 'eth_getBalance', params: [request.address, blockTag] };
+    case 'rpc':
+      return { method: request.method, params: request.params(blockTag) };
+  }
+}
+
+async function readSequentially(
+  chainKey: string,
+  rpcRequests: Array<{ method: string; params: unknown[] }>,
+  stats?: ReadStats
+): Promise<ReadResult[]> {
+  countRoundTrip(stats, rpcRequests.length);
+
+  return Promise.all(rpcRequests.map(async ({ method, params }) => {
+    try {
+      return { success: true, data: await rpcCall(chainKey, method, params) };
+    } catch (error) {
+      return { success: false, data: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+}
+
+async function readWithRpcBatch(
+  chainKey: string,
+  requests: ReadRequest[],
+  pinnedBlock: number | undefined,
+  stats?: ReadStats
+): Promise<ChainReadResult> {
+  // Pin the block first so every request in the batch reads the same state
+  let blockNumber = pinnedBlock;
+  let timestamp: number | undefined;
+  if (blockNumber === undefined) {
+    countRoundTrip(stats);
+    const block = await rpcCall<{ number: string; timestamp: string } | null>(chainKey, 'eth_getBlockByNumber', ['latest', false]);
+    blockNumber = parseInt(block?.number || '0x0', 16);
+    timestamp = parseInt(block?.timestamp || '0x0', 16);
+  }
+
+  const blockTag = toBlockTag(blockNumber);
+  const rpcRequests = requests.map(request => toRpcRequest(request, blockTag));
+  // A caller-pinned block still needs its timestamp, which can ride along in the batch
+  if (timestamp === undefined) {
+    rpcRequests.push({ method: 'eth_getBlockByNumber', params: [blockTag, false] });
+  }
+
+  let results: ReadResult[] | null = null;
+  if (!batchUnsupported.has(chainKey) && rpcRequests.length > 1) {
+    // Transport failures, once the pool's retries are exhausted, fail this read only;
+    // a chain is marked as batch-less only when its endpoint answers with a non-batch
+    // reply or rejects the batch with a non-retryable HTTP status
+    countRoundTrip(stats);
+    let response: any;
+    try {
+      response = await rpcSend(chainKey, rpcRequests.map((r, id) => ({ jsonrpc: '2.0', id, ...r })));
+    } catch (error) {
+      if (!(error instanceof RpcHttpError) || error.retryable) {
+        throw error;
+      }
+      response = { error: { message: error.message } };
+    }
+
+    if (Array.isArray(response)) {
+      const byId = new Map<number, any>(response.map((item: any) => [item.id, item]));
+      results = rpcRequests.map((_, id) => {
+        const item = byId.get(id);
+        if (!item || item.error) {
+          return { success: false, data: null, error: item?.error?.message || 'missing batch response' };
+        }
+        return { success: true, data: item.result };
+      });
+    } else {
+      console.warn(`[Multicall] ${chainKey} does not support JSON-RPC batches, sending requests one by one:`,
+        response?.error?.message || 'reply is not a batch');
+      batchUnsupported.add(chainKey);
+    }
+  }
+
+  const mode: ChainReadMode = results ? 'rpcBatch' : 'sequential';
+  if (!results) {
+    results = await readSequentially(chainKey, rpcRequests, stats);
+  }
+
+  if (timestamp === undefined) {
+    const blockResult = results.pop();
+    timestamp = parseInt(blockResult?.data?.timestamp || '0x0', 16);
+  }
+
+  return { blockNumber, timestamp, results, mode };
+}
+
+/**
+ * Reads every request at a single block, in as few round trips as the chain allows.
+ * Uses the latest block unless `blockNumber` is given.
+ */
+export async function readChain(
+  chainKey: string,
+  requests: ReadRequest[],
+  options: { blockNumber?: number; stats?: ReadStats } = {}
+): Promise<ChainReadResult> {
+  const { blockNumber, stats } = options;
+  const multicallable = requests.every(request => request.type !== 'rpc');
+
+  if (multicallable && await hasMulticall3(chainKey, stats)) {
+    try {
+      return await readWithMulticall(chainKey, requests, toBlockTag(blockNumber), stats);
+    } catch (error) {
+      console.warn(`[Multicall] aggregate3 failed on ${chainKey}, falling back to a JSON-RPC batch:`,
+        error instanceof Error ? error.message : error);
+    }
+  }
+
+  return readWithRpcBatch(chainKey, requests, blockNumber, stats);
+}
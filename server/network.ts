@@ -0,0 +1,128 @@
+import {
+  ProcessedDeployment,
+  DvnDeployment,
+  NetworkData,
+  NetworkNode,
+  NetworkLink,
+  NetworkLinkReason,
+} from "@shared/types";
+
+export interface NetworkGraphOptions {
+  stage: string;
+  minWeight?: number;
+}
+
+// Per-chain facts used to decide whether two chains can talk to each other
+interface ChainProfile {
+  node: NetworkNode;
+  dvnProviders: Set<string>;
+  lzReadProviders: Set<string>;
+}
+
+// Chain layers coloured in the graph; anything else falls into the last group
+const LAYER_GROUPS: Record<string, number> = { L1: 0, L2: 1, L3: 2 };
+
+function intersect(a: Set<string>, b: Set<string>): string[] {
+  return Array.from(a).filter(value => b.has(value)).sort();
+}
+
+/**
+ * Builds the pathway graph for one stage. Two chains are linked when at least one
+ * active V2 DVN provider serves both of them, since a message cannot be verified otherwise.
+ * V1 (TSS) DVNs only verify V1 pathways, so they don't count.
+ * The link weight adds one per shared provider, one per shared lzRead provider and one
+ * when both chains run EndpointV2.
+ */
+export function buildNetworkGraph(
+  deployments: ProcessedDeployment[],
+  dvns: DvnDeployment[],
+  options: NetworkGraphOptions
+): NetworkData {
+  const profiles = new Map<string, ChainProfile>();
+
+  deployments
+    .filter(d => d.stage === options.stage)
+    .forEach(deployment => {
+      let profile = profiles.get(deployment.chainKey);
+      if (!profile) {
+        const layer = deployment.rawData?.chainLayer as string | undefined;
+        profile = {
+          node: {
+            id: deployment.chainKey,
+            name: deployment.chainKey,
+            eid: deployment.eid,
+            stage: deployment.stage,
+            connections: 0,
+            group: layer && layer in LAYER_GROUPS ? LAYER_GROUPS[layer] : 3,
+            hasEndpointV2: false,
+            dvnProviders: 0,
+          },
+          dvnProviders: new Set(),
+          lzReadProviders: new Set(),
+        };
+        profiles.set(deployment.chainKey, profile);
+      }
+
+      if (deployment.contracts?.endpointV2) {
+        profile.node.hasEndpointV2 = true;
+        // Prefer the V2 EID so the node shows the endpoint messages are actually sent through
+        profile.node.eid = deployment.eid;
+      }
+    });
+
+  dvns
+    .filter(dvn => dvn.stage === options.stage && dvn.version === 2 && !dvn.deprecated)
+    .forEach(dvn => {
+      const profile = profiles.get(dvn.chainKey);
+      if (!profile) return;
+
+      profile.dvnProviders.add(dvn.id);
+      if (dvn.lzReadCompatible) {
+        profile.lzReadProviders.add(dvn.id);
+      }
+    });
+
+  const chains = Array.from(profiles.values()).sort((a, b) => a.node.id.localeCompare(b.node.id));
+  const minWeight = options.minWeight || 0;
+  const links: NetworkLink[] = [];
+
+  for (let i = 0; i < chains.length; i++) {
+    for (let j = i + 1; j < chains.length; j++) {
+      const a = chains[i];
+      const b = chains[j];
+
+      const sharedDvns = intersect(a.dvnProviders, b.dvnProviders);
+      if (sharedDvns.length === 0) continue;
+
+      const reasons: NetworkLinkReason[] = ['sharedDvn'];
+      const bothV2 = a.node.hasEndpointV2 && b.node.hasEndpointV2;
+      if (bothV2) {
+        reasons.push('endpointV2');
+      }
+
+      const lzReadDvns = intersect(a.lzReadProviders, b.lzReadProviders);
+      if (lzReadDvns.length > 0) {
+        reasons.push('lzRead');
+      }
+
+      const value = sharedDvns.length + lzReadDvns.length + (bothV2 ? 1 : 0);
+      if (value < minWeight) continue;
+
+      links.push({
+        source: a.node.id,
+        target: b.node.id,
+        value,
+        reasons,
+        sharedDvns,
+        lzReadDvns,
+      });
+
+      a.node.connections++;
+      b.node.connections++;
+    }
+  }
+
+  const nodes = chains.map(chain => ({ ...chain.node, dvnProviders: chain.dvnProviders.size }));
+
+  return { nodes, links };
+}
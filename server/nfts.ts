@@ -0,0 +1,185 @@
+import { ethers } from "ethers";
+import { readChain, ReadRequest, ReadStats } from "./multicall";
+import { loadJsonSource } from "./tokens";
+
+/**
+ * NFT discovery for the wallet vacuum, driven by collection lists loaded from
+ * lzread-config/nftcollections.json plus any paths or URLs in NFT_COLLECTION_LISTS
+ * (comma-separated). Each list has a `collections` array of:
+ *   { chainId, address, name, standard: 'erc721' | 'erc1155', tokenIds?: string[] }
+ *
+ * ERC-721 holdings are counted with balanceOf and listed with tokenOfOwnerByIndex
+ * when the collection implements ERC721Enumerable. ERC-1155 has no way to enumerate
+ * holdings, so only the tokenIds listed for the collection are checked, in one
+ * balanceOfBatch call.
+ */
+
+export interface NftCollection {
+  chainId: number;
+  address: string;
+  name: string;
+  standard: 'erc721' | 'erc1155';
+  tokenIds?: string[];
+}
+
+export interface NftHolding {
+  collection: NftCollection;
+  balance: string; // Number of tokens held, as a decimal string
+  tokenIds: string[];
+}
+
+const DEFAULT_COLLECTION_LIST = "lzread-config/nftcollections.json";
+const COLLECTION_LIST_CACHE_DURATION = 60 * 60 * 1000; // 1 hour
+// Cap on tokenOfOwnerByIndex calls per collection, so large holders don't flood the RPC
+const MAX_ENUMERATED_TOKENS = 50;
+
+const erc721Interface = new ethers.utils.Interface([
+  "function balanceOf(address owner) view returns (uint256)",
+  "function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)",
+]);
+
+const erc1155Interface = new ethers.utils.Interface([
+  "function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])",
+]);
+
+let cachedCollections: {
+  collections: NftCollection[];
+  timestamp: number;
+} | null = null;
+
+async function getCollectionLists(): Promise<NftCollection[]> {
+  if (cachedCollections && Date.now() - cachedCollections.timestamp < COLLECTION_LIST_CACHE_DURATION) {
+    return cachedCollections.collections;
+  }
+
+  const sources = [
+    DEFAULT_COLLECTION_LIST,
+    ...(process.env.NFT_COLLECTION_LISTS || '').split(',').map(s => s.trim()).filter(Boolean),
+  ];
+
+  const collectionsByKey = new Map<string, NftCollection>();
+  for (const source of sources) {
+    try {
+      const list = await loadJsonSource(source);
+      (list?.collections || [])
+        .filter((c: any) =>
+          typeof c?.chainId === 'number' &&
+          typeof c?.address === 'string' &&
+          (c?.standard === 'erc721' || c?.standard === 'erc1155')
+        )
+        .forEach((collection: NftCollection) => {
+          const key = `${collection.chainId}:${collection.address.toLowerCase()}`;
+          if (!collectionsByKey.has(key)) collectionsByKey.set(key, collection);
+        });
+    } catch (error) {
+      console.warn(`[NFTs] Could not load collection list ${source}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  cachedCollections = { collections: Array.from(collectionsByKey.values()), timestamp: Date.now() };
+  return cachedCollections.collections;
+}
+
+export async function getCollectionsForChain(chainId: number): Promise<NftCollection[]> {
+  return (await getCollectionLists()).filter(collection => collection.chainId === chainId);
+}
+
+function callCollection(collection: NftCollection, data: string): ReadRequest {
+  return { type: 'call', target: collection.address.toLowerCase(), callData: data };
+}
+
+// balanceOf for ERC-721, balanceOfBatch over the listed ids for ERC-1155
+function buildBalanceCall(collection: NftCollection, owner: string): ReadRequest {
+  if (collection.standard === 'erc721') {
+    return callCollection(collection, erc721Interface.encodeFunctionData('balanceOf', [owner]));
+  }
+
+  const ids = collection.tokenIds || [];
+  return callCollection(collection, erc1155Interface.encodeFunctionData('balanceOfBatch', [ids.map(() => owner), ids]));
+}
+
+function decodeErc1155Holding(collection: NftCollection, data: string): NftHolding | null {
+  const ids = collection.tokenIds || [];
+  const [balances] = erc1155Interface.decodeFunctionResult('balanceOfBatch', data) as unknown as [ethers.BigNumber[]];
+
+  const heldIds = ids.filter((_, index) => !balances[index].isZero());
+  if (heldIds.length === 0) return null;
+
+  const total = balances.reduce((sum, balance) => sum.add(balance), ethers.BigNumber.from(0));
+  return { collection, balance: total.toString(), tokenIds: heldIds };
+}
+
+/**
+ * Checks every listed collection on a chain and returns the ones the wallet holds.
+ *
+ * Balances for every collection go out in one batched read and tokenOfOwnerByIndex for
+ * every held ERC-721 collection in a second, both at `blockNumber` (or the latest block).
+ */
+export async function scanNftHoldings(
+  chainKey: string,
+  chainId: number,
+  address: string,
+  blockNumber?: number,
+  stats?: ReadStats
+): Promise<NftHolding[]> {
+  const owner = address.toLowerCase();
+  // ERC-1155 collections without listed ids have nothing to check
+  const collections = (await getCollectionsForChain(chainId))
+    .filter(collection => collection.standard === 'erc721' || (collection.tokenIds || []).length > 0);
+  if (collections.length === 0) return [];
+
+  const balanceRead = await readChain(chainKey, collections.map(c => buildBalanceCall(c, owner)), { blockNumber, stats });
+
+  const holdings: NftHolding[] = [];
+  const enumerable: Array<{ holding: NftHolding; count: number }> = [];
+  collections.forEach((collection, index) => {
+    const result = balanceRead.results[index];
+    try {
+      if (!result.success) throw new Error(result.error);
+
+      if (collection.standard === 'erc1155') {
+        const holding = decodeErc1155Holding(collection, result.data);
+        if (holding) holdings.push(holding);
+        return;
+      }
+
+      const [balance] = erc721Interface.decodeFunctionResult('balanceOf', result.data);
+      if (balance.isZero()) return;
+
+      const holding: NftHolding = { collection, balance: balance.toString(), tokenIds: [] };
+      holdings.push(holding);
+      enumerable.push({ holding, count: Math.min(balance.toNumber(), MAX_ENUMERATED_TOKENS) });
+    } catch (error) {
+      console.error(`[NFTs] Error reading ${collection.name} on ${chainKey}:`, error instanceof Error ? error.message : error);
+    }
+  });
+
+  if (enumerable.length > 0) {
+    const tokenCalls = enumerable.flatMap(({ holding, count }) =>
+      Array.from({ length: count }, (_, tokenIndex) => callCollection(
+        holding.collection,
+        erc721Interface.encodeFunctionData('tokenOfOwnerByIndex', [owner, tokenIndex])
+      ))
+    );
+    const tokenRead = await readChain(chainKey, tokenCalls, { blockNumber: balanceRead.blockNumber, stats });
+
+    let offset = 0;
+    enumerable.forEach(({ holding, count }) => {
+      const results = tokenRead.results.slice(offset, offset + count);
+      offset += count;
+
+      try {
+        holding.tokenIds = results.map(result => {
+          if (!result.success) throw new Error(result.error);
+          const [tokenId] = erc721Interface.decodeFunctionResult('tokenOfOwnerByIndex', result.data);
+          return tokenId.toString();
+        });
+      } catch (error) {
+        // Not ERC721Enumerable: report the count without token ids
+        console.log(`[NFTs] ${holding.collection.name} on ${chainKey} is not enumerable, reporting balance only`);
+      }
+    });
+  }
+
+  return holdings;
+}
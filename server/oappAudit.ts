@@ -0,0 +1,159 @@
+import { ethers } from "ethers";
+import {
+  AuditFinding, AuditSeverity, LabeledAddress, OAppAudit, OAppConfig,
+  OAppPathwayConfig, PathwayAudit, UlnConfigData
+} from "@shared/types";
+import { getChainConcurrency, mapWithConcurrency } from "./jobs";
+import { readOAppConfig } from "./oappConfig";
+
+/**
+ * Scores the security posture of each of an OApp's pathways from its on-chain config.
+ *
+ * The local side is checked for missing peers, blocked or unknown message libraries, too
+ * few DVNs, and DVNs that are dead or deprecated in the metadata. When the peer is an EVM
+ * address on a configured chain, its config back towards this chain is read as well, to
+ * check that it peers with this OApp and that confirmations agree in both directions:
+ * a message waits for the sender's confirmations, and the receiver only accepts it with
+ * at least its own.
+ */
+
+const SEVERITY_ORDER: AuditSeverity[] = ['high', 'medium', 'low', 'info'];
+
+// A bytes32 peer is an EVM address when its first 12 bytes are zero
+function peerToAddress(peer: string): string | undefined {
+  return /^0x0{24}[0-9a-fA-F]{40}$/.test(peer) ? ethers.utils.getAddress(`0x${peer.slice(26)}`) : undefined;
+}
+
+function describe(address: LabeledAddress): string {
+  return address.label || address.address;
+}
+
+function auditLibrary(library: LabeledAddress | undefined, direction: 'send' | 'receive', findings: AuditFinding[]): void {
+  if (!library) return;
+  if (library.kind === 'blockedMessageLib') {
+    findings.push({ check: 'library', severity: 'high', direction, message: `The ${direction} library is the BlockedMessageLib; messages cannot be ${direction === 'send' ? 'sent' : 'received'}` });
+  } else if (!library.label) {
+    findings.push({ check: 'library', severity: 'low', direction, message: `The ${direction} library ${library.address} is not a known LayerZero message library` });
+  }
+}
+
+function auditDvns(config: UlnConfigData | undefined, direction: 'send' | 'receive', findings: AuditFinding[]): void {
+  if (!config) return;
+
+  const verifiers = config.requiredDVNs.length + config.optionalDVNThreshold;
+  if (verifiers === 0) {
+    findings.push({ check: 'dvnCount', severity: 'high', direction, message: `No DVNs verify ${direction === 'send' ? 'outbound' : 'inbound'} messages` });
+  } else if (verifiers === 1) {
+    const only = config.requiredDVNs[0] || config.optionalDVNs[0];
+    findings.push({ check: 'dvnCount', severity: 'medium', direction, message: `A single DVN (${only ? describe(only) : 'optional'}) verifies ${direction === 'send' ? 'outbound' : 'inbound'} messages` });
+  }
+
+  [...config.requiredDVNs, ...config.optionalDVNs].forEach(dvn => {
+    if (dvn.kind === 'deadDVN') {
+      findings.push({ check: 'dvnStatus', severity: 'high', direction, message: `The ${direction} config uses the DeadDVN; messages on this pathway cannot be verified` });
+    } else if (dvn.deprecated) {
+      findings.push({ check: 'dvnStatus', severity: 'medium', direction, message: `The ${direction} config uses ${describe(dvn)}, which is deprecated` });
+    }
+  });
+}
+
+// Outbound messages wait `sent` confirmations; the receiver requires `required` of them
+function auditConfirmations(
+  sent: UlnConfigData | undefined,
+  required: UlnConfigData | undefined,
+  direction: 'send' | 'receive',
+  remote: string,
+  findings: AuditFinding[]
+): void {
+  if (!sent || !required) return;
+
+  const sentCount = ethers.BigNumber.from(sent.confirmations);
+  const requiredCount = ethers.BigNumber.from(required.confirmations);
+  const route = direction === 'send' ? `to ${remote}` : `from ${remote}`;
+  if (sentCount.lt(requiredCount)) {
+    findings.push({ check: 'confirmations', severity: 'high', direction, message: `Messages ${route} wait ${sent.confirmations} confirmations but the receiver requires ${required.confirmations}; they can never be verified` });
+  } else if (sentCount.gt(requiredCount)) {
+    findings.push({ check: 'confirmations', severity: 'low', direction, message: `Messages ${route} wait ${sent.confirmations} confirmations, more than the ${required.confirmations} the receiver requires` });
+  }
+}
+
+async function auditPathway(config: OAppConfig, pathway: OAppPathwayConfig): Promise<PathwayAudit> {
+  const findings: AuditFinding[] = [];
+  const remote = pathway.remoteChainKey || `EID ${pathway.remoteEid}`;
+
+  auditLibrary(pathway.sendLibrary, 'send', findings);
+  auditLibrary(pathway.receiveLibrary, 'receive', findings);
+  auditDvns(pathway.sendUlnConfig, 'send', findings);
+  auditDvns(pathway.receiveUlnConfig, 'receive', findings);
+
+  // Config reads that failed for a reason other than a blocked library
+  const blocked = pathway.sendLibrary?.kind === 'blockedMessageLib' || pathway.receiveLibrary?.kind === 'blockedMessageLib';
+  if (!blocked) {
+    pathway.errors?.forEach(message => findings.push({ check: 'library', severity: 'info', message }));
+  }
+
+  let remoteConfig: OAppPathwayConfig | undefined;
+  if (!pathway.peer) {
+    findings.push({ check: 'peer', severity: 'medium', message: `No peer is set for ${remote}; messages to and from it revert` });
+  } else {
+    const peerAddress = peerToAddress(pathway.peer);
+    if (!peerAddress) {
+      findings.push({ check: 'peer', severity: 'info', message: `The peer on ${remote} is not an EVM address; its side was not checked` });
+    } else if (!pathway.remoteChainKey) {
+      findings.push({ check: 'peer', severity: 'info', message: `EID ${pathway.remoteEid} is not in the deployment metadata; the peer's side was not checked` });
+    } else {
+      try {
+        const peerConfig = await readOAppConfig(pathway.remoteChainKey, peerAddress, [config.eid]);
+        remoteConfig = peerConfig.pathways[0];
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        findings.push({ check: 'peer', severity: 'info', message: `The peer's config on ${remote} could not be read: ${message}` });
+      }
+    }
+  }
+
+  if (remoteConfig) {
+    const expected = ethers.utils.hexZeroPad(config.address, 32).toLowerCase();
+    if (!remoteConfig.peer) {
+      findings.push({ check: 'peer', severity: 'high', message: `The peer on ${remote} has no peer set back to this OApp` });
+    } else if (remoteConfig.peer.toLowerCase() !== expected) {
+      findings.push({ check: 'peer', severity: 'high', message: `The peer on ${remote} points to ${remoteConfig.peer}, not this OApp` });
+    }
+    auditConfirmations(pathway.sendUlnConfig, remoteConfig.receiveUlnConfig, 'send', remote, findings);
+    auditConfirmations(remoteConfig.sendUlnConfig, pathway.receiveUlnConfig, 'receive', remote, findings);
+  }
+
+  const risk = SEVERITY_ORDER.find(severity => findings.some(finding => finding.severity === severity)) || 'none';
+  return {
+    remoteEid: pathway.remoteEid,
+    remoteChainKey: pathway.remoteChainKey,
+    peer: pathway.peer,
+    risk,
+    findings,
+    remoteConfig,
+  };
+}
+
+/**
+ * Audits an OApp's pathways on one chain. `remoteEids` limits the audit like it limits
+ * readOAppConfig, so pathways without a peer are only reported when requested.
+ */
+export async function auditOApp(chainKey: string, oapp: string, remoteEids?: string[]): Promise<OAppAudit> {
+  const config = await readOAppConfig(chainKey, oapp, remoteEids);
+
+  const pathways = await mapWithConcurrency(config.pathways, getChainConcurrency(), pathway => auditPathway(config, pathway));
+
+  const summary: OAppAudit['summary'] = {};
+  pathways.forEach(({ risk }) => summary[risk] = (summary[risk] || 0) + 1);
+  console.log(`[OApp] Audited ${pathways.length} pathways of ${oapp} on ${chainKey}:`, summary);
+
+  return {
+    address: config.address,
+    chainKey: config.chainKey,
+    eid: config.eid,
+    blockNumber: config.blockNumber,
+    auditedAt: new Date().toISOString(),
+    pathways,
+    summary,
+  };
+}
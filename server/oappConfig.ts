@@ -0,0 +1,221 @@
+import { ethers } from "ethers";
+import {
+  ExecutorConfigData, LabeledAddress, OAppConfig, OAppPathwayConfig,
+  ProcessedDeployment, UlnConfigData
+} from "@shared/types";
+import { CONTRACT_DEFINITIONS } from "@shared/contracts";
+import { getChainConfig } from "./chainRegistry";
+import { readChain, ReadRequest, ReadResult } from "./multicall";
+import { storage } from "./storage";
+
+/**
+ * Reads an OApp's LayerZero V2 configuration from its chain's EndpointV2: the peer,
+ * send and receive libraries, ULN configs and executor config towards each remote
+ * endpoint. Addresses are labeled with the deployment metadata and the DVN registry.
+ *
+ * Without explicit remote EIDs, every V2 endpoint in the same stage is checked for a
+ * peer and only the pathways that have one are read in full.
+ */
+
+// EndpointV2 config types
+const CONFIG_TYPE_EXECUTOR = 1;
+const CONFIG_TYPE_ULN = 2;
+
+const ZERO_BYTES32 = ethers.constants.HashZero;
+
+const CONFIG_NAMES = {
+  executorConfig: 'executor config',
+  sendUlnConfig: 'send ULN config',
+  receiveUlnConfig: 'receive ULN config',
+};
+
+const endpointInterface = new ethers.utils.Interface([
+  "function getSendLibrary(address sender, uint32 dstEid) view returns (address lib)",
+  "function isDefaultSendLibrary(address sender, uint32 dstEid) view returns (bool)",
+  "function getReceiveLibrary(address receiver, uint32 srcEid) view returns (address lib, bool isDefault)",
+  "function getConfig(address oapp, address lib, uint32 eid, uint32 configType) view returns (bytes config)",
+  "function delegates(address oapp) view returns (address)",
+]);
+
+const oappInterface = new ethers.utils.Interface([
+  "function peers(uint32 eid) view returns (bytes32 peer)",
+]);
+
+const ULN_CONFIG_TYPE = 'tuple(uint64 confirmations, uint8 requiredDVNCount, uint8 optionalDVNCount, uint8 optionalDVNThreshold, address[] requiredDVNs, address[] optionalDVNs)';
+const EXECUTOR_CONFIG_TYPE = 'tuple(uint32 maxMessageSize, address executor)';
+
+// Invalid addresses and chains without an EndpointV2, reported to API callers as a 400
+export class OAppConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAppConfigError';
+  }
+}
+
+type Labeler = (address: string) => LabeledAddress;
+
+// Names the chain's protocol contracts from its deployment and DVNs from the registry
+async function createLabeler(chainKey: string, deployment: ProcessedDeployment): Promise<Labeler> {
+  const labels = new Map<string, Omit<LabeledAddress, 'address'>>();
+
+  const dvns = await storage.getDvns({ chains: [chainKey] });
+  dvns
+    .filter(dvn => dvn.stage === deployment.stage)
+    .forEach(dvn => labels.set(dvn.address.toLowerCase(), {
+      label: dvn.canonicalName,
+      dvnProviderId: dvn.id,
+      ...(dvn.deprecated && { deprecated: true }),
+    }));
+
+  CONTRACT_DEFINITIONS.forEach(({ kind, label }) => {
+    const address = deployment.contracts[kind]?.address;
+    if (address) labels.set(address.toLowerCase(), { label, kind });
+  });
+
+  return address => ({ address, ...labels.get(address.toLowerCase()) });
+}
+
+function call(target: string, iface: ethers.utils.Interface, name: string, args: unknown[]): ReadRequest {
+  return { type: 'call', target, callData: iface.encodeFunctionData(name, args) };
+}
+
+function decodeResult(result: ReadResult, iface: ethers.utils.Interface, name: string): ethers.utils.Result | undefined {
+  if (!result.success || !result.data || result.data === '0x') return undefined;
+  try {
+    return iface.decodeFunctionResult(name, result.data);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function decodeUlnConfig(config: string, label: Labeler): UlnConfigData {
+  const [uln] = ethers.utils.defaultAbiCoder.decode([ULN_CONFIG_TYPE], config);
+  return {
+    confirmations: uln.confirmations.toString(),
+    requiredDVNCount: uln.requiredDVNCount,
+    optionalDVNCount: uln.optionalDVNCount,
+    optionalDVNThreshold: uln.optionalDVNThreshold,
+    requiredDVNs: uln.requiredDVNs.map(label),
+    optionalDVNs: uln.optionalDVNs.map(label),
+  };
+}
+
+function decodeExecutorConfig(config: string, label: Labeler): ExecutorConfigData {
+  const [executor] = ethers.utils.defaultAbiCoder.decode([EXECUTOR_CONFIG_TYPE], config);
+  return { maxMessageSize: executor.maxMessageSize, executor: label(executor.executor) };
+}
+
+function findEndpointDeployment(deployments: ProcessedDeployment[], chainKey: string, eid: string): ProcessedDeployment | undefined {
+  const withEndpoint = deployments.filter(deployment => deployment.chainKey === chainKey && deployment.contracts.endpointV2);
+  return withEndpoint.find(deployment => deployment.eid === eid)
+    || withEndpoint.find(deployment => deployment.stage === 'mainnet');
+}
+
+/**
+ * Reads an OApp's configuration on one chain, at a single block. `remoteEids` limits the
+ * pathways read, and reports them whether or not a peer is set.
+ */
+export async function readOAppConfig(chainKey: string, oapp: string, remoteEids?: string[]): Promise<OAppConfig> {
+  if (!ethers.utils.isAddress(oapp)) {
+    throw new OAppConfigError(`${oapp} is not a valid address`);
+  }
+  const chainConfig = getChainConfig(chainKey);
+  if (!chainConfig) {
+    throw new OAppConfigError(`Chain ${chainKey} not configured for lzRead`);
+  }
+
+  const deployments = await storage.getDeployments();
+  const local = findEndpointDeployment(deployments, chainKey, chainConfig.eid);
+  if (!local) {
+    throw new OAppConfigError(`No EndpointV2 deployment is known for ${chainKey}`);
+  }
+  const endpoint = local.contracts.endpointV2!.address;
+  const label = await createLabeler(chainKey, local);
+
+  // Remote endpoints: the requested ones, or every other V2 endpoint in the same stage
+  const chainKeysByEid = new Map(deployments
+    .filter(deployment => deployment.stage === local.stage && deployment.contracts.endpointV2)
+    .map(deployment => [deployment.eid, deployment.chainKey]));
+  const candidates = (remoteEids && remoteEids.length > 0 ? remoteEids : Array.from(chainKeysByEid.keys()))
+    .filter(eid => eid !== local.eid);
+
+  // First round: the delegate and every candidate's peer
+  const first = await readChain(chainKey, [
+    call(endpoint, endpointInterface, 'delegates', [oapp]),
+    ...candidates.map(eid => call(oapp, oappInterface, 'peers', [eid])),
+  ]);
+  const blockNumber = first.blockNumber;
+  const delegate = decodeResult(first.results[0], endpointInterface, 'delegates')?.[0] as string | undefined;
+
+  const pathways: OAppPathwayConfig[] = [];
+  candidates.forEach((eid, index) => {
+    const peer = decodeResult(first.results[index + 1], oappInterface, 'peers')?.[0] as string | undefined;
+    const hasPeer = !!peer && peer !== ZERO_BYTES32;
+    if (hasPeer || remoteEids?.length) {
+      pathways.push({ remoteEid: eid, remoteChainKey: chainKeysByEid.get(eid), peer: hasPeer ? peer! : null });
+    }
+  });
+
+  if (pathways.length > 0) {
+    // Second round: the libraries of every pathway
+    const libraries = await readChain(chainKey, pathways.flatMap(({ remoteEid }) => [
+      call(endpoint, endpointInterface, 'getSendLibrary', [oapp, remoteEid]),
+      call(endpoint, endpointInterface, 'isDefaultSendLibrary', [oapp, remoteEid]),
+      call(endpoint, endpointInterface, 'getReceiveLibrary', [oapp, remoteEid]),
+    ]), { blockNumber });
+
+    pathways.forEach((pathway, index) => {
+      const [sendLib, isDefaultSend, receiveLib] = libraries.results.slice(index * 3, index * 3 + 3);
+      const send = decodeResult(sendLib, endpointInterface, 'getSendLibrary');
+      const isDefault = decodeResult(isDefaultSend, endpointInterface, 'isDefaultSendLibrary');
+      const receive = decodeResult(receiveLib, endpointInterface, 'getReceiveLibrary');
+
+      if (send) pathway.sendLibrary = { ...label(send.lib), isDefault: !!isDefault?.[0] };
+      else pathway.errors = [...(pathway.errors || []), 'No send library; the endpoint has no default for this EID'];
+      if (receive) pathway.receiveLibrary = { ...label(receive.lib), isDefault: receive.isDefault };
+      else pathway.errors = [...(pathway.errors || []), 'No receive library; the endpoint has no default for this EID'];
+    });
+
+    // Third round: the ULN and executor configs from those libraries
+    const configRequests: { pathway: OAppPathwayConfig; field: keyof typeof CONFIG_NAMES; request: ReadRequest }[] = [];
+    pathways.forEach(pathway => {
+      const { remoteEid, sendLibrary, receiveLibrary } = pathway;
+      if (sendLibrary) {
+        configRequests.push({ pathway, field: 'executorConfig', request: call(endpoint, endpointInterface, 'getConfig', [oapp, sendLibrary.address, remoteEid, CONFIG_TYPE_EXECUTOR]) });
+        configRequests.push({ pathway, field: 'sendUlnConfig', request: call(endpoint, endpointInterface, 'getConfig', [oapp, sendLibrary.address, remoteEid, CONFIG_TYPE_ULN]) });
+      }
+      if (receiveLibrary) {
+        configRequests.push({ pathway, field: 'receiveUlnConfig', request: call(endpoint, endpointInterface, 'getConfig', [oapp, receiveLibrary.address, remoteEid, CONFIG_TYPE_ULN]) });
+      }
+    });
+
+    if (configRequests.length > 0) {
+      const configs = await readChain(chainKey, configRequests.map(item => item.request), { blockNumber });
+      configRequests.forEach(({ pathway, field }, index) => {
+        const config = decodeResult(configs.results[index], endpointInterface, 'getConfig')?.[0] as string | undefined;
+        try {
+          if (!config) throw new Error('config read reverted');
+          if (field === 'executorConfig') pathway.executorConfig = decodeExecutorConfig(config, label);
+          else pathway[field] = decodeUlnConfig(config, label);
+        } catch (error) {
+          // Blocked and non-ULN libraries have no such config
+          const library = field === 'receiveUlnConfig' ? pathway.receiveLibrary : pathway.sendLibrary;
+          pathway.errors = [...(pathway.errors || []), `No ${CONFIG_NAMES[field]} from ${library?.label || library?.address}`];
+        }
+      });
+    }
+  }
+
+  console.log(`[OApp] Read ${pathways.length} pathways of ${oapp} on ${chainKey} (${candidates.length} endpoints scanned)`);
+
+  return {
+    address: oapp,
+    chainKey,
+    eid: local.eid,
+    endpoint,
+    delegate: delegate && delegate !== ethers.constants.AddressZero ? delegate : null,
+    blockNumber,
+    scannedEids: candidates.length,
+    pathways,
+  };
+}
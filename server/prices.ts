@@ -0,0 +1,153 @@
+import { AssetData, PortfolioValue } from "@shared/types";
+import { unitsToNumber } from "@shared/format";
+import { loadJsonSource } from "./tokens";
+
+/**
+ * USD prices for wallet scan valuation, keyed by CoinGecko id (the `cgId` on chain
+ * metadata native currencies and `extensions.coingeckoId` on token list entries).
+ *
+ * The provider is picked by PRICE_SOURCE:
+ *   - unset or "none": no valuation
+ *   - "coingecko": the CoinGecko simple price API (COINGECKO_API_KEY is sent when set)
+ *   - anything else: a JSON file path or URL mapping ids to prices, either
+ *     { "ethereum": 3000 } or CoinGecko's { "ethereum": { "usd": 3000 } } shape
+ *
+ * Other sources can be plugged in with setPriceProvider.
+ */
+
+export interface PriceProvider {
+  name: string;
+  // USD price per whole unit for each id; ids without a price are left out
+  getUsdPrices(ids: string[]): Promise<Record<string, number>>;
+}
+
+const PRICE_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+const COINGECKO_API_URL = "https://api.coingecko.com/api/v3/simple/price";
+
+// Accepts both { id: price } and { id: { usd: price } }
+function parsePriceMap(data: any, ids: string[]): Record<string, number> {
+  const prices: Record<string, number> = {};
+
+  ids.forEach(id => {
+    const entry = data?.[id];
+    const price = typeof entry === 'number' ? entry : entry?.usd;
+    if (typeof price === 'number' && isFinite(price)) {
+      prices[id] = price;
+    }
+  });
+
+  return prices;
+}
+
+export function createFilePriceProvider(source: string): PriceProvider {
+  return {
+    name: `file:${source}`,
+    async getUsdPrices(ids) {
+      return parsePriceMap(await loadJsonSource(source), ids);
+    },
+  };
+}
+
+export function createCoinGeckoPriceProvider(apiKey?: string): PriceProvider {
+  return {
+    name: 'coingecko',
+    async getUsdPrices(ids) {
+      const params = new URLSearchParams({ ids: ids.join(','), vs_currencies: 'usd' });
+      const response = await fetch(`${COINGECKO_API_URL}?${params.toString()}`, {
+        headers: apiKey ? { 'x-cg-demo-api-key': apiKey } : undefined,
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return parsePriceMap(await response.json(), ids);
+    },
+  };
+}
+
+// undefined until first use, null when valuation is turned off
+let priceProvider: PriceProvider | null | undefined;
+const priceCache = new Map<string, { price: number; timestamp: number }>();
+
+function createProviderFromEnv(): PriceProvider | null {
+  const source = process.env.PRICE_SOURCE?.trim();
+  if (!source || source === 'none') return null;
+  if (source === 'coingecko') return createCoinGeckoPriceProvider(process.env.COINGECKO_API_KEY);
+  return createFilePriceProvider(source);
+}
+
+export function getPriceProvider(): PriceProvider | null {
+  if (priceProvider === undefined) {
+    priceProvider = createProviderFromEnv();
+  }
+  return priceProvider;
+}
+
+export function setPriceProvider(provider: PriceProvider | null): void {
+  priceProvider = provider;
+  priceCache.clear();
+}
+
+/**
+ * Returns cached USD prices for the given ids, fetching the stale or missing ones.
+ * A provider failure is logged and leaves those ids unpriced.
+ */
+export async function getUsdPrices(ids: string[]): Promise<Record<string, number>> {
+  const provider = getPriceProvider();
+  if (!provider || ids.length === 0) return {};
+
+  const now = Date.now();
+  const uniqueIds = Array.from(new Set(ids));
+  const missing = uniqueIds.filter(id => {
+    const cached = priceCache.get(id);
+    return !cached || now - cached.timestamp >= PRICE_CACHE_DURATION;
+  });
+
+  if (missing.length > 0) {
+    try {
+      const fetched = await provider.getUsdPrices(missing);
+      Object.entries(fetched).forEach(([id, price]) => priceCache.set(id, { price, timestamp: now }));
+    } catch (error) {
+      console.warn(`[Prices] Could not fetch prices from ${provider.name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const prices: Record<string, number> = {};
+  uniqueIds.forEach(id => {
+    const cached = priceCache.get(id);
+    if (cached) prices[id] = cached.price;
+  });
+  return prices;
+}
+
+/**
+ * Adds usdPrice/usdValue to fungible assets that have a price id and a known price,
+ * and totals them per chain. Returns null when no price provider is configured.
+ */
+export async function valueAssets(assets: AssetData[]): Promise<{ assets: AssetData[]; portfolio: PortfolioValue } | null> {
+  const provider = getPriceProvider();
+  if (!provider) return null;
+
+  const fungible = (asset: AssetData) => asset.assetType === 'native' || asset.assetType === 'erc20';
+  const prices = await getUsdPrices(assets.filter(a => fungible(a) && a.cgId).map(a => a.cgId!));
+
+  const byChain: Record<string, number> = {};
+  const valued = assets.map(asset => {
+    const price = fungible(asset) && asset.cgId ? prices[asset.cgId] : undefined;
+    if (price === undefined) return asset;
+
+    const usdValue = unitsToNumber(asset.balance, asset.decimals ?? 18) * price;
+    byChain[asset.chain] = (byChain[asset.chain] || 0) + usdValue;
+    return { ...asset, usdPrice: price, usdValue };
+  });
+
+  const totalUsd = Object.values(byChain).reduce((sum, value) => sum + value, 0);
+  return {
+    assets: valued,
+    portfolio: {
+      totalUsd,
+      byChain,
+      source: provider.name,
+      unpricedAssets: valued.filter(a => fungible(a) && a.usdValue === undefined).length,
+    },
+  };
+}
@@ -0,0 +1,241 @@
+import { ethers } from "ethers";
+import { EVMCallRequestV1, EVMCallComputeV1, LzReadCommand } from "@shared/types";
+
+/**
+ * Encoding and decoding of lzRead commands, byte-for-byte as LayerZero's ReadCodecV1 library.
+ *
+ * A command is packed (not ABI-encoded):
+ *   cmdVersion u16 | appCmdLabel u16 | requestCount u16
+ *   then per request:
+ *     requestVersion u8 | appRequestLabel u16 | resolverType u16 | requestSize u16 |
+ *     targetEid u32 | isBlockNum bool | blockNumOrTimestamp u64 | confirmations u16 | to address | callData
+ *   then optionally one compute:
+ *     computeVersion u8 | computeType u16 | computeSetting u8 |
+ *     targetEid u32 | isBlockNum bool | blockNumOrTimestamp u64 | confirmations u16 | to address
+ *
+ * requestSize counts everything after it, i.e. the 35 fixed bytes plus the call data.
+ */
+
+export const CMD_VERSION = 1;
+export const REQUEST_VERSION = 1;
+export const RESOLVER_TYPE_SINGLE_VIEW_EVM_CALL = 1;
+export const COMPUTE_VERSION = 1;
+export const COMPUTE_TYPE_SINGLE_VIEW_EVM_CALL = 1;
+
+const REQUEST_FIXED_SIZE = 35;
+const COMPUTE_SIZE = 39;
+
+// Malformed command input, reported to API callers as a 400
+export class ReadCodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReadCodecError';
+  }
+}
+
+function checkUint(name: string, value: unknown, bits: number): number {
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0 || (bits < 53 && value >= 2 ** bits)) {
+    throw new ReadCodecError(`${name} must be a uint${bits}`);
+  }
+  return value;
+}
+
+function checkAddress(name: string, value: unknown): string {
+  if (typeof value !== 'string' || !ethers.utils.isAddress(value)) {
+    throw new ReadCodecError(`${name} must be an address`);
+  }
+  return ethers.utils.getAddress(value);
+}
+
+function checkBytes(name: string, value: unknown): string {
+  if (typeof value !== 'string' || !ethers.utils.isHexString(value) || value.length % 2 !== 0) {
+    throw new ReadCodecError(`${name} must be a hex string of whole bytes`);
+  }
+  return value;
+}
+
+function encodeRequest(request: EVMCallRequestV1, index: number): string {
+  const label = `requests[${index}]`;
+  const callData = checkBytes(`${label}.callData`, request.callData);
+  const requestSize = REQUEST_FIXED_SIZE + ethers.utils.hexDataLength(callData);
+  if (requestSize >= 2 ** 16) {
+    throw new ReadCodecError(`${label}.callData is too long`);
+  }
+
+  return ethers.utils.solidityPack(
+    ['uint8', 'uint16', 'uint16', 'uint16', 'uint32', 'bool', 'uint64', 'uint16', 'address', 'bytes'],
+    [
+      REQUEST_VERSION,
+      checkUint(`${label}.appRequestLabel`, request.appRequestLabel, 16),
+      RESOLVER_TYPE_SINGLE_VIEW_EVM_CALL,
+      requestSize,
+      checkUint(`${label}.targetEid`, request.targetEid, 32),
+      !!request.isBlockNum,
+      checkUint(`${label}.blockNumOrTimestamp`, request.blockNumOrTimestamp, 64),
+      checkUint(`${label}.confirmations`, request.confirmations, 16),
+      checkAddress(`${label}.to`, request.to),
+      callData,
+    ]
+  );
+}
+
+function encodeCompute(compute: EVMCallComputeV1): string {
+  if (![0, 1, 2].includes(compute.computeSetting)) {
+    throw new ReadCodecError('compute.computeSetting must be 0 (map), 1 (reduce) or 2 (map and reduce)');
+  }
+
+  return ethers.utils.solidityPack(
+    ['uint8', 'uint16', 'uint8', 'uint32', 'bool', 'uint64', 'uint16', 'address'],
+    [
+      COMPUTE_VERSION,
+      COMPUTE_TYPE_SINGLE_VIEW_EVM_CALL,
+      compute.computeSetting,
+      checkUint('compute.targetEid', compute.targetEid, 32),
+      !!compute.isBlockNum,
+      checkUint('compute.blockNumOrTimestamp', compute.blockNumOrTimestamp, 64),
+      checkUint('compute.confirmations', compute.confirmations, 16),
+      checkAddress('compute.to', compute.to),
+    ]
+  );
+}
+
+/**
+ * Encodes a command. As in ReadCodecV1, a compute with targetEid 0 means "no compute".
+ */
+export function encodeReadCommand(command: LzReadCommand): string {
+  if (!Array.isArray(command.requests) || command.requests.length === 0) {
+    throw new ReadCodecError('A command needs at least one request');
+  }
+  if (command.requests.length >= 2 ** 16) {
+    throw new ReadCodecError('A command can hold at most 65535 requests');
+  }
+
+  const parts = [
+    ethers.utils.solidityPack(
+      ['uint16', 'uint16', 'uint16'],
+      [CMD_VERSION, checkUint('appCmdLabel', command.appCmdLabel, 16), command.requests.length]
+    ),
+    ...command.requests.map(encodeRequest),
+  ];
+
+  if (command.compute && command.compute.targetEid !== 0) {
+    parts.push(encodeCompute(command.compute));
+  }
+
+  return ethers.utils.hexConcat(parts);
+}
+
+// Sequential reader over the packed bytes
+class CommandReader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  take(length: number, what: string): Uint8Array {
+    if (length > this.remaining) {
+      throw new ReadCodecError(`Command ends early while reading ${what} at byte ${this.offset}`);
+    }
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  uint(bytes: number, what: string): number {
+    const value = BigInt(ethers.utils.hexlify(this.take(bytes, what)));
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new ReadCodecError(`${what} is too large to represent`);
+    }
+    return Number(value);
+  }
+
+  bool(what: string): boolean {
+    return this.uint(1, what) !== 0;
+  }
+
+  address(what: string): string {
+    return ethers.utils.getAddress(ethers.utils.hexlify(this.take(20, what)));
+  }
+}
+
+function decodeRequest(reader: CommandReader, index: number): EVMCallRequestV1 {
+  const label = `requests[${index}]`;
+
+  const version = reader.uint(1, `${label} version`);
+  if (version !== REQUEST_VERSION) {
+    throw new ReadCodecError(`${label} has unsupported request version ${version}`);
+  }
+  const appRequestLabel = reader.uint(2, `${label}.appRequestLabel`);
+  const resolverType = reader.uint(2, `${label} resolver type`);
+  if (resolverType !== RESOLVER_TYPE_SINGLE_VIEW_EVM_CALL) {
+    throw new ReadCodecError(`${label} has unsupported resolver type ${resolverType}`);
+  }
+  const requestSize = reader.uint(2, `${label} size`);
+  if (requestSize < REQUEST_FIXED_SIZE) {
+    throw new ReadCodecError(`${label} size ${requestSize} is smaller than the fixed fields`);
+  }
+
+  return {
+    appRequestLabel,
+    targetEid: reader.uint(4, `${label}.targetEid`),
+    isBlockNum: reader.bool(`${label}.isBlockNum`),
+    blockNumOrTimestamp: reader.uint(8, `${label}.blockNumOrTimestamp`),
+    confirmations: reader.uint(2, `${label}.confirmations`),
+    to: reader.address(`${label}.to`),
+    callData: ethers.utils.hexlify(reader.take(requestSize - REQUEST_FIXED_SIZE, `${label}.callData`)),
+  };
+}
+
+function decodeCompute(reader: CommandReader): EVMCallComputeV1 {
+  const version = reader.uint(1, 'compute version');
+  if (version !== COMPUTE_VERSION) {
+    throw new ReadCodecError(`Unsupported compute version ${version}`);
+  }
+  const computeType = reader.uint(2, 'compute type');
+  if (computeType !== COMPUTE_TYPE_SINGLE_VIEW_EVM_CALL) {
+    throw new ReadCodecError(`Unsupported compute type ${computeType}`);
+  }
+  const computeSetting = reader.uint(1, 'compute.computeSetting');
+  if (computeSetting > 2) {
+    throw new ReadCodecError(`Unsupported compute setting ${computeSetting}`);
+  }
+
+  return {
+    computeSetting: computeSetting as EVMCallComputeV1['computeSetting'],
+    targetEid: reader.uint(4, 'compute.targetEid'),
+    isBlockNum: reader.bool('compute.isBlockNum'),
+    blockNumOrTimestamp: reader.uint(8, 'compute.blockNumOrTimestamp'),
+    confirmations: reader.uint(2, 'compute.confirmations'),
+    to: reader.address('compute.to'),
+  };
+}
+
+export function decodeReadCommand(command: string): LzReadCommand {
+  const reader = new CommandReader(ethers.utils.arrayify(checkBytes('command', command)));
+
+  const version = reader.uint(2, 'command version');
+  if (version !== CMD_VERSION) {
+    throw new ReadCodecError(`Unsupported command version ${version}`);
+  }
+  const appCmdLabel = reader.uint(2, 'appCmdLabel');
+  const requestCount = reader.uint(2, 'request count');
+
+  const requests: EVMCallRequestV1[] = [];
+  for (let i = 0; i < requestCount; i++) {
+    requests.push(decodeRequest(reader, i));
+  }
+
+  const decoded: LzReadCommand = { appCmdLabel, requests };
+
+  if (reader.remaining > 0) {
+    if (reader.remaining !== COMPUTE_SIZE) {
+      throw new ReadCodecError(`Expected ${COMPUTE_SIZE} bytes of compute after the requests, found ${reader.remaining}`);
+    }
+    decoded.compute = decodeCompute(reader);
+  }
+
+  return decoded;
+}
@@ -0,0 +1,282 @@
+import { ethers } from "ethers";
+import { ChannelId, EndpointId } from "@layerzerolabs/lz-definitions";
+import { ExecutorOptionType } from "@layerzerolabs/lz-v2-utilities";
+import { OAppReadNodeConfigSchema } from "@layerzerolabs/ua-devtools";
+import type { OAppReadOmniGraphHardhat } from "@layerzerolabs/toolbox-hardhat";
+import {
+  DvnDeployment, GeneratedReadConfig, LabeledAddress, ReadConfigContract, ReadConfigRequest
+} from "@shared/types";
+import { storage } from "./storage";
+
+/**
+ * Generates a layerzero.config.ts for an lzRead OApp deployed on a set of chains. Each
+ * chain gets one read channel using its ReadLib1002, its Executor and the lzRead
+ * DVNs of the selected providers, all taken from the deployment metadata.
+ *
+ * Before it is rendered, each node config is parsed with OAppReadNodeConfigSchema from
+ * @layerzerolabs/ua-devtools (what the Hardhat config loader uses), then checked for the
+ * rules the read library enforces on-chain (at least one DVN, a reachable threshold, no
+ * DVN listed twice).
+ */
+
+const READ_MSG_TYPE = 1;
+const DEFAULT_ENFORCED_OPTIONS = { gas: 80000, size: 1000000, value: 0 };
+
+const CONTRACT_NAME = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// Invalid selections, reported to API callers as a 400
+export class ReadConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReadConfigError';
+  }
+}
+
+/**
+ * Validates a read config with the LayerZero toolbox schema and the read library's
+ * DVN rules, throwing a ReadConfigError that lists every issue.
+ */
+export function validateReadConfig(config: OAppReadOmniGraphHardhat): void {
+  const issues: string[] = [];
+  const eids = config.contracts.map(({ contract }) => contract.eid);
+
+  config.contracts.forEach(({ contract, config: nodeConfig }, index) => {
+    const path = `contracts.${index}`;
+    if (EndpointId[contract.eid] === undefined) {
+      issues.push(`${path}.contract.eid: ${contract.eid} is not a known EndpointId`);
+    }
+    if (eids.indexOf(contract.eid) !== index) {
+      issues.push(`${path}.contract.eid: EID ${contract.eid} is listed twice`);
+    }
+
+    const parsed = OAppReadNodeConfigSchema.safeParse(nodeConfig);
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => issues.push(`${[path, 'config', ...issue.path].join('.')}: ${issue.message}`));
+      return;
+    }
+
+    parsed.data.readChannelConfigs?.forEach(({ ulnConfig: uln }, channelIndex) => {
+      if (!uln) return;
+      const ulnPath = `${path}.config.readChannelConfigs.${channelIndex}.ulnConfig`;
+      const required = uln.requiredDVNs || [];
+      const optional = uln.optionalDVNs || [];
+      const threshold = uln.optionalDVNThreshold || 0;
+      const dvns = [...required, ...optional].map(address => address.toLowerCase());
+
+      if (required.length + threshold === 0) {
+        issues.push(`${ulnPath}: At least one DVN must verify reads`);
+      }
+      if (threshold > optional.length) {
+        issues.push(`${ulnPath}: Threshold ${threshold} exceeds the ${optional.length} optional DVNs`);
+      }
+      if (new Set(dvns).size !== dvns.length) {
+        issues.push(`${ulnPath}: A DVN is listed more than once`);
+      }
+    });
+  });
+
+  if (issues.length > 0) {
+    throw new ReadConfigError(`Invalid read config: ${issues.join('; ')}`);
+  }
+}
+
+function validateRequest(request: ReadConfigRequest): void {
+  if (!request || !Array.isArray(request.chains) || request.chains.length === 0) {
+    throw new ReadConfigError('Select at least one chain');
+  }
+  if (typeof request.contractName !== 'string' || !CONTRACT_NAME.test(request.contractName)) {
+    throw new ReadConfigError('Contract name must be a valid identifier');
+  }
+  if (!Array.isArray(request.requiredDVNs) || (request.optionalDVNs && !Array.isArray(request.optionalDVNs))) {
+    throw new ReadConfigError('DVNs must be lists of provider IDs');
+  }
+
+  const optional = request.optionalDVNs || [];
+  const threshold = request.optionalDVNThreshold || 0;
+  if (request.requiredDVNs.length + threshold === 0) {
+    throw new ReadConfigError('Select at least one required DVN, or optional DVNs with a threshold');
+  }
+  if (!Number.isInteger(threshold) || threshold < 0 || threshold > optional.length) {
+    throw new ReadConfigError(`The optional DVN threshold must be between 0 and ${optional.length}`);
+  }
+  const both = request.requiredDVNs.find(id => optional.includes(id));
+  if (both) {
+    throw new ReadConfigError(`${both} cannot be both a required and an optional DVN`);
+  }
+  if (request.channelId !== undefined && (!Number.isInteger(request.channelId) || request.channelId < 0)) {
+    throw new ReadConfigError('Channel ID must be a non-negative integer');
+  }
+  const options = request.enforcedOptions;
+  if (options && (!Number.isInteger(options.gas) || options.gas <= 0 || !Number.isInteger(options.size) || options.size <= 0
+    || (options.value !== undefined && (!Number.isInteger(options.value) || options.value < 0)))) {
+    throw new ReadConfigError('Enforced options need a positive gas limit and response size');
+  }
+}
+
+// One non-deprecated lzRead DVN per selected provider on the chain, or why one is missing
+function pickDvns(dvns: DvnDeployment[], providerIds: string[], chainKey: string): LabeledAddress[] | string {
+  const picked: LabeledAddress[] = [];
+  for (const providerId of providerIds) {
+    const candidates = dvns.filter(dvn => dvn.id === providerId && dvn.chainKey === chainKey);
+    const dvn = candidates.find(candidate => !candidate.deprecated);
+    if (!dvn) {
+      return candidates.length > 0
+        ? `The lzRead DVN of ${candidates[0].canonicalName} is deprecated`
+        : `${providerId} has no lzRead DVN`;
+    }
+    picked.push({ address: ethers.utils.getAddress(dvn.address), label: dvn.canonicalName, dvnProviderId: dvn.id });
+  }
+  // The read library requires DVNs in ascending address order
+  return picked.sort((a, b) => a.address.toLowerCase() < b.address.toLowerCase() ? -1 : 1);
+}
+
+// e.g. arbitrum-sepolia -> arbitrumSepoliaContract
+function contractVariable(chainKey: string): string {
+  return `${chainKey.replace(/[^A-Za-z0-9]+(\w)/g, (_, c: string) => c.toUpperCase()).replace(/^(\d)/, '_$1')}Contract`;
+}
+
+function formatDvns(dvns: LabeledAddress[], indent: string): string {
+  if (dvns.length === 0) return '[]';
+  return `[\n${dvns.map(dvn => `${indent}  '${dvn.address}', // ${dvn.label}`).join('\n')}\n${indent}]`;
+}
+
+function renderSource(request: ReadConfigRequest, stage: string, contracts: ReadConfigContract[]): string {
+  const channelName = ChannelId[request.channelId ?? ChannelId.READ_CHANNEL_1];
+  const channel = channelName ? `ChannelId.${channelName}` : String(request.channelId);
+  const options = { ...DEFAULT_ENFORCED_OPTIONS, ...request.enforcedOptions };
+  const threshold = request.optionalDVNThreshold || 0;
+
+  const points = contracts.map(contract => `const ${contractVariable(contract.chainKey)}: OmniPointHardhat = {
+  eid: EndpointId.${EndpointId[Number(contract.eid)]},
+  contractName: '${request.contractName}',
+};`);
+
+  const nodes = contracts.map(contract => `    {
+      contract: ${contractVariable(contract.chainKey)},
+      config: {
+        readChannelConfigs: [
+          {
+            channelId: ${channel},
+            active: true,
+            readLibrary: '${contract.readLibrary}', // ReadLib1002
+            ulnConfig: {
+              requiredDVNs: ${formatDvns(contract.requiredDVNs, '              ')},${contract.optionalDVNs.length > 0 ? `
+              optionalDVNs: ${formatDvns(contract.optionalDVNs, '              ')},
+              optionalDVNThreshold: ${threshold},` : ''}
+              executor: '${contract.executor}', // Executor
+            },
+            enforcedOptions: [
+              {
+                msgType: ${READ_MSG_TYPE},
+                optionType: ExecutorOptionType.LZ_READ,
+                gas: ${options.gas},
+                size: ${options.size},
+                value: ${options.value},
+              },
+            ],
+          },
+        ],
+      },
+    },`);
+
+  return `import { ChannelId, EndpointId } from '@layerzerolabs/lz-definitions';
+import { ExecutorOptionType } from '@layerzerolabs/lz-v2-utilities';
+import type { OAppReadOmniGraphHardhat, OmniPointHardhat } from '@layerzerolabs/toolbox-hardhat';
+
+// Generated from the ${stage} LayerZero deployment metadata: ReadLib1002, the Executor and
+// lzRead DVNs on each chain. Regenerate it from the Cross-Chain Explorer when they change.
+
+${points.join('\n\n')}
+
+const config: OAppReadOmniGraphHardhat = {
+  contracts: [
+${nodes.join('\n')}
+  ],
+  connections: [], // Read channels need no pathways between the contracts
+};
+
+export default config;
+`;
+}
+
+/**
+ * Builds the read config for the selected chains. Chains that cannot host a read OApp
+ * (no ReadLib1002, no Executor, or a selected DVN provider missing) are skipped with a
+ * reason; if none remain, a ReadConfigError is thrown.
+ */
+export async function generateReadConfig(request: ReadConfigRequest): Promise<GeneratedReadConfig> {
+  validateRequest(request);
+  const stage = request.stage || 'mainnet';
+
+  const deployments = await storage.getDeployments();
+  const dvns = (await storage.getDvns({ chains: request.chains, lzReadCompatible: true }))
+    .filter(dvn => dvn.stage === stage);
+
+  const contracts: ReadConfigContract[] = [];
+  const skipped: GeneratedReadConfig['skipped'] = [];
+  Array.from(new Set(request.chains)).forEach(chainKey => {
+    const deployment = deployments.find(candidate =>
+      candidate.chainKey === chainKey && candidate.stage === stage && candidate.contracts.endpointV2);
+    const skip = (reason: string) => skipped.push({ chainKey, reason });
+
+    if (!deployment) return skip(`No ${stage} EndpointV2 deployment`);
+    if (EndpointId[Number(deployment.eid)] === undefined) return skip(`EID ${deployment.eid} is not in @layerzerolabs/lz-definitions`);
+    const readLibrary = deployment.contracts.readLib1002?.address;
+    if (!readLibrary) return skip('No ReadLib1002 deployed');
+    const executor = deployment.contracts.executor?.address;
+    if (!executor) return skip('No Executor deployed');
+
+    const required = pickDvns(dvns, request.requiredDVNs, chainKey);
+    if (typeof required === 'string') return skip(required);
+    const optional = pickDvns(dvns, request.optionalDVNs || [], chainKey);
+    if (typeof optional === 'string') return skip(optional);
+
+    contracts.push({
+      chainKey,
+      eid: deployment.eid,
+      readLibrary: ethers.utils.getAddress(readLibrary),
+      executor: ethers.utils.getAddress(executor),
+      requiredDVNs: required,
+      optionalDVNs: optional,
+    });
+  });
+
+  if (contracts.length === 0) {
+    throw new ReadConfigError(`None of the selected chains can host a read OApp: ${skipped.map(({ chainKey, reason }) => `${chainKey} (${reason})`).join(', ')}`);
+  }
+
+  // The same graph the rendered file declares, checked before it is rendered
+  const options = { ...DEFAULT_ENFORCED_OPTIONS, ...request.enforcedOptions };
+  const graph: OAppReadOmniGraphHardhat = {
+    contracts: contracts.map(contract => ({
+      contract: { eid: Number(contract.eid), contractName: request.contractName },
+      config: {
+        readChannelConfigs: [{
+          channelId: request.channelId ?? ChannelId.READ_CHANNEL_1,
+          active: true,
+          readLibrary: contract.readLibrary,
+          ulnConfig: {
+            requiredDVNs: contract.requiredDVNs.map(dvn => dvn.address),
+            ...(contract.optionalDVNs.length > 0 && {
+              optionalDVNs: contract.optionalDVNs.map(dvn => dvn.address),
+              optionalDVNThreshold: request.optionalDVNThreshold || 0,
+            }),
+            executor: contract.executor,
+          },
+          enforcedOptions: [{ msgType: READ_MSG_TYPE, optionType: ExecutorOptionType.LZ_READ, ...options }],
+        }],
+      },
+    })),
+    connections: [],
+  };
+  validateReadConfig(graph);
+
+  console.log(`[lzRead] Generated a read config for ${contracts.length} chains (${skipped.length} skipped)`);
+
+  return {
+    fileName: 'layerzero.config.ts',
+    source: renderSource(request, stage, contracts),
+    contracts,
+    skipped,
+  };
+}
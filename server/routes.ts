@@ -1,9 +1,24 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { fetchLayerZeroDeployments, fetchDeploymentById } from "./layerzero";
-import { performCrossChainQuery, getRecentRequests, getRequestById, performWalletVacuum } from "./lzread";
-import { ProcessedDeployment, CrossChainQuery } from "@shared/types";
+import { fetchLayerZeroDeployments, fetchDeploymentById, groupDvnsByProvider } from "./layerzero";
+import { buildNetworkGraph } from "./network";
+import { listLzReadChains } from "./chainRegistry";
+import { getRpcHealth } from "./rpcPool";
+import {
+  performCrossChainQuery, getRecentRequests, getRequestById, performWalletVacuum, subscribeToRequest
+} from "./lzread";
+import { encodeReadCommand, decodeReadCommand, ReadCodecError } from "./readCodec";
+import { listAbiFunctions, encodeContractCall, AbiError } from "./abi";
+import { simulateCompute, validateComputeSpec, ComputeError } from "./compute";
+import { resolveStorageSlots, StorageSlotError } from "./storageSlots";
+import { readOAppConfig, OAppConfigError } from "./oappConfig";
+import { auditOApp } from "./oappAudit";
+import { generateReadConfig, ReadConfigError } from "./readConfig";
+import { startBytecodeVerification, getBytecodeVerificationJob, getDeploymentBytecodeReport } from "./bytecodeVerification";
+import { ProcessedDeployment, CrossChainQuery, ChainDetail, LzReadRequest, LzReadRequestStatus, LzReadCommand, LzReadComputeSpec, StorageQuery, ReadConfigRequest } from "@shared/types";
+
+const LZREAD_REQUEST_STATUSES: LzReadRequestStatus[] = ['pending', 'completed', 'failed'];
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // API endpoint to get all deployments
@@ -53,6 +68,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // API endpoint to get a deployment's bytecode report from the latest verification job
+  app.get("/api/deployments/:id/bytecode", (req, res) => {
+    try {
+      res.json({
+        job: getBytecodeVerificationJob() || null,
+        report: getDeploymentBytecodeReport(req.params.id) || null
+      });
+    } catch (error) {
+      console.error(`Error fetching bytecode report for ${req.params.id}:`, error);
+      res.status(500).json({ 
+        message: "Failed to fetch bytecode report",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to start verifying the bytecode of every deployment in a stage
+  app.post("/api/verification/bytecode", (req, res) => {
+    try {
+      const stage = req.body?.stage || 'mainnet';
+      if (typeof stage !== 'string') {
+        return res.status(400).json({ message: "Stage must be a string such as mainnet or testnet" });
+      }
+      
+      const job = startBytecodeVerification(stage);
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error starting bytecode verification:", error);
+      res.status(500).json({ 
+        message: "Failed to start bytecode verification",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to get the latest bytecode verification job
+  app.get("/api/verification/bytecode", (req, res) => {
+    try {
+      const job = getBytecodeVerificationJob();
+      if (!job) {
+        return res.status(404).json({ message: "No bytecode verification has run yet" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching bytecode verification:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch bytecode verification",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
   // API endpoint to search deployments with filtering
   app.get("/api/search", async (req, res) => {
     try {
@@ -127,61 +194,164 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // API endpoint to get network graph data
+  // API endpoint to get the pathway graph for one stage (defaults to mainnet)
   app.get("/api/network", async (req, res) => {
     try {
-      const deployments = await storage.getDeployments();
+      const stage = (req.query.stage as string) || 'mainnet';
+      const minWeight = req.query.minWeight ? parseInt(req.query.minWeight as string, 10) : undefined;
+
+      if (minWeight !== undefined && isNaN(minWeight)) {
+        return res.status(400).json({ message: "minWeight must be a number" });
+      }
+
+      const [deployments, dvns] = await Promise.all([
+        storage.getDeployments(),
+        storage.getDvns()
+      ]);
+
+      res.json(buildNetworkGraph(deployments, dvns, { stage, minWeight }));
+    } catch (error) {
+      console.error("Error generating network data:", error);
+      res.status(500).json({ 
+        message: "Failed to generate network data",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to list chains with their metadata across stages
+  app.get("/api/chains", async (req, res) => {
+    try {
+      const stage = req.query.stage as string | undefined;
+      const status = req.query.status ? (req.query.status as string).toUpperCase() : undefined;
+      
+      const chains = await storage.getChains();
+      res.json(chains.filter(chain =>
+        (!stage || chain.stages.some(s => s.stage === stage)) &&
+        (!status || chain.chainStatus === status)
+      ));
+    } catch (error) {
+      console.error("Error fetching chains:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch chains",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to get one chain with its deployments and DVNs
+  app.get("/api/chains/:chainKey", async (req, res) => {
+    try {
+      const chain = await storage.getChainByKey(req.params.chainKey);
       
-      if (deployments.length === 0) {
-        // Return empty network data if no deployments
-        return res.json({
-          nodes: [],
-          links: []
-        });
-      }
-      
-      // Create nodes for each unique chain
-      const chainsSet = new Set(deployments.map(d => d.chainKey));
-      const chains = Array.from(chainsSet);
-      
-      const nodes = chains.map((chain, index) => {
-        // Find a deployment for this chain to get its EID
-        const deployment = deployments.find(d => d.chainKey === chain);
-        return {
-          id: chain,
-          name: chain,
-          eid: deployment?.eid || "",
-          stage: deployment?.stage || "",
-          connections: 0, // Will count later
-          group: index % 5 // Group for coloring (0-4)
-        };
-      });
-      
-      // Create links between chains (simplified approach - all chains are connected to each other)
-      // In a real implementation, you'd need to analyze actual connections from the data
-      const links = [];
-      for (let i = 0; i < nodes.length; i++) {
-        for (let j = i + 1; j < nodes.length; j++) {
-          links.push({
-            source: nodes[i].id,
-            target: nodes[j].id,
-            value: 1 // Connection strength
-          });
-          
-          // Increment connection count for both nodes
-          nodes[i].connections++;
-          nodes[j].connections++;
+      if (!chain) {
+        return res.status(404).json({ message: "Chain not found" });
+      }
+      
+      const [deployments, dvns] = await Promise.all([
+        storage.searchDeployments({ chains: [chain.chainKey] }),
+        storage.getDvns({ chains: [chain.chainKey] })
+      ]);
+      
+      const detail: ChainDetail = { ...chain, deployments, dvns };
+      res.json(detail);
+    } catch (error) {
+      console.error("Error fetching chain:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch chain",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to list DVN providers, optionally filtered by chain or lzRead support
+  app.get("/api/dvns", async (req, res) => {
+    try {
+      const chains = req.query.chains ? (req.query.chains as string).split(',') : undefined;
+      const lzReadCompatible = req.query.lzRead === 'true' ? true : undefined;
+      
+      const dvns = await storage.getDvns({ chains, lzReadCompatible });
+      res.json(groupDvnsByProvider(dvns));
+    } catch (error) {
+      console.error("Error fetching DVNs:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch DVNs",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to get a single DVN provider with all of its deployments
+  app.get("/api/dvns/:id", async (req, res) => {
+    try {
+      const dvns = await storage.getDvns({ providerId: req.params.id });
+      const [provider] = groupDvnsByProvider(dvns);
+      
+      if (!provider) {
+        return res.status(404).json({ message: "DVN provider not found" });
+      }
+      
+      res.json(provider);
+    } catch (error) {
+      console.error(`Error fetching DVN provider ${req.params.id}:`, error);
+      res.status(500).json({ 
+        message: "Failed to fetch DVN provider",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to get the deployment change feed
+  app.get("/api/changes", async (req, res) => {
+    try {
+      // Accept either an ISO date or a millisecond timestamp for `since`
+      let since: string | undefined;
+      if (req.query.since) {
+        const raw = req.query.since as string;
+        const date = /^\d+$/.test(raw) ? new Date(parseInt(raw)) : new Date(raw);
+        if (isNaN(date.getTime())) {
+          return res.status(400).json({ message: "Invalid 'since' parameter" });
         }
+        since = date.toISOString();
       }
+      const limit = parseInt(req.query.limit as string) || 200;
       
-      res.json({
-        nodes,
-        links
+      const [snapshots, changes] = await Promise.all([
+        storage.getSnapshots(20),
+        storage.getChanges({ since, limit })
+      ]);
+      
+      res.json({ snapshots, changes });
+    } catch (error) {
+      console.error("Error fetching deployment changes:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch deployment changes",
+        error: error instanceof Error ? error.message : String(error)
       });
+    }
+  });
+
+  // API endpoint to list the chains configured for lzRead queries
+  app.get("/api/lzread/chains", (req, res) => {
+    try {
+      res.json(listLzReadChains());
     } catch (error) {
-      console.error("Error generating network data:", error);
+      console.error("Error fetching lzRead chains:", error);
       res.status(500).json({ 
-        message: "Failed to generate network data",
+        message: "Failed to fetch lzRead chains",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to report RPC endpoint health per chain
+  app.get("/api/rpc/health", (req, res) => {
+    try {
+      res.json(getRpcHealth());
+    } catch (error) {
+      console.error("Error fetching RPC health:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch RPC health",
         error: error instanceof Error ? error.message : String(error)
       });
     }
@@ -202,6 +372,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!query.chains || !Array.isArray(query.chains) || query.chains.length === 0) {
         return res.status(400).json({ message: "At least one chain must be specified" });
       }
+      if (query.timestamp !== undefined) {
+        if (!Number.isInteger(query.timestamp) || query.timestamp <= 0) {
+          return res.status(400).json({ message: "Timestamp must be a positive integer of unix seconds" });
+        }
+        if (query.timestamp > Math.floor(Date.now() / 1000)) {
+          return res.status(400).json({ message: "Timestamp cannot be in the future" });
+        }
+        if (query.blockNumber !== undefined) {
+          return res.status(400).json({ message: "Specify either a block number or a timestamp, not both" });
+        }
+      }
+      if (query.transactions) {
+        const { fromBlock, toBlock } = query.transactions;
+        if ([fromBlock, toBlock].some(block => block !== undefined && (!Number.isInteger(block) || block < 0))) {
+          return res.status(400).json({ message: "Block range bounds must be non-negative integers" });
+        }
+        if (fromBlock !== undefined && toBlock !== undefined && fromBlock > toBlock) {
+          return res.status(400).json({ message: "fromBlock must not be after toBlock" });
+        }
+      }
+      if (query.queryType === 'call') {
+        if (!query.call) {
+          return res.status(400).json({ message: "Call queries need an ABI, function and arguments" });
+        }
+        // Reject a bad ABI or arguments now rather than failing on every chain
+        try {
+          encodeContractCall(query.call);
+        } catch (error) {
+          if (error instanceof AbiError) {
+            return res.status(400).json({ message: error.message });
+          }
+          throw error;
+        }
+      }
+      if (query.queryType === 'storage' && query.storage) {
+        // Bad slots, keys or layouts fail the same way on every chain, so reject them up front
+        try {
+          resolveStorageSlots(query.storage);
+        } catch (error) {
+          if (error instanceof StorageSlotError) {
+            return res.status(400).json({ message: error.message });
+          }
+          throw error;
+        }
+      }
+      if (query.compute) {
+        try {
+          validateComputeSpec(query.compute);
+        } catch (error) {
+          if (error instanceof ComputeError) {
+            return res.status(400).json({ message: error.message });
+          }
+          throw error;
+        }
+      }
       
       const result = await performCrossChainQuery(query);
       res.json(result);
@@ -215,10 +440,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // API endpoint to get recent lzRead requests
-  app.get("/api/lzread/recent", (req, res) => {
+  app.get("/api/lzread/recent", async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 10;
-      const recentRequests = getRecentRequests(limit);
+      const recentRequests = await getRecentRequests(limit);
       res.json(recentRequests);
     } catch (error) {
       console.error("Error fetching recent requests:", error);
@@ -229,11 +454,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // API endpoint to page through persisted lzRead requests, newest first
+  app.get("/api/lzread/history", async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !LZREAD_REQUEST_STATUSES.includes(status as LzReadRequestStatus)) {
+        return res.status(400).json({ message: `Invalid 'status' parameter, expected one of ${LZREAD_REQUEST_STATUSES.join(', ')}` });
+      }
+      
+      const history = await storage.getLzReadHistory({
+        address: req.query.address as string | undefined,
+        requestType: req.query.type as string | undefined,
+        status: status as LzReadRequestStatus | undefined,
+        chain: req.query.chain as string | undefined,
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 20
+      });
+      
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching lzRead history:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch lzRead history",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
   // API endpoint to get a specific lzRead request by ID
-  app.get("/api/lzread/request/:id", (req, res) => {
+  app.get("/api/lzread/request/:id", async (req, res) => {
     try {
       const requestId = req.params.id;
-      const request = getRequestById(requestId);
+      const request = await getRequestById(requestId);
       
       if (!request) {
         return res.status(404).json({ message: "Request not found" });
@@ -249,6 +501,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // API endpoint to stream an lzRead request's progress as Server-Sent Events.
+  // Sends the current state first, then an `update` event on every change until the request finishes.
+  app.get("/api/lzread/request/:id/events", async (req, res) => {
+    try {
+      const request = await getRequestById(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+      
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+      const send = (update: LzReadRequest) => res.write(`event: update\ndata: ${JSON.stringify(update)}\n\n`);
+      send(request);
+      
+      let heartbeat: NodeJS.Timeout | undefined;
+      const unsubscribe = subscribeToRequest(request.id, (update) => {
+        send(update);
+        if (update.status !== 'pending') {
+          close();
+        }
+      });
+      const close = () => {
+        clearInterval(heartbeat);
+        unsubscribe?.();
+        res.end();
+      };
+      
+      // Not running any more, so the state sent above is final
+      if (!unsubscribe) {
+        return close();
+      }
+      
+      // Comment lines keep proxies from closing an idle stream
+      heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+      req.on('close', close);
+    } catch (error) {
+      console.error(`Error streaming request ${req.params.id}:`, error);
+      if (res.headersSent) {
+        return res.end();
+      }
+      res.status(500).json({ 
+        message: "Failed to stream request updates",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
   // API endpoint to perform a wallet vacuum (scan assets across chains)
   app.post("/api/lzread/wallet-vacuum", async (req, res) => {
     try {
@@ -274,6 +576,184 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // API endpoint to simulate lzMap / lzReduce over a completed query's responses
+  app.post("/api/lzread/request/:id/compute", async (req, res) => {
+    try {
+      const request = await getRequestById(req.params.id);
+      
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+      if (request.status !== 'completed' || !request.query || !request.result) {
+        return res.status(400).json({ message: "Compute needs a completed cross-chain query" });
+      }
+      
+      const spec: LzReadComputeSpec = req.body;
+      res.json(simulateCompute(request.query, request.result.results, spec));
+    } catch (error) {
+      if (error instanceof ComputeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error simulating lzRead compute:", error);
+      res.status(500).json({ 
+        message: "Failed to simulate lzRead compute",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to list the functions in a pasted ABI, for the call query builder
+  app.post("/api/abi/functions", (req, res) => {
+    try {
+      const { abi } = req.body;
+      res.json(listAbiFunctions(abi));
+    } catch (error) {
+      if (error instanceof AbiError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error parsing ABI:", error);
+      res.status(500).json({ 
+        message: "Failed to parse ABI",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to read an OApp's LayerZero configuration (peers, libraries, ULN and executor configs) on one chain
+  app.get("/api/oapp/:address/config", async (req, res) => {
+    try {
+      const chain = req.query.chain as string | undefined;
+      if (!chain) {
+        return res.status(400).json({ message: "Query parameter 'chain' is required" });
+      }
+      const eids = req.query.eids ? (req.query.eids as string).split(',').map(eid => eid.trim()).filter(Boolean) : undefined;
+      if (eids?.some(eid => !/^\d+$/.test(eid))) {
+        return res.status(400).json({ message: "EIDs must be a comma-separated list of numbers" });
+      }
+      
+      const config = await readOAppConfig(chain, req.params.address, eids);
+      res.json(config);
+    } catch (error) {
+      if (error instanceof OAppConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error(`Error reading OApp config for ${req.params.address}:`, error);
+      res.status(500).json({ 
+        message: "Failed to read OApp config",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to audit the security posture of each of an OApp's pathways on one chain
+  app.get("/api/oapp/:address/audit", async (req, res) => {
+    try {
+      const chain = req.query.chain as string | undefined;
+      if (!chain) {
+        return res.status(400).json({ message: "Query parameter 'chain' is required" });
+      }
+      const eids = req.query.eids ? (req.query.eids as string).split(',').map(eid => eid.trim()).filter(Boolean) : undefined;
+      if (eids?.some(eid => !/^\d+$/.test(eid))) {
+        return res.status(400).json({ message: "EIDs must be a comma-separated list of numbers" });
+      }
+      
+      const audit = await auditOApp(chain, req.params.address, eids);
+      res.json(audit);
+    } catch (error) {
+      if (error instanceof OAppConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error(`Error auditing OApp ${req.params.address}:`, error);
+      res.status(500).json({ 
+        message: "Failed to audit OApp",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to resolve storage slots (mapping keys, array indexes, layout paths) without reading them
+  app.post("/api/storage/slots", (req, res) => {
+    try {
+      const query: StorageQuery = req.body;
+      if (!query || !Array.isArray(query.slots)) {
+        return res.status(400).json({ message: "Storage slots are required" });
+      }
+      res.json(resolveStorageSlots(query));
+    } catch (error) {
+      if (error instanceof StorageSlotError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error resolving storage slots:", error);
+      res.status(500).json({ 
+        message: "Failed to resolve storage slots",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to encode an lzRead command (ReadCodecV1) from its requests and optional compute
+  app.post("/api/lzread/encode", (req, res) => {
+    try {
+      const command: LzReadCommand = req.body;
+      
+      if (!command || !Array.isArray(command.requests)) {
+        return res.status(400).json({ message: "Command requests are required" });
+      }
+      
+      const encoded = encodeReadCommand(command);
+      res.json({ command: encoded, size: (encoded.length - 2) / 2 });
+    } catch (error) {
+      if (error instanceof ReadCodecError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error encoding lzRead command:", error);
+      res.status(500).json({ 
+        message: "Failed to encode lzRead command",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to decode a hex lzRead command back into its requests and compute
+  app.post("/api/lzread/decode", (req, res) => {
+    try {
+      const { command } = req.body;
+      
+      if (!command) {
+        return res.status(400).json({ message: "Command is required" });
+      }
+      
+      res.json(decodeReadCommand(command));
+    } catch (error) {
+      if (error instanceof ReadCodecError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error decoding lzRead command:", error);
+      res.status(500).json({ 
+        message: "Failed to decode lzRead command",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // API endpoint to generate a layerzero.config.ts for an lzRead OApp on the selected chains
+  app.post("/api/lzread/config", async (req, res) => {
+    try {
+      const request: ReadConfigRequest = req.body;
+      const config = await generateReadConfig(request);
+      res.json(config);
+    } catch (error) {
+      if (error instanceof ReadConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error generating lzRead config:", error);
+      res.status(500).json({ 
+        message: "Failed to generate lzRead config",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
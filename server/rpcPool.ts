@@ -0,0 +1,260 @@
+import { RpcChainHealth, RpcEndpointHealth, RpcEndpointStatus } from "@shared/types";
+import { getChainConfig, getChainConfigs } from "./chainRegistry";
+
+/**
+ * Per-chain pool of JSON-RPC endpoints.
+ *
+ * Every request goes to the healthiest endpoint first and fails over to the others.
+ * Transport failures (timeouts, network errors, HTTP 429/5xx) are retried with
+ * exponential backoff; JSON-RPC errors such as reverts, and other HTTP 4xx rejections
+ * of the payload, are returned to the caller straight away, since another endpoint
+ * would give the same answer.
+ *
+ * After FAILURE_THRESHOLD consecutive failures an endpoint's circuit opens and it is
+ * skipped for CIRCUIT_COOLDOWN_MS. After the cooldown it gets one trial request:
+ * success closes the circuit, failure opens it again.
+ */
+
+const REQUEST_TIMEOUT_MS = 8000;
+const MAX_ATTEMPTS = 4;
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 4000;
+const FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 30 * 1000;
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.3;
+
+interface EndpointState {
+  url: string;
+  totalRequests: number;
+  totalFailures: number;
+  consecutiveFailures: number;
+  latencyMs: number | null;
+  lastError?: string;
+  lastSuccessAt?: number;
+  circuitOpenUntil: number;
+}
+
+// A JSON-RPC error returned by a healthy endpoint, e.g. "execution reverted"
+export class RpcResponseError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(`RPC error ${code}: ${message}`);
+    this.name = 'RpcResponseError';
+  }
+}
+
+// A non-ok HTTP status from an endpoint
+export class RpcHttpError extends Error {
+  constructor(public status: number) {
+    super(`HTTP error! status: ${status}`);
+    this.name = 'RpcHttpError';
+  }
+
+  // Rate limits and server errors are transient; other 4xx reject the request itself
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+const pools = new Map<string, EndpointState[]>();
+
+function createEndpoint(url: string): EndpointState {
+  return {
+    url,
+    totalRequests: 0,
+    totalFailures: 0,
+    consecutiveFailures: 0,
+    latencyMs: null,
+    circuitOpenUntil: 0,
+  };
+}
+
+// Keep the pool in step with the registry, which can change when env overrides or the metadata seed change
+function getPool(chainKey: string, rpcUrls: string[]): EndpointState[] {
+  const existing = pools.get(chainKey) || [];
+  const pool = rpcUrls.map(url => existing.find(e => e.url === url) || createEndpoint(url));
+  pools.set(chainKey, pool);
+  return pool;
+}
+
+// Lower is better: failing endpoints sort last, then slower ones
+function scoreEndpoint(endpoint: EndpointState): number {
+  const failureRate = endpoint.totalRequests > 0 ? endpoint.totalFailures / endpoint.totalRequests : 0;
+  return endpoint.consecutiveFailures * 10000 + failureRate * 5000 + (endpoint.latencyMs ?? 1000);
+}
+
+function isCircuitOpen(endpoint: EndpointState, now: number): boolean {
+  return endpoint.circuitOpenUntil > now;
+}
+
+// Order endpoints for one request: closed circuits by score, then open circuits by how soon they reopen
+function rankEndpoints(pool: EndpointState[]): EndpointState[] {
+  const now = Date.now();
+  const available = pool.filter(e => !isCircuitOpen(e, now)).sort((a, b) => scoreEndpoint(a) - scoreEndpoint(b));
+  const open = pool.filter(e => isCircuitOpen(e, now)).sort((a, b) => a.circuitOpenUntil - b.circuitOpenUntil);
+  return [...available, ...open];
+}
+
+function recordSuccess(endpoint: EndpointState, latencyMs: number): void {
+  endpoint.totalRequests++;
+  endpoint.consecutiveFailures = 0;
+  endpoint.circuitOpenUntil = 0;
+  endpoint.lastSuccessAt = Date.now();
+  endpoint.latencyMs = endpoint.latencyMs === null
+    ? latencyMs
+    : Math.round(endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING);
+}
+
+function recordFailure(endpoint: EndpointState, error: unknown): void {
+  endpoint.totalRequests++;
+  endpoint.totalFailures++;
+  endpoint.consecutiveFailures++;
+  endpoint.lastError = error instanceof Error ? error.message : String(error);
+
+  if (endpoint.consecutiveFailures >= FAILURE_THRESHOLD) {
+    endpoint.circuitOpenUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+  }
+}
+
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * Math.pow(2, attempt), BACKOFF_MAX_MS);
+  // Jitter so concurrent requests don't retry in lockstep
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function postJson(url: string, body: unknown, timeoutMs: number): Promise<any> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new RpcHttpError(response.status);
+    }
+
+    return await response.json();
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      throw new Error(`Request timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Sends a raw JSON-RPC payload (a single request or a batch array) through the chain's pool.
+ * Throws when every attempt fails at the transport level, or an RpcHttpError as soon as
+ * an endpoint rejects the payload with a non-retryable status.
+ */
+export async function rpcSend(chainKey: string, payload: unknown): Promise<any> {
+  const chainConfig = getChainConfig(chainKey);
+  if (!chainConfig) {
+    throw new Error(`Chain ${chainKey} has no RPC endpoints configured`);
+  }
+
+  const pool = getPool(chainKey, chainConfig.rpcUrls);
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    // Re-rank on every attempt so a failure moves the endpoint down the list
+    const endpoint = rankEndpoints(pool)[0];
+    const startedAt = Date.now();
+
+    try {
+      const result = await postJson(endpoint.url, payload, REQUEST_TIMEOUT_MS);
+      recordSuccess(endpoint, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      // The payload was rejected, not the endpoint: retrying would fail the same way
+      if (error instanceof RpcHttpError && !error.retryable) {
+        throw error;
+      }
+
+      recordFailure(endpoint, error);
+      lastError = error;
+      console.warn(`[RPC] ${chainKey} attempt ${attempt + 1}/${MAX_ATTEMPTS} failed on ${maskRpcUrl(endpoint.url)}:`,
+        error instanceof Error ? error.message : error);
+
+      if (attempt < MAX_ATTEMPTS - 1) {
+        await sleep(backoffDelay(attempt));
+      }
+    }
+  }
+
+  throw new Error(`All RPC endpoints failed for ${chainKey}: ${lastError instanceof Error ? lastError.message : String(lastError)}`);
+}
+
+/**
+ * Calls a single JSON-RPC method on a chain and returns its result.
+ */
+export async function rpcCall<T = any>(chainKey: string, method: string, params: unknown[]): Promise<T> {
+  const response = await rpcSend(chainKey, { jsonrpc: '2.0', id: 1, method, params });
+
+  if (response?.error) {
+    throw new RpcResponseError(response.error.code, response.error.message, response.error.data);
+  }
+
+  return response?.result as T;
+}
+
+// Strip paths and query strings, which often carry API keys
+export function maskRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname !== '/' || parsed.search ? `${parsed.origin}/…` : parsed.origin;
+  } catch {
+    return 'invalid url';
+  }
+}
+
+function getEndpointStatus(endpoint: EndpointState, now: number): RpcEndpointStatus {
+  if (isCircuitOpen(endpoint, now)) return 'open';
+  if (endpoint.totalRequests === 0) return 'unknown';
+  return endpoint.consecutiveFailures > 0 ? 'degraded' : 'healthy';
+}
+
+/**
+ * Health report for every configured chain, including endpoints that have not been used yet.
+ */
+export function getRpcHealth(): RpcChainHealth[] {
+  const now = Date.now();
+
+  return Object.values(getChainConfigs())
+    .map(chainConfig => {
+      const pool = getPool(chainConfig.chainKey, chainConfig.rpcUrls);
+      const endpoints: RpcEndpointHealth[] = pool.map(endpoint => ({
+        url: maskRpcUrl(endpoint.url),
+        status: getEndpointStatus(endpoint, now),
+        latencyMs: endpoint.latencyMs,
+        successRate: endpoint.totalRequests > 0
+          ? (endpoint.totalRequests - endpoint.totalFailures) / endpoint.totalRequests
+          : null,
+        totalRequests: endpoint.totalRequests,
+        consecutiveFailures: endpoint.consecutiveFailures,
+        lastError: endpoint.lastError,
+        lastSuccessAt: endpoint.lastSuccessAt,
+        circuitOpenUntil: isCircuitOpen(endpoint, now) ? endpoint.circuitOpenUntil : undefined,
+      }));
+
+      const statuses = endpoints.map(e => e.status);
+      let status: RpcChainHealth['status'] = 'unknown';
+      if (statuses.every(s => s === 'open')) status = 'down';
+      else if (statuses.some(s => s === 'open' || s === 'degraded')) status = 'degraded';
+      else if (statuses.includes('healthy')) status = 'healthy';
+
+      return { chainKey: chainConfig.chainKey, status, endpoints };
+    })
+    .sort((a, b) => a.chainKey.localeCompare(b.chainKey));
+}
@@ -0,0 +1,66 @@
+import { ethers } from "ethers";
+
+/**
+ * Names for common function selectors, to label transactions in history results.
+ * Selectors are derived from the signatures at load time, so adding a method is one line.
+ */
+
+const KNOWN_SIGNATURES = [
+  // Tokens
+  'transfer(address,uint256)',
+  'transferFrom(address,address,uint256)',
+  'approve(address,uint256)',
+  'permit(address,address,uint256,uint256,uint8,bytes32,bytes32)',
+  'safeTransferFrom(address,address,uint256)',
+  'safeTransferFrom(address,address,uint256,bytes)',
+  'safeTransferFrom(address,address,uint256,uint256,bytes)',
+  'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)',
+  'setApprovalForAll(address,bool)',
+  'mint(address,uint256)',
+  'burn(uint256)',
+  // Wrapped native tokens
+  'deposit()',
+  'withdraw(uint256)',
+  // DEXes and routers
+  'swapExactTokensForTokens(uint256,uint256,address[],address,uint256)',
+  'swapExactETHForTokens(uint256,address[],address,uint256)',
+  'swapExactTokensForETH(uint256,uint256,address[],address,uint256)',
+  'exactInputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160))',
+  'exactInput((bytes,address,uint256,uint256,uint256))',
+  'multicall(bytes[])',
+  'multicall(uint256,bytes[])',
+  'execute(bytes,bytes[])',
+  'execute(bytes,bytes[],uint256)',
+  'aggregate3((address,bool,bytes)[])',
+  // LayerZero endpoint and OApps
+  'send((uint32,bytes32,bytes,bytes,bool),address)',
+  'lzReceive((uint32,bytes32,uint64),address,bytes32,bytes,bytes)',
+  'send((uint32,bytes32,uint256,uint256,bytes,bytes,bytes),(uint256,uint256),address)',
+  'sendFrom(address,uint16,bytes,uint256,address,address,bytes)',
+  'setPeer(uint32,bytes32)',
+  'setDelegate(address)',
+  'setConfig(address,address,(uint32,uint32,bytes)[])',
+];
+
+const selectorNames = new Map<string, string>(
+  KNOWN_SIGNATURES.map(signature => [
+    ethers.utils.id(signature).slice(0, 10),
+    signature.slice(0, signature.indexOf('(')),
+  ])
+);
+
+/**
+ * The selector and a readable method name for a transaction's input. Plain native
+ * transfers read "value transfer", deployments "create", and unknown calls their selector.
+ */
+export function decodeMethod(input: string | null | undefined, to: string | null): { selector?: string; method: string } {
+  if (!to) {
+    return { method: 'create' };
+  }
+  if (!input || input === '0x' || input.length < 10) {
+    return { method: 'value transfer' };
+  }
+
+  const selector = input.slice(0, 10).toLowerCase();
+  return { selector, method: selectorNames.get(selector) || selector };
+}
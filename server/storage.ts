@@ -1,7 +1,24 @@
-import { deployments, type Deployment, type InsertDeployment } from "@shared/schema";
-import { ProcessedDeployment } from "@shared/types";
-import { db } from "./db";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { 
+  deployments, dvns, chains, deploymentSnapshots, deploymentChanges, lzreadRequests,
+  type Deployment, type InsertDeployment, type Dvn, type InsertDvn, type Chain, type InsertChain,
+  type DeploymentSnapshotRow, type DeploymentChangeRow, type InsertDeploymentChange,
+  type InsertLzReadRequest, type LzReadRequestRow
+} from "@shared/schema";
+import {
+  ProcessedDeployment,
+  DvnDeployment,
+  ChainMetadata,
+  DeploymentSnapshot,
+  DeploymentChange,
+  DeploymentChangeType,
+  LzReadRequest,
+  LzReadRequestStatus,
+  LzReadHistoryFilters,
+  LzReadHistoryPage
+} from "@shared/types";
+import { db, isDatabaseConfigured } from "./db";
+import { eq, and, desc, gt, lt, inArray, sql } from "drizzle-orm";
+import type { PendingDeploymentChange } from "./history";
 
 // Storage interface for LayerZero API data
 export interface IStorage {
@@ -16,15 +33,69 @@ export interface IStorage {
     versions?: number[];
     searchTerm?: string;
   }): Promise<ProcessedDeployment[]>;
+
+  // DVN registry methods
+  cacheDvns(dvns: DvnDeployment[]): Promise<void>;
+  getDvns(filters?: {
+    providerId?: string;
+    chains?: string[];
+    lzReadCompatible?: boolean;
+  }): Promise<DvnDeployment[]>;
+
+  // Chain metadata methods
+  cacheChains(chains: ChainMetadata[]): Promise<void>;
+  getChains(): Promise<ChainMetadata[]>;
+  getChainByKey(chainKey: string): Promise<ChainMetadata | undefined>;
+
+  // Deployment history methods
+  recordSnapshot(deploymentCount: number, changes: PendingDeploymentChange[]): Promise<DeploymentSnapshot>;
+  getSnapshots(limit: number): Promise<DeploymentSnapshot[]>;
+  getChanges(filters: { since?: string; limit?: number }): Promise<DeploymentChange[]>;
+
+  // lzRead request history methods
+  saveLzReadRequest(request: LzReadRequest): Promise<void>;
+  getLzReadRequest(id: string): Promise<LzReadRequest | undefined>;
+  getLzReadHistory(filters: LzReadHistoryFilters): Promise<LzReadHistoryPage>;
+  pruneLzReadHistory(retention: LzReadRetention): Promise<number>;
+}
+
+// Requests older than maxAgeMs, or beyond the newest maxRequests, are deleted
+export interface LzReadRetention {
+  maxAgeMs?: number;
+  maxRequests?: number;
+}
+
+const DEFAULT_HISTORY_PAGE_SIZE = 20;
+const MAX_HISTORY_PAGE_SIZE = 100;
+
+function getHistoryPaging(filters: LzReadHistoryFilters): { page: number; limit: number; offset: number } {
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(Math.max(1, filters.limit || DEFAULT_HISTORY_PAGE_SIZE), MAX_HISTORY_PAGE_SIZE);
+  return { page, limit, offset: (page - 1) * limit };
+}
+
+// Count change entries by type for a snapshot summary
+function countChanges(changes: PendingDeploymentChange[], type: DeploymentChangeType): number {
+  return changes.filter(c => c.changeType === type).length;
 }
 
 export class MemStorage implements IStorage {
   private deployments: ProcessedDeployment[];
   private deploymentsTimestamp: number;
+  private dvns: DvnDeployment[];
+  private chains: ChainMetadata[];
+  private snapshots: DeploymentSnapshot[];
+  private changes: DeploymentChange[];
+  private lzReadRequests: Map<string, LzReadRequest>;
 
   constructor() {
     this.deployments = [];
     this.deploymentsTimestamp = 0;
+    this.dvns = [];
+    this.chains = [];
+    this.snapshots = [];
+    this.changes = [];
+    this.lzReadRequests = new Map();
   }
   
   async cacheDeployments(deployments: ProcessedDeployment[]): Promise<void> {
@@ -75,11 +146,116 @@ export class MemStorage implements IStorage {
     
     return filtered;
   }
+
+  async cacheDvns(dvns: DvnDeployment[]): Promise<void> {
+    this.dvns = dvns;
+  }
+
+  async getDvns(filters: {
+    providerId?: string;
+    chains?: string[];
+    lzReadCompatible?: boolean;
+  } = {}): Promise<DvnDeployment[]> {
+    return this.dvns.filter(d =>
+      (!filters.providerId || d.id === filters.providerId) &&
+      (!filters.chains || filters.chains.length === 0 || filters.chains.includes(d.chainKey)) &&
+      (filters.lzReadCompatible === undefined || d.lzReadCompatible === filters.lzReadCompatible)
+    );
+  }
+
+  async cacheChains(chains: ChainMetadata[]): Promise<void> {
+    this.chains = chains;
+  }
+
+  async getChains(): Promise<ChainMetadata[]> {
+    return this.chains;
+  }
+
+  async getChainByKey(chainKey: string): Promise<ChainMetadata | undefined> {
+    return this.chains.find(c => c.chainKey === chainKey);
+  }
+
+  async recordSnapshot(deploymentCount: number, changes: PendingDeploymentChange[]): Promise<DeploymentSnapshot> {
+    const createdAt = new Date().toISOString();
+    const snapshot: DeploymentSnapshot = {
+      id: this.snapshots.length + 1,
+      createdAt,
+      deploymentCount,
+      added: countChanges(changes, 'added'),
+      removed: countChanges(changes, 'removed'),
+      changed: countChanges(changes, 'changed'),
+    };
+
+    this.snapshots.push(snapshot);
+    changes.forEach(change => {
+      this.changes.push({
+        ...change,
+        id: this.changes.length + 1,
+        snapshotId: snapshot.id,
+        detectedAt: createdAt,
+      });
+    });
+
+    return snapshot;
+  }
+
+  async getSnapshots(limit: number): Promise<DeploymentSnapshot[]> {
+    return [...this.snapshots].reverse().slice(0, limit);
+  }
+
+  async getChanges(filters: { since?: string; limit?: number }): Promise<DeploymentChange[]> {
+    const since = filters.since;
+    return [...this.changes]
+      .reverse()
+      .filter(c => !since || c.detectedAt > since)
+      .slice(0, filters.limit ?? this.changes.length);
+  }
+
+  async saveLzReadRequest(request: LzReadRequest): Promise<void> {
+    this.lzReadRequests.set(request.id, { ...request });
+  }
+
+  async getLzReadRequest(id: string): Promise<LzReadRequest | undefined> {
+    return this.lzReadRequests.get(id);
+  }
+
+  async getLzReadHistory(filters: LzReadHistoryFilters): Promise<LzReadHistoryPage> {
+    const { page, limit, offset } = getHistoryPaging(filters);
+    const address = filters.address?.toLowerCase();
+
+    const matching = Array.from(this.lzReadRequests.values())
+      .filter(r =>
+        (!address || r.address?.toLowerCase() === address) &&
+        (!filters.requestType || r.requestType === filters.requestType) &&
+        (!filters.status || r.status === filters.status) &&
+        (!filters.chain || r.targetChains.includes(filters.chain))
+      )
+      .sort((a, b) => b.timestamp - a.timestamp);
+
+    return { requests: matching.slice(offset, offset + limit), total: matching.length, page, limit };
+  }
+
+  async pruneLzReadHistory(retention: LzReadRetention): Promise<number> {
+    const cutoff = retention.maxAgeMs !== undefined ? Date.now() - retention.maxAgeMs : -Infinity;
+    const newestFirst = Array.from(this.lzReadRequests.values()).sort((a, b) => b.timestamp - a.timestamp);
+
+    const expired = newestFirst.filter((r, index) =>
+      r.timestamp < cutoff || (retention.maxRequests !== undefined && index >= retention.maxRequests)
+    );
+    expired.forEach(r => this.lzReadRequests.delete(r.id));
+    return expired.length;
+  }
 }
 
 // Database implementation of the storage interface
 export class DatabaseStorage implements IStorage {
-  constructor() {
+  private readonly db: NonNullable<typeof db>;
+
+  constructor(database = db) {
+    if (!database) {
+      throw new Error("DATABASE_URL is not configured");
+    }
+    this.db = database;
     console.log("Using DatabaseStorage for persistence");
   }
   
@@ -92,12 +268,13 @@ export class DatabaseStorage implements IStorage {
         chainKey: d.chainKey,
         eid: d.eid,
         stage: d.stage,
-        endpoint: d.endpoint,
+        endpoint: d.endpoint || null,
         relayerV2: d.relayerV2 || null,
         ultraLightNodeV2: d.ultraLightNodeV2 || null,
         sendUln301: d.sendUln301 || null,
         receiveUln301: d.receiveUln301 || null,
         nonceContract: d.nonceContract || null,
+        contracts: d.contracts,
         version: d.version,
         timestamp: new Date().toISOString(),
         isActive: d.isActive,
@@ -105,14 +282,14 @@ export class DatabaseStorage implements IStorage {
       }));
 
       // Delete existing data without using transactions
-      await db.delete(deployments);
+      await this.db.delete(deployments);
       console.log("Cleared existing deployments");
       
       // Insert new deployments in batches of 20 (smaller batches for reliability)
       const batchSize = 20;
       for (let i = 0; i < deploymentsToInsert.length; i += batchSize) {
         const batch = deploymentsToInsert.slice(i, i + batchSize);
-        await db.insert(deployments).values(batch);
+        await this.db.insert(deployments).values(batch);
         console.log(`Inserted batch ${i/batchSize + 1}/${Math.ceil(deploymentsToInsert.length/batchSize)}`);
       }
       
@@ -125,7 +302,7 @@ export class DatabaseStorage implements IStorage {
   
   async getDeployments(): Promise<ProcessedDeployment[]> {
     // Add orderBy to ensure consistent results
-    const dbDeployments = await db.select().from(deployments)
+    const dbDeployments = await this.db.select().from(deployments)
       .orderBy(deployments.chainKey);
     
     // Transform Deployment[] to ProcessedDeployment[]
@@ -141,7 +318,7 @@ export class DatabaseStorage implements IStorage {
     const eid = parts[1];
     const stage = parts.slice(2).join('-'); // In case stage has hyphens
     
-    const [deployment] = await db.select().from(deployments).where(
+    const [deployment] = await this.db.select().from(deployments).where(
       and(
         eq(deployments.chainKey, chainKey),
         eq(deployments.eid, eid),
@@ -154,7 +331,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getDeploymentsBatch(offset: number, limit: number): Promise<ProcessedDeployment[]> {
-    const dbDeployments = await db.select().from(deployments)
+    const dbDeployments = await this.db.select().from(deployments)
       .orderBy(deployments.chainKey)
       .limit(limit)
       .offset(offset);
@@ -203,13 +380,13 @@ export class DatabaseStorage implements IStorage {
       const whereCondition = conditions.reduce((combined, condition) => 
         sql`${combined} AND ${condition}`);
         
-      dbDeployments = await db.select()
+      dbDeployments = await this.db.select()
         .from(deployments)
         .where(whereCondition)
         .orderBy(deployments.chainKey);
     } else {
       // No filters, get all records
-      dbDeployments = await db.select()
+      dbDeployments = await this.db.select()
         .from(deployments)
         .orderBy(deployments.chainKey);
     }
@@ -220,18 +397,342 @@ export class DatabaseStorage implements IStorage {
     return dbDeployments.map(this.mapDbDeploymentToProcessed);
   }
 
+  async cacheDvns(processedDvns: DvnDeployment[]): Promise<void> {
+    try {
+      console.log(`Caching ${processedDvns.length} DVNs to database`);
+
+      const dvnsToInsert: InsertDvn[] = processedDvns.map(d => ({
+        providerId: d.id,
+        address: d.address,
+        canonicalName: d.canonicalName,
+        chainKey: d.chainKey,
+        stage: d.stage,
+        version: d.version,
+        lzReadCompatible: d.lzReadCompatible,
+        deprecated: d.deprecated
+      }));
+
+      await this.db.delete(dvns);
+
+      // DVN rows are small, so larger batches are fine here
+      const batchSize = 100;
+      for (let i = 0; i < dvnsToInsert.length; i += batchSize) {
+        await this.db.insert(dvns).values(dvnsToInsert.slice(i, i + batchSize));
+      }
+
+      console.log(`Successfully cached ${dvnsToInsert.length} DVNs to database`);
+    } catch (error) {
+      console.error("Error in cacheDvns:", error);
+      throw error;
+    }
+  }
+
+  async getDvns(filters: {
+    providerId?: string;
+    chains?: string[];
+    lzReadCompatible?: boolean;
+  } = {}): Promise<DvnDeployment[]> {
+    const conditions = [];
+
+    if (filters.providerId) {
+      conditions.push(eq(dvns.providerId, filters.providerId));
+    }
+
+    if (filters.chains && filters.chains.length > 0) {
+      conditions.push(sql`${dvns.chainKey} IN (${sql.join(filters.chains, sql`, `)})`);
+    }
+
+    if (filters.lzReadCompatible !== undefined) {
+      conditions.push(eq(dvns.lzReadCompatible, filters.lzReadCompatible));
+    }
+
+    const dbDvns = await this.db.select()
+      .from(dvns)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(dvns.canonicalName, dvns.chainKey);
+
+    return dbDvns.map(this.mapDbDvnToProcessed);
+  }
+
+  async cacheChains(processedChains: ChainMetadata[]): Promise<void> {
+    try {
+      console.log(`Caching ${processedChains.length} chains to database`);
+
+      const chainsToInsert: InsertChain[] = processedChains.map(c => ({
+        chainKey: c.chainKey,
+        name: c.name,
+        chainType: c.chainType,
+        chainLayer: c.chainLayer,
+        chainStatus: c.chainStatus,
+        nativeChainId: c.nativeChainId ?? null,
+        nativeCurrency: c.nativeCurrency || null,
+        stages: c.stages,
+        eids: c.eids
+      }));
+
+      await this.db.delete(chains);
+
+      const batchSize = 50;
+      for (let i = 0; i < chainsToInsert.length; i += batchSize) {
+        await this.db.insert(chains).values(chainsToInsert.slice(i, i + batchSize));
+      }
+
+      console.log(`Successfully cached ${chainsToInsert.length} chains to database`);
+    } catch (error) {
+      console.error("Error in cacheChains:", error);
+      throw error;
+    }
+  }
+
+  async getChains(): Promise<ChainMetadata[]> {
+    const dbChains = await this.db.select().from(chains).orderBy(chains.chainKey);
+    return dbChains.map(this.mapDbChain);
+  }
+
+  async getChainByKey(chainKey: string): Promise<ChainMetadata | undefined> {
+    const [chain] = await this.db.select().from(chains).where(eq(chains.chainKey, chainKey));
+    return chain ? this.mapDbChain(chain) : undefined;
+  }
+
+  async recordSnapshot(deploymentCount: number, changes: PendingDeploymentChange[]): Promise<DeploymentSnapshot> {
+    try {
+      const createdAt = new Date().toISOString();
+      const [snapshot] = await this.db.insert(deploymentSnapshots).values({
+        createdAt,
+        deploymentCount,
+        added: countChanges(changes, 'added'),
+        removed: countChanges(changes, 'removed'),
+        changed: countChanges(changes, 'changed'),
+      }).returning();
+
+      const changesToInsert: InsertDeploymentChange[] = changes.map(c => ({
+        snapshotId: snapshot.id,
+        deploymentId: c.deploymentId,
+        chainKey: c.chainKey,
+        eid: c.eid,
+        stage: c.stage,
+        changeType: c.changeType,
+        contract: c.contract || null,
+        previousAddress: c.previousAddress || null,
+        newAddress: c.newAddress || null,
+        detectedAt: createdAt,
+      }));
+
+      const batchSize = 100;
+      for (let i = 0; i < changesToInsert.length; i += batchSize) {
+        await this.db.insert(deploymentChanges).values(changesToInsert.slice(i, i + batchSize));
+      }
+
+      console.log(`Recorded snapshot ${snapshot.id} with ${changes.length} changes`);
+      return this.mapDbSnapshot(snapshot);
+    } catch (error) {
+      console.error("Error in recordSnapshot:", error);
+      throw error;
+    }
+  }
+
+  async getSnapshots(limit: number): Promise<DeploymentSnapshot[]> {
+    const dbSnapshots = await this.db.select().from(deploymentSnapshots)
+      .orderBy(desc(deploymentSnapshots.id))
+      .limit(limit);
+
+    return dbSnapshots.map(this.mapDbSnapshot);
+  }
+
+  async getChanges(filters: { since?: string; limit?: number }): Promise<DeploymentChange[]> {
+    const query = this.db.select().from(deploymentChanges)
+      .where(filters.since ? gt(deploymentChanges.detectedAt, filters.since) : undefined)
+      .orderBy(desc(deploymentChanges.id));
+
+    const dbChanges = filters.limit ? await query.limit(filters.limit) : await query;
+    return dbChanges.map(this.mapDbChange);
+  }
+
+  async saveLzReadRequest(request: LzReadRequest): Promise<void> {
+    const row: InsertLzReadRequest = {
+      id: request.id,
+      sourceChain: request.sourceChain,
+      targetChains: request.targetChains,
+      requestType: request.requestType,
+      status: request.status,
+      address: request.address?.toLowerCase() || null,
+      query: request.query || null,
+      result: request.result || null,
+      walletScan: request.walletScan || null,
+      progress: request.progress || null,
+      error: request.error || null,
+      createdAt: new Date(request.timestamp).toISOString(),
+      completedAt: request.completedAt ? new Date(request.completedAt).toISOString() : null,
+      durationMs: request.durationMs ?? null,
+    };
+
+    // Requests are saved when they start and again when they finish
+    await this.db.insert(lzreadRequests).values(row).onConflictDoUpdate({
+      target: lzreadRequests.id,
+      set: {
+        status: row.status,
+        result: row.result,
+        walletScan: row.walletScan,
+        progress: row.progress,
+        error: row.error,
+        completedAt: row.completedAt,
+        durationMs: row.durationMs,
+      },
+    });
+  }
+
+  async getLzReadRequest(id: string): Promise<LzReadRequest | undefined> {
+    const [request] = await this.db.select().from(lzreadRequests).where(eq(lzreadRequests.id, id));
+    return request ? this.mapDbLzReadRequest(request) : undefined;
+  }
+
+  async getLzReadHistory(filters: LzReadHistoryFilters): Promise<LzReadHistoryPage> {
+    const { page, limit, offset } = getHistoryPaging(filters);
+    const conditions = [];
+
+    if (filters.address) {
+      conditions.push(eq(lzreadRequests.address, filters.address.toLowerCase()));
+    }
+
+    if (filters.requestType) {
+      conditions.push(eq(lzreadRequests.requestType, filters.requestType));
+    }
+
+    if (filters.status) {
+      conditions.push(eq(lzreadRequests.status, filters.status));
+    }
+
+    if (filters.chain) {
+      conditions.push(sql`${lzreadRequests.targetChains} @> ${JSON.stringify([filters.chain])}::jsonb`);
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const [dbRequests, [{ count }]] = await Promise.all([
+      this.db.select().from(lzreadRequests)
+        .where(where)
+        .orderBy(desc(lzreadRequests.createdAt))
+        .limit(limit)
+        .offset(offset),
+      this.db.select({ count: sql<number>`count(*)::int` }).from(lzreadRequests).where(where),
+    ]);
+
+    return { requests: dbRequests.map(this.mapDbLzReadRequest), total: count, page, limit };
+  }
+
+  async pruneLzReadHistory(retention: LzReadRetention): Promise<number> {
+    let deleted = 0;
+
+    if (retention.maxAgeMs !== undefined) {
+      const cutoff = new Date(Date.now() - retention.maxAgeMs).toISOString();
+      const expired = await this.db.delete(lzreadRequests)
+        .where(lt(lzreadRequests.createdAt, cutoff))
+        .returning({ id: lzreadRequests.id });
+      deleted += expired.length;
+    }
+
+    if (retention.maxRequests !== undefined) {
+      // Everything after the newest maxRequests rows
+      const overflow = await this.db.select({ id: lzreadRequests.id }).from(lzreadRequests)
+        .orderBy(desc(lzreadRequests.createdAt))
+        .offset(retention.maxRequests);
+
+      const batchSize = 500;
+      for (let i = 0; i < overflow.length; i += batchSize) {
+        await this.db.delete(lzreadRequests)
+          .where(inArray(lzreadRequests.id, overflow.slice(i, i + batchSize).map(r => r.id)));
+      }
+      deleted += overflow.length;
+    }
+
+    return deleted;
+  }
+
+  private mapDbLzReadRequest(request: LzReadRequestRow): LzReadRequest {
+    return {
+      id: request.id,
+      sourceChain: request.sourceChain,
+      targetChains: request.targetChains,
+      requestType: request.requestType,
+      status: request.status as LzReadRequestStatus,
+      timestamp: Date.parse(request.createdAt),
+      address: request.query?.address || request.walletScan?.address || request.address || undefined,
+      query: request.query || undefined,
+      result: request.result || undefined,
+      walletScan: request.walletScan || undefined,
+      progress: request.progress || undefined,
+      error: request.error || undefined,
+      completedAt: request.completedAt ? Date.parse(request.completedAt) : undefined,
+      durationMs: request.durationMs ?? undefined
+    };
+  }
+
+  private mapDbSnapshot(snapshot: DeploymentSnapshotRow): DeploymentSnapshot {
+    return {
+      id: snapshot.id,
+      createdAt: snapshot.createdAt,
+      deploymentCount: snapshot.deploymentCount,
+      added: snapshot.added,
+      removed: snapshot.removed,
+      changed: snapshot.changed
+    };
+  }
+
+  private mapDbChange(change: DeploymentChangeRow): DeploymentChange {
+    return {
+      id: change.id,
+      snapshotId: change.snapshotId,
+      deploymentId: change.deploymentId,
+      chainKey: change.chainKey,
+      eid: change.eid,
+      stage: change.stage,
+      changeType: change.changeType as DeploymentChangeType,
+      contract: change.contract || undefined,
+      previousAddress: change.previousAddress || undefined,
+      newAddress: change.newAddress || undefined,
+      detectedAt: change.detectedAt
+    };
+  }
+
+  private mapDbChain(chain: Chain): ChainMetadata {
+    return {
+      chainKey: chain.chainKey,
+      name: chain.name,
+      chainType: chain.chainType,
+      chainLayer: chain.chainLayer,
+      chainStatus: chain.chainStatus,
+      nativeChainId: chain.nativeChainId ?? undefined,
+      nativeCurrency: chain.nativeCurrency || undefined,
+      stages: chain.stages,
+      eids: chain.eids
+    };
+  }
+
+  private mapDbDvnToProcessed(dvn: Dvn): DvnDeployment {
+    return {
+      id: dvn.providerId,
+      address: dvn.address,
+      canonicalName: dvn.canonicalName,
+      version: dvn.version,
+      chainKey: dvn.chainKey,
+      stage: dvn.stage,
+      lzReadCompatible: !!dvn.lzReadCompatible,
+      deprecated: !!dvn.deprecated
+    };
+  }
+
   private mapDbDeploymentToProcessed(deployment: Deployment): ProcessedDeployment {
     return {
       id: `${deployment.chainKey}-${deployment.eid}-${deployment.stage}`,
       chainKey: deployment.chainKey,
       eid: deployment.eid,
       stage: deployment.stage,
-      endpoint: deployment.endpoint as any,
-      relayerV2: deployment.relayerV2 as any,
-      ultraLightNodeV2: deployment.ultraLightNodeV2 as any,
-      sendUln301: deployment.sendUln301 as any,
-      receiveUln301: deployment.receiveUln301 as any,
-      nonceContract: deployment.nonceContract as any,
+      endpoint: deployment.endpoint || undefined,
+      relayerV2: deployment.relayerV2 || undefined,
+      ultraLightNodeV2: deployment.ultraLightNodeV2 || undefined,
+      sendUln301: deployment.sendUln301 || undefined,
+      receiveUln301: deployment.receiveUln301 || undefined,
+      nonceContract: deployment.nonceContract || undefined,
+      contracts: deployment.contracts,
       version: deployment.version,
       isActive: deployment.isActive === null ? true : !!deployment.isActive,
       rawData: deployment.rawData
@@ -240,10 +741,13 @@ export class DatabaseStorage implements IStorage {
 }
 
 // Use DatabaseStorage for persistence
-// With fallback to MemStorage on initialization error
+// With fallback to MemStorage when no database is configured or on initialization error
 let storageImplementation: IStorage;
 
 try {
+  if (!isDatabaseConfigured) {
+    throw new Error("DATABASE_URL is not configured");
+  }
   console.log("Initializing database storage");
   storageImplementation = new DatabaseStorage();
 } catch (error) {
@@ -0,0 +1,335 @@
+import { ethers } from "ethers";
+import { ResolvedStorageSlot, StorageQuery, StorageSlotQuery, StorageSlotValue } from "@shared/types";
+
+/**
+ * Storage slot arithmetic and decoding for storage queries, following Solidity's layout rules:
+ *   - a mapping value lives at keccak256(abi.encode(key, slot)), or keccak256(key ++ slot)
+ *     for string and bytes keys
+ *   - dynamic array elements start at keccak256(slot), packed when they are 16 bytes or smaller
+ *   - value types share a slot when they fit, each at a byte offset from the right
+ *
+ * Without a layout, slots are given directly (optionally with mapping keys and an array
+ * index). With solc's storageLayout output, variables are addressed by path, e.g.
+ * balances[0xabc...] or users[3].score, and decoded by their declared types.
+ */
+
+const MAX_SLOTS_PER_QUERY = 50;
+const TWO_256 = ethers.BigNumber.from(2).pow(256);
+
+// Invalid slots, keys, paths or layouts, reported to API callers as a 400
+export class StorageSlotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageSlotError';
+  }
+}
+
+function eip1967Slot(label: string): string {
+  return ethers.utils.hexZeroPad(ethers.BigNumber.from(ethers.utils.id(label)).sub(1).toHexString(), 32);
+}
+
+// bytes32(uint256(keccak256('eip1967.proxy.<name>')) - 1)
+export const EIP1967_SLOTS = {
+  implementation: eip1967Slot('eip1967.proxy.implementation'),
+  admin: eip1967Slot('eip1967.proxy.admin'),
+  beacon: eip1967Slot('eip1967.proxy.beacon'),
+};
+
+// Entries of solc's storageLayout output
+interface LayoutEntry {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+interface LayoutType {
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+  label: string;
+  numberOfBytes: string;
+  key?: string;
+  value?: string;
+  base?: string;
+  members?: LayoutEntry[];
+}
+
+interface StorageLayout {
+  storage: LayoutEntry[];
+  types: Record<string, LayoutType>;
+}
+
+// A resolved slot with what's needed to decode it
+interface SlotPlan extends ResolvedStorageSlot {
+  valueType?: LayoutType;
+}
+
+export function parseStorageLayout(json: string): StorageLayout {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new StorageSlotError('Storage layout is not valid JSON');
+  }
+
+  // Accept the storageLayout object itself or a compiler artifact that contains it
+  const layout = Array.isArray(parsed?.storage) ? parsed : parsed?.storageLayout;
+  if (!Array.isArray(layout?.storage)) {
+    throw new StorageSlotError('Storage layout needs a storage array, as in solc storageLayout output');
+  }
+  return { storage: layout.storage, types: layout.types || {} };
+}
+
+function toSlotNumber(value: string, what: string): ethers.BigNumber {
+  const trimmed = (value || '').trim();
+  if (!/^(0x[0-9a-fA-F]{1,64}|\d+)$/.test(trimmed)) {
+    throw new StorageSlotError(`${what} must be a decimal or hex number`);
+  }
+  const number = ethers.BigNumber.from(trimmed);
+  if (number.gte(TWO_256)) {
+    throw new StorageSlotError(`${what} does not fit in 32 bytes`);
+  }
+  return number;
+}
+
+function toSlotHex(slot: ethers.BigNumber): string {
+  return ethers.utils.hexZeroPad(slot.mod(TWO_256).toHexString(), 32);
+}
+
+function inferKeyType(key: string): string {
+  if (/^0x[0-9a-fA-F]{40}$/.test(key)) return 'address';
+  if (/^0x[0-9a-fA-F]{64}$/.test(key)) return 'bytes32';
+  if (/^\d+$/.test(key)) return 'uint256';
+  if (/^-\d+$/.test(key)) return 'int256';
+  return 'string';
+}
+
+// Layout labels for contracts and enums encode as their underlying types
+function toAbiKeyType(label: string): string {
+  if (label.startsWith('contract ') || label.startsWith('interface ')) return 'address';
+  if (label.startsWith('enum ')) return 'uint8';
+  return label;
+}
+
+function mappingSlot(slot: ethers.BigNumber, key: string, keyType: string): ethers.BigNumber {
+  const type = toAbiKeyType(keyType);
+
+  try {
+    if (type === 'string') {
+      return ethers.BigNumber.from(ethers.utils.solidityKeccak256(['string', 'bytes32'], [key, toSlotHex(slot)]));
+    }
+    if (type === 'bytes') {
+      return ethers.BigNumber.from(ethers.utils.solidityKeccak256(['bytes', 'bytes32'], [key, toSlotHex(slot)]));
+    }
+    const value = type === 'bool' ? key === 'true' : key;
+    return ethers.BigNumber.from(ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode([type, 'uint256'], [value, slot])));
+  } catch (error) {
+    throw new StorageSlotError(`Key ${key} is not a valid ${type}`);
+  }
+}
+
+// Slot and offset of an array element; elements of 16 bytes or less share slots
+function arrayElement(start: ethers.BigNumber, indexValue: string, elementBytes: number): { slot: ethers.BigNumber; offset: number } {
+  const index = toSlotNumber(indexValue, `Array index ${indexValue}`);
+
+  if (elementBytes <= 16) {
+    const perSlot = Math.floor(32 / elementBytes);
+    return {
+      slot: start.add(index.div(perSlot)),
+      offset: index.mod(perSlot).toNumber() * elementBytes,
+    };
+  }
+  return { slot: start.add(index.mul(Math.ceil(elementBytes / 32))), offset: 0 };
+}
+
+function keccakSlot(slot: ethers.BigNumber): ethers.BigNumber {
+  return ethers.BigNumber.from(ethers.utils.keccak256(toSlotHex(slot)));
+}
+
+// Types given without a layout, sized like the layout would size them
+function primitiveType(label: string): LayoutType {
+  const trimmed = label.trim();
+  if (trimmed === 'string' || trimmed === 'bytes') {
+    return { encoding: 'bytes', label: trimmed, numberOfBytes: '32' };
+  }
+
+  const bits = trimmed.match(/^u?int(\d*)$/);
+  const bytes = trimmed.match(/^bytes(\d+)$/);
+  const size = trimmed === 'address' ? 20
+    : trimmed === 'bool' ? 1
+    : bits ? parseInt(bits[1] || '256', 10) / 8
+    : bytes ? parseInt(bytes[1], 10)
+    : undefined;
+  if (!size || !Number.isInteger(size) || size > 32) {
+    throw new StorageSlotError(`Unsupported type ${label}; use a value type such as uint256, address, bool or bytes32`);
+  }
+  return { encoding: 'inplace', label: trimmed, numberOfBytes: size.toString() };
+}
+
+type PathStep = { member: string } | { key: string };
+
+function parsePath(path: string): { name: string; steps: PathStep[] } {
+  const match = path.trim().match(/^([A-Za-z_$][\w$]*)((?:\.[A-Za-z_$][\w$]*|\[[^\]]*\])*)$/);
+  if (!match) {
+    throw new StorageSlotError(`Invalid variable path ${path}; use forms like owner, balances[0x...] or users[3].score`);
+  }
+
+  const steps: PathStep[] = [];
+  const stepPattern = /\.([A-Za-z_$][\w$]*)|\[([^\]]*)\]/g;
+  let step: RegExpExecArray | null;
+  while ((step = stepPattern.exec(match[2])) !== null) {
+    steps.push(step[1] !== undefined ? { member: step[1] } : { key: step[2].trim() });
+  }
+  return { name: match[1], steps };
+}
+
+function resolveVariable(path: string, layout: StorageLayout): SlotPlan {
+  const { name, steps } = parsePath(path);
+  const entry = layout.storage.find(item => item.label === name);
+  if (!entry) {
+    throw new StorageSlotError(`No variable ${name} in the storage layout`);
+  }
+
+  const getType = (typeId: string | undefined): LayoutType => {
+    const type = typeId ? layout.types[typeId] : undefined;
+    if (!type) {
+      throw new StorageSlotError(`Type ${typeId} is missing from the storage layout`);
+    }
+    return type;
+  };
+
+  let slot = toSlotNumber(entry.slot, `Slot of ${name}`);
+  let offset = entry.offset || 0;
+  let typeId = entry.type;
+
+  for (const step of steps) {
+    const type = getType(typeId);
+
+    if ('member' in step) {
+      const member = type.members?.find(item => item.label === step.member);
+      if (!member) {
+        throw new StorageSlotError(`${type.label} has no member ${step.member}`);
+      }
+      slot = slot.add(toSlotNumber(member.slot, `Slot of ${step.member}`));
+      offset = member.offset || 0;
+      typeId = member.type;
+    } else if (type.encoding === 'mapping') {
+      slot = mappingSlot(slot, step.key, getType(type.key).label);
+      offset = 0;
+      typeId = type.value!;
+    } else if (type.base) {
+      // Dynamic arrays keep their elements at keccak256(slot), static arrays in place
+      const start = type.encoding === 'dynamic_array' ? keccakSlot(slot) : slot;
+      ({ slot, offset } = arrayElement(start, step.key, parseInt(getType(type.base).numberOfBytes, 10)));
+      typeId = type.base;
+    } else {
+      throw new StorageSlotError(`${type.label} is not a mapping or array`);
+    }
+  }
+
+  const valueType = getType(typeId);
+  return { label: path.trim(), slot: toSlotHex(slot), offset, type: valueType.label, valueType };
+}
+
+function resolveRawSlot(query: StorageSlotQuery): SlotPlan {
+  let slot = toSlotNumber(query.slot || '0', `Slot ${query.slot}`);
+  let label = query.slot || '0';
+
+  (query.keys || []).map(key => key.trim()).filter(Boolean).forEach(key => {
+    slot = mappingSlot(slot, key, inferKeyType(key));
+    label += `[${key}]`;
+  });
+
+  let offset = 0;
+  if (query.index !== undefined && query.index !== '') {
+    ({ slot, offset } = arrayElement(keccakSlot(slot), query.index, 32));
+    label += `[${query.index}]`;
+  }
+
+  const valueType = query.type ? primitiveType(query.type) : undefined;
+  return { label: `slot ${label}`, slot: toSlotHex(slot), offset, type: valueType?.label, valueType };
+}
+
+function resolveSlot(query: StorageSlotQuery, layout?: StorageLayout): SlotPlan {
+  if (query.eip1967) {
+    const slot = EIP1967_SLOTS[query.eip1967];
+    if (!slot) {
+      throw new StorageSlotError(`Unknown EIP-1967 slot ${query.eip1967}`);
+    }
+    return { label: `EIP-1967 ${query.eip1967}`, slot, offset: 0, type: 'address', valueType: primitiveType('address') };
+  }
+  if (query.variable) {
+    if (!layout) {
+      throw new StorageSlotError('Variable paths need a storage layout');
+    }
+    return resolveVariable(query.variable, layout);
+  }
+  return resolveRawSlot(query);
+}
+
+/**
+ * Resolves every slot of a storage query. Without one, slot 0 is read as before.
+ */
+export function planStorageSlots(query?: StorageQuery): SlotPlan[] {
+  const slots = query?.slots?.length ? query.slots : [{ slot: '0' }];
+  if (slots.length > MAX_SLOTS_PER_QUERY) {
+    throw new StorageSlotError(`At most ${MAX_SLOTS_PER_QUERY} slots can be read per query`);
+  }
+
+  const layout = query?.layout?.trim() ? parseStorageLayout(query.layout) : undefined;
+  return slots.map(slot => resolveSlot(slot, layout));
+}
+
+export function resolveStorageSlots(query?: StorageQuery): ResolvedStorageSlot[] {
+  return planStorageSlots(query).map(({ valueType, ...resolved }) => resolved);
+}
+
+function decodeWord(word: string, offset: number, type: LayoutType): string | undefined {
+  const value = ethers.BigNumber.from(word);
+
+  if (type.encoding === 'bytes') {
+    // Short values (under 32 bytes) sit in the slot with length * 2 in the last byte;
+    // long ones store length * 2 + 1 here and the data from keccak256(slot)
+    if (value.and(1).isZero()) {
+      const length = value.and(0xff).toNumber() / 2;
+      const data = ethers.utils.hexDataSlice(word, 0, length);
+      return type.label === 'string' ? ethers.utils.toUtf8String(data) : data;
+    }
+    return `<${value.sub(1).div(2).toString()} bytes stored from keccak256(slot)>`;
+  }
+  if (type.encoding === 'dynamic_array') {
+    return value.toString(); // The slot holds the length
+  }
+  if (type.encoding === 'mapping' || type.members || type.base) {
+    return undefined; // Mappings hold nothing here; structs and static arrays span their own slots
+  }
+
+  const size = parseInt(type.numberOfBytes, 10);
+  const field = value.shr(offset * 8).and(ethers.BigNumber.from(1).shl(size * 8).sub(1));
+  const label = type.label;
+
+  if (label === 'address' || label.startsWith('contract ') || label.startsWith('interface ')) {
+    return ethers.utils.getAddress(ethers.utils.hexZeroPad(field.toHexString(), 20));
+  }
+  if (label === 'bool') {
+    return field.isZero() ? 'false' : 'true';
+  }
+  if (/^int\d*$/.test(label)) {
+    return field.fromTwos(size * 8).toString();
+  }
+  if (/^uint\d*$/.test(label) || label.startsWith('enum ')) {
+    return field.toString();
+  }
+  return ethers.utils.hexZeroPad(field.toHexString(), size);
+}
+
+export function decodeStorageSlot(plan: SlotPlan, word: string): StorageSlotValue {
+  const { valueType, ...resolved } = plan;
+  const paddedWord = ethers.utils.hexZeroPad(word || '0x0', 32);
+
+  const slotValue: StorageSlotValue = { ...resolved, word: paddedWord };
+  if (valueType) {
+    const decoded = decodeWord(paddedWord, plan.offset, valueType);
+    if (decoded !== undefined) slotValue.decoded = decoded;
+  }
+  return slotValue;
+}
@@ -0,0 +1,161 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { readChain, ReadRequest, ReadStats } from "./multicall";
+
+/**
+ * ERC-20 discovery for the wallet vacuum, driven by token lists in the
+ * Uniswap token list format (https://tokenlists.org). Lists are loaded from
+ * lzread-config/tokenlist.json plus any paths or URLs in TOKEN_LISTS
+ * (comma-separated), and tokens are matched to chains by chainId.
+ */
+
+export interface TokenInfo {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  extensions?: {
+    coingeckoId?: string;
+  };
+}
+
+const DEFAULT_TOKEN_LIST = "lzread-config/tokenlist.json";
+const TOKEN_LIST_CACHE_DURATION = 60 * 60 * 1000; // 1 hour
+
+const erc20Interface = new ethers.utils.Interface([
+  "function balanceOf(address owner) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+]);
+
+let cachedTokens: {
+  tokens: TokenInfo[];
+  timestamp: number;
+} | null = null;
+
+// Load a JSON list from a local path (relative to the working directory) or an http(s) URL
+export async function loadJsonSource(source: string): Promise<any> {
+  if (source.startsWith("http://") || source.startsWith("https://")) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  const filePath = path.resolve(process.cwd(), source);
+  return JSON.parse(await fs.promises.readFile(filePath, "utf-8"));
+}
+
+async function loadTokenList(source: string): Promise<TokenInfo[]> {
+  const list = await loadJsonSource(source);
+
+  return (list?.tokens || []).filter((token: any) =>
+    typeof token?.chainId === 'number' &&
+    typeof token?.address === 'string' &&
+    typeof token?.decimals === 'number'
+  );
+}
+
+// Load and merge every configured token list, de-duplicating by chain and address
+async function getTokenLists(): Promise<TokenInfo[]> {
+  if (cachedTokens && Date.now() - cachedTokens.timestamp < TOKEN_LIST_CACHE_DURATION) {
+    return cachedTokens.tokens;
+  }
+
+  const sources = [
+    DEFAULT_TOKEN_LIST,
+    ...(process.env.TOKEN_LISTS || '').split(',').map(s => s.trim()).filter(Boolean),
+  ];
+
+  const tokensByKey = new Map<string, TokenInfo>();
+  for (const source of sources) {
+    try {
+      const tokens = await loadTokenList(source);
+      tokens.forEach(token => {
+        const key = `${token.chainId}:${token.address.toLowerCase()}`;
+        if (!tokensByKey.has(key)) tokensByKey.set(key, token);
+      });
+    } catch (error) {
+      console.warn(`[Tokens] Could not load token list ${source}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  cachedTokens = { tokens: Array.from(tokensByKey.values()), timestamp: Date.now() };
+  return cachedTokens.tokens;
+}
+
+export async function getTokensForChain(chainId: number): Promise<TokenInfo[]> {
+  return (await getTokenLists()).filter(token => token.chainId === chainId);
+}
+
+export interface TokenBalance {
+  token: TokenInfo;
+  balance: string; // Hex-encoded raw balance
+  decimals: number;
+  symbol: string;
+}
+
+/**
+ * Reads the wallet's balance of every listed token on a chain and returns the non-zero ones.
+ * decimals() and symbol() are read on-chain for held tokens, falling back to the list values
+ * for tokens that don't implement them (or return bytes32 symbols).
+ *
+ * Balances go out in one batched read and metadata for held tokens in a second, both at
+ * `blockNumber` (or the latest block), so the scan costs two round trips however long the list is.
+ */
+export async function scanErc20Balances(
+  chainKey: string,
+  chainId: number,
+  address: string,
+  blockNumber?: number,
+  stats?: ReadStats
+): Promise<TokenBalance[]> {
+  const tokens = await getTokensForChain(chainId);
+  if (tokens.length === 0) return [];
+
+  // Lower-case so list entries with a bad checksum don't throw during encoding
+  const owner = address.toLowerCase();
+  const call = (token: TokenInfo, fragment: string, args: unknown[] = []): ReadRequest => ({
+    type: 'call',
+    target: token.address.toLowerCase(),
+    callData: erc20Interface.encodeFunctionData(fragment, args),
+  });
+
+  const balanceRead = await readChain(chainKey, tokens.map(token => call(token, 'balanceOf', [owner])), { blockNumber, stats });
+  const held: Array<{ token: TokenInfo; balance: ethers.BigNumber }> = [];
+  tokens.forEach((token, index) => {
+    const result = balanceRead.results[index];
+    try {
+      if (!result.success) throw new Error(result.error);
+      const [balance] = erc20Interface.decodeFunctionResult('balanceOf', result.data);
+      if (!balance.isZero()) held.push({ token, balance });
+    } catch (error) {
+      console.error(`[Tokens] Error reading ${token.symbol} balance on ${chainKey}:`, error instanceof Error ? error.message : error);
+    }
+  });
+  if (held.length === 0) return [];
+
+  const metadataRead = await readChain(
+    chainKey,
+    held.flatMap(({ token }) => [call(token, 'decimals'), call(token, 'symbol')]),
+    { blockNumber: balanceRead.blockNumber, stats }
+  );
+
+  return held.map(({ token, balance }, index) => {
+    let decimals = token.decimals;
+    let symbol = token.symbol;
+    try {
+      const [decimalsResult, symbolResult] = metadataRead.results.slice(index * 2, index * 2 + 2);
+      if (!decimalsResult.success || !symbolResult.success) throw new Error('metadata call reverted');
+      [decimals] = erc20Interface.decodeFunctionResult('decimals', decimalsResult.data);
+      [symbol] = erc20Interface.decodeFunctionResult('symbol', symbolResult.data);
+    } catch (metadataError) {
+      console.warn(`[Tokens] Using token list metadata for ${token.symbol} on ${chainKey}`);
+    }
+
+    return { token, balance: balance.toHexString(), decimals, symbol };
+  });
+}
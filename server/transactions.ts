@@ -0,0 +1,242 @@
+import { TransactionHistoryData, TransactionQueryOptions, TransactionRecord } from "@shared/types";
+import { getChainConfig } from "./chainRegistry";
+import { readChain, ReadRequest, ReadStats } from "./multicall";
+import { rpcCall } from "./rpcPool";
+import { decodeMethod } from "./selectors";
+
+/**
+ * Transaction history for an address on one chain, newest first and paginated.
+ *
+ * The source is picked by TX_HISTORY_SOURCE:
+ *   - unset or "blockscan": scan a block range over JSON-RPC, batched through the chain's
+ *     provider pool. Ranges are capped at TX_SCAN_MAX_BLOCKS blocks (default 2000).
+ *   - anything else: the URL of an Etherscan-compatible API (account/txlist with a chainid
+ *     parameter, as Etherscan's multichain API takes), or a local stand-in for one.
+ *     TX_HISTORY_API_KEY is sent as the apikey when set.
+ *
+ * Other sources can be plugged in with setTransactionHistorySource.
+ */
+
+export interface TransactionHistoryRequest {
+  chainKey: string;
+  chainId: number;
+  address: string;
+  fromBlock?: number;
+  toBlock?: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface TransactionHistorySource {
+  name: string;
+  getTransactions(request: TransactionHistoryRequest, stats?: ReadStats): Promise<Omit<TransactionHistoryData, 'source'>>;
+}
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_SCAN_BLOCKS = 100; // Window below toBlock when no fromBlock is given
+const DEFAULT_MAX_SCAN_BLOCKS = 2000;
+const SCAN_CHUNK_BLOCKS = 25; // Blocks fetched per batch
+
+// Raw transaction fields shared by both sources, before decoding
+interface RawTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  value: string;
+  input?: string;
+  blockNumber: number;
+  timestamp: number;
+  status?: TransactionRecord['status'];
+}
+
+function toRecord(chainKey: string, address: string, tx: RawTransaction): TransactionRecord {
+  const owner = address.toLowerCase();
+  const from = tx.from?.toLowerCase();
+  const to = tx.to ? tx.to.toLowerCase() : null;
+
+  return {
+    chainKey,
+    hash: tx.hash,
+    blockNumber: tx.blockNumber,
+    timestamp: tx.timestamp,
+    from: tx.from,
+    to: tx.to,
+    value: BigInt(tx.value || '0').toString(),
+    direction: from === owner && to === owner ? 'self' : from === owner ? 'out' : 'in',
+    ...decodeMethod(tx.input, tx.to),
+    ...(tx.status && { status: tx.status }),
+  };
+}
+
+export function createBlockScanSource(maxBlocks: number = DEFAULT_MAX_SCAN_BLOCKS): TransactionHistorySource {
+  return {
+    name: 'blockscan',
+    async getTransactions(request, stats) {
+      const { chainKey, address, page, pageSize } = request;
+      const owner = address.toLowerCase();
+
+      let toBlock = request.toBlock;
+      if (toBlock === undefined) {
+        toBlock = parseInt(await rpcCall<string>(chainKey, 'eth_blockNumber', []), 16);
+        if (stats) stats.roundTrips++;
+      }
+      const fromBlock = Math.max(0, request.fromBlock ?? toBlock - DEFAULT_SCAN_BLOCKS + 1);
+      if (fromBlock > toBlock) {
+        throw new Error(`fromBlock ${fromBlock} is after toBlock ${toBlock}`);
+      }
+      if (toBlock - fromBlock + 1 > maxBlocks) {
+        throw new Error(`Block scans are limited to ${maxBlocks} blocks; narrow the range or use an indexer`);
+      }
+
+      // Scan newest first and stop once there is one match past the requested page
+      const skip = (page - 1) * pageSize;
+      const matches: TransactionRecord[] = [];
+
+      for (let end = toBlock; end >= fromBlock && matches.length <= skip + pageSize; end -= SCAN_CHUNK_BLOCKS) {
+        const start = Math.max(fromBlock, end - SCAN_CHUNK_BLOCKS + 1);
+        const requests: ReadRequest[] = [];
+        for (let blockNumber = end; blockNumber >= start; blockNumber--) {
+          const blockTag = `0x${blockNumber.toString(16)}`;
+          requests.push({ type: 'rpc', method: 'eth_getBlockByNumber', params: () => [blockTag, true] });
+        }
+
+        // Passing the range's top block skips the usual head lookup
+        const read = await readChain(chainKey, requests, { blockNumber: toBlock, stats });
+        read.results.forEach(result => {
+          if (!result.success || !result.data) {
+            throw new Error(result.error || 'Block not found');
+          }
+
+          const block = result.data;
+          const transactions: any[] = [...(block.transactions || [])].reverse();
+          transactions
+            .filter(tx => tx.from?.toLowerCase() === owner || tx.to?.toLowerCase() === owner)
+            .forEach(tx => matches.push(toRecord(chainKey, address, {
+              hash: tx.hash,
+              from: tx.from,
+              to: tx.to,
+              value: tx.value,
+              input: tx.input,
+              blockNumber: parseInt(block.number, 16),
+              timestamp: parseInt(block.timestamp, 16),
+            })));
+        });
+      }
+
+      return {
+        transactions: matches.slice(skip, skip + pageSize),
+        fromBlock,
+        toBlock,
+        page,
+        pageSize,
+        hasMore: matches.length > skip + pageSize,
+      };
+    },
+  };
+}
+
+export function createIndexerSource(baseUrl: string, apiKey?: string): TransactionHistorySource {
+  return {
+    name: `indexer:${new URL(baseUrl).host}`,
+    async getTransactions(request, stats) {
+      const { chainKey, chainId, address, page, pageSize } = request;
+
+      const url = new URL(baseUrl);
+      url.searchParams.set('chainid', chainId.toString());
+      url.searchParams.set('module', 'account');
+      url.searchParams.set('action', 'txlist');
+      url.searchParams.set('address', address);
+      url.searchParams.set('startblock', (request.fromBlock ?? 0).toString());
+      // Without an end block the indexer searches up to the chain head
+      if (request.toBlock !== undefined) url.searchParams.set('endblock', request.toBlock.toString());
+      url.searchParams.set('page', page.toString());
+      url.searchParams.set('offset', pageSize.toString());
+      url.searchParams.set('sort', 'desc');
+      if (apiKey) url.searchParams.set('apikey', apiKey);
+
+      const response = await fetch(url.toString());
+      if (stats) stats.roundTrips++;
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      // Etherscan reports "no results" as a failure status with a plain message
+      const body = await response.json();
+      const results: any[] = Array.isArray(body?.result) ? body.result : [];
+      if (body?.status === '0' && !/no transactions found/i.test(body?.message || '')) {
+        throw new Error(typeof body.result === 'string' ? body.result : body.message || 'Indexer request failed');
+      }
+
+      const transactions = results.map(tx => toRecord(chainKey, address, {
+        hash: tx.hash,
+        from: tx.from,
+        to: tx.to || null,
+        value: tx.value,
+        input: tx.input,
+        blockNumber: parseInt(tx.blockNumber, 10),
+        timestamp: parseInt(tx.timeStamp, 10),
+        status: tx.isError === '1' || tx.txreceipt_status === '0' ? 'failed' : 'success',
+      }));
+
+      return {
+        transactions,
+        fromBlock: request.fromBlock ?? 0,
+        toBlock: request.toBlock ?? (transactions[0]?.blockNumber || 0),
+        page,
+        pageSize,
+        hasMore: transactions.length === pageSize,
+      };
+    },
+  };
+}
+
+// undefined until first use
+let historySource: TransactionHistorySource | undefined;
+
+function createSourceFromEnv(): TransactionHistorySource {
+  const source = process.env.TX_HISTORY_SOURCE?.trim();
+  if (!source || source === 'blockscan') {
+    return createBlockScanSource(parseInt(process.env.TX_SCAN_MAX_BLOCKS || '', 10) || DEFAULT_MAX_SCAN_BLOCKS);
+  }
+  return createIndexerSource(source, process.env.TX_HISTORY_API_KEY);
+}
+
+export function getTransactionHistorySource(): TransactionHistorySource {
+  if (!historySource) {
+    historySource = createSourceFromEnv();
+  }
+  return historySource;
+}
+
+export function setTransactionHistorySource(source: TransactionHistorySource): void {
+  historySource = source;
+}
+
+/**
+ * One page of an address's transactions on a chain, with method selectors decoded.
+ */
+export async function getTransactionHistory(
+  chainKey: string,
+  address: string,
+  options: TransactionQueryOptions = {},
+  stats?: ReadStats
+): Promise<TransactionHistoryData> {
+  const chainConfig = getChainConfig(chainKey);
+  if (!chainConfig) {
+    throw new Error(`Chain ${chainKey} not configured for lzRead`);
+  }
+
+  const source = getTransactionHistorySource();
+  const history = await source.getTransactions({
+    chainKey,
+    chainId: chainConfig.chainId,
+    address,
+    fromBlock: options.fromBlock,
+    toBlock: options.toBlock,
+    page: Math.max(1, Math.floor(options.page || 1)),
+    pageSize: Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(options.pageSize || DEFAULT_PAGE_SIZE))),
+  }, stats);
+
+  return { ...history, source: source.name };
+}
@@ -0,0 +1,87 @@
+import type {
+  Address,
+  ContractCategory,
+  ContractDefinition,
+  ContractKind,
+  DeploymentContracts,
+  ProcessedDeployment,
+} from "./types";
+
+// Contract kinds in display order, with the protocol version they belong to
+export const CONTRACT_DEFINITIONS: ContractDefinition[] = [
+  { kind: 'endpoint', label: 'Endpoint', protocolVersion: 1, category: 'endpoint' },
+  { kind: 'endpointV2', label: 'EndpointV2', protocolVersion: 2, category: 'endpoint' },
+  { kind: 'controller', label: 'Controller', protocolVersion: 2, category: 'endpoint' },
+
+  { kind: 'ultraLightNode', label: 'UltraLightNode', protocolVersion: 1, category: 'messageLibrary' },
+  { kind: 'ultraLightNodeV2', label: 'UltraLightNodeV2', protocolVersion: 1, category: 'messageLibrary' },
+  { kind: 'sendUln301', label: 'SendUln301', protocolVersion: 1, category: 'messageLibrary' },
+  { kind: 'receiveUln301', label: 'ReceiveUln301', protocolVersion: 1, category: 'messageLibrary' },
+  { kind: 'nonceContract', label: 'NonceContract', protocolVersion: 1, category: 'messageLibrary' },
+  { kind: 'sendUln302', label: 'SendUln302', protocolVersion: 2, category: 'messageLibrary' },
+  { kind: 'receiveUln302', label: 'ReceiveUln302', protocolVersion: 2, category: 'messageLibrary' },
+  { kind: 'readLib1002', label: 'ReadLib1002', protocolVersion: 2, category: 'messageLibrary' },
+  { kind: 'blockedMessageLib', label: 'BlockedMessageLib', protocolVersion: 2, category: 'messageLibrary' },
+  { kind: 'blocked_messagelib', label: 'BlockedMessageLib', protocolVersion: 2, category: 'messageLibrary' },
+  { kind: 'ulnManager', label: 'UlnManager', protocolVersion: 2, category: 'messageLibrary' },
+  { kind: 'smlManager', label: 'SmlManager', protocolVersion: 2, category: 'messageLibrary' },
+
+  { kind: 'relayer', label: 'Relayer', protocolVersion: 1, category: 'execution' },
+  { kind: 'relayerV2', label: 'RelayerV2', protocolVersion: 1, category: 'execution' },
+  { kind: 'executor', label: 'Executor', protocolVersion: 2, category: 'execution' },
+  { kind: 'lzExecutor', label: 'LzExecutor', protocolVersion: 2, category: 'execution' },
+  { kind: 'executorProxy', label: 'ExecutorProxy', protocolVersion: 2, category: 'execution' },
+  { kind: 'pricefeed', label: 'PriceFeed', protocolVersion: 2, category: 'execution' },
+
+  { kind: 'deadDVN', label: 'DeadDVN', protocolVersion: 2, category: 'verification' },
+  { kind: 'dvn', label: 'DVN', protocolVersion: 2, category: 'verification' },
+  { kind: 'dvnProxy', label: 'DVNProxy', protocolVersion: 2, category: 'verification' },
+
+  { kind: 'allStorages', label: 'AllStorages', protocolVersion: 2, category: 'other' },
+];
+
+export const CONTRACT_KINDS: ContractKind[] = CONTRACT_DEFINITIONS.map(d => d.kind);
+
+export const CONTRACT_CATEGORY_LABELS: Record<ContractCategory, string> = {
+  endpoint: 'Endpoint',
+  messageLibrary: 'Send/Receive Libraries',
+  execution: 'Execution',
+  verification: 'Verification',
+  other: 'Other Contracts',
+};
+
+// Extract every known contract kind from a raw metadata deployment entry
+export function extractContracts(deployment: Record<string, any>): DeploymentContracts {
+  const contracts: DeploymentContracts = {};
+
+  CONTRACT_KINDS.forEach(kind => {
+    const address = deployment[kind]?.address;
+    if (typeof address === 'string' && address.length > 0) {
+      contracts[kind] = { address };
+    }
+  });
+
+  return contracts;
+}
+
+// List a deployment's contracts in display order, optionally limited to one category
+export function listContracts(
+  deployment: ProcessedDeployment,
+  category?: ContractCategory
+): Array<ContractDefinition & Address> {
+  const contracts = deployment.contracts || {};
+
+  return CONTRACT_DEFINITIONS
+    .filter(def => !category || def.category === category)
+    .filter(def => !!contracts[def.kind])
+    .map(def => ({ ...def, address: contracts[def.kind]!.address }));
+}
+
+// The endpoint a deployment talks to: EndpointV2 for V2 deployments, Endpoint for V1
+export function getPrimaryEndpoint(deployment: ProcessedDeployment): Address | undefined {
+  return deployment.contracts?.endpointV2 || deployment.contracts?.endpoint || deployment.endpoint;
+}
+
+export function getEndpointAddress(deployment: ProcessedDeployment): string {
+  return getPrimaryEndpoint(deployment)?.address || 'N/A';
+}
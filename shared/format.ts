@@ -0,0 +1,67 @@
+/**
+ * Exact formatting of on-chain integer amounts, shared by the server and the client.
+ * Amounts stay bigint until the final string, so balances above 2^53 keep every digit.
+ */
+
+// Parse a hex quantity ("0x...") or an integer string; anything unparseable is zero
+export function toBigInt(value: string | number | bigint | null | undefined): bigint {
+  if (typeof value === 'bigint') return value;
+  if (value === null || value === undefined || value === '') return BigInt(0);
+
+  try {
+    return BigInt(value);
+  } catch {
+    return BigInt(0);
+  }
+}
+
+/**
+ * Exact decimal string for a raw amount, e.g. formatUnits('0xde0b6b3a7640000', 18) === '1'.
+ */
+export function formatUnits(value: string | number | bigint | null | undefined, decimals: number): string {
+  const amount = toBigInt(value);
+  const negative = amount < BigInt(0);
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, '0');
+
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+function groupThousands(whole: string): string {
+  return whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+}
+
+/**
+ * Display string for a raw amount: thousands separators and at most `maxFractionDigits`
+ * decimals (truncated, never rounded up). Non-zero amounts too small to show read "< 0.0001".
+ */
+export function formatBalance(
+  value: string | number | bigint | null | undefined,
+  decimals: number,
+  maxFractionDigits: number = 4
+): string {
+  const exact = formatUnits(value, decimals);
+  const negative = exact.startsWith('-');
+  const [whole, fraction = ''] = (negative ? exact.slice(1) : exact).split('.');
+
+  const shownFraction = fraction.slice(0, maxFractionDigits).replace(/0+$/, '');
+  if (whole === '0' && !shownFraction) {
+    const smallest = `0.${'1'.padStart(maxFractionDigits, '0')}`;
+    if (!fraction) return '0';
+    return negative ? `> -${smallest}` : `< ${smallest}`;
+  }
+
+  return `${negative ? '-' : ''}${groupThousands(whole)}${shownFraction ? `.${shownFraction}` : ''}`;
+}
+
+// Approximate amount as a float, for arithmetic such as USD valuation where exactness doesn't matter
+export function unitsToNumber(value: string | number | bigint | null | undefined, decimals: number): number {
+  return parseFloat(formatUnits(value, decimals));
+}
+
+const usdFormatter = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+
+export function formatUsd(value: number): string {
+  return usdFormatter.format(value);
+}
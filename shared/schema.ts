@@ -1,6 +1,10 @@
-import { pgTable, text, serial, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type {
+  Address, DeploymentContracts, NativeCurrency, ChainStageDetails, ChainEid,
+  CrossChainQuery, CrossChainResult, WalletScanResult, LzReadChainProgress
+} from "./types";
 
 // New tables for LayerZero data
 export const deployments = pgTable("deployments", {
@@ -8,21 +12,157 @@ export const deployments = pgTable("deployments", {
   chainKey: text("chain_key").notNull(),
   eid: text("eid").notNull(),
   stage: text("stage").notNull(),
-  endpoint: jsonb("endpoint").notNull(),
-  relayerV2: jsonb("relayer_v2"),
-  ultraLightNodeV2: jsonb("ultra_light_node_v2"),
-  sendUln301: jsonb("send_uln_301"),
-  receiveUln301: jsonb("receive_uln_301"),
-  nonceContract: jsonb("nonce_contract"),
+  endpoint: jsonb("endpoint").$type<Address>(),
+  relayerV2: jsonb("relayer_v2").$type<Address>(),
+  ultraLightNodeV2: jsonb("ultra_light_node_v2").$type<Address>(),
+  sendUln301: jsonb("send_uln_301").$type<Address>(),
+  receiveUln301: jsonb("receive_uln_301").$type<Address>(),
+  nonceContract: jsonb("nonce_contract").$type<Address>(),
+  contracts: jsonb("contracts").$type<DeploymentContracts>().notNull(),
   version: integer("version").notNull(),
   timestamp: text("timestamp"),
   isActive: boolean("is_active").default(true),
   rawData: jsonb("raw_data").notNull(),
 });
 
-export const insertDeploymentSchema = createInsertSchema(deployments).omit({
+const addressSchema = z.object({ address: z.string() });
+
+export const insertDeploymentSchema = createInsertSchema(deployments, {
+  contracts: z.record(addressSchema),
+}).omit({
   id: true,
 });
 
 export type InsertDeployment = z.infer<typeof insertDeploymentSchema>;
 export type Deployment = typeof deployments.$inferSelect;
+
+export const dvns = pgTable("dvns", {
+  id: serial("id").primaryKey(),
+  providerId: text("provider_id").notNull(),
+  address: text("address").notNull(),
+  canonicalName: text("canonical_name").notNull(),
+  chainKey: text("chain_key").notNull(),
+  stage: text("stage").notNull(),
+  version: integer("version").notNull(),
+  lzReadCompatible: boolean("lz_read_compatible").default(false),
+  deprecated: boolean("deprecated").default(false),
+});
+
+export const insertDvnSchema = createInsertSchema(dvns).omit({
+  id: true,
+});
+
+export type InsertDvn = z.infer<typeof insertDvnSchema>;
+export type Dvn = typeof dvns.$inferSelect;
+
+export const chains = pgTable("chains", {
+  id: serial("id").primaryKey(),
+  chainKey: text("chain_key").notNull().unique(),
+  name: text("name").notNull(),
+  chainType: text("chain_type").notNull(),
+  chainLayer: text("chain_layer").notNull(),
+  chainStatus: text("chain_status").notNull(),
+  nativeChainId: bigint("native_chain_id", { mode: "number" }), // Some chain ids exceed 32 bits
+  nativeCurrency: jsonb("native_currency").$type<NativeCurrency>(),
+  stages: jsonb("stages").$type<ChainStageDetails[]>().notNull(),
+  eids: jsonb("eids").$type<ChainEid[]>().notNull(),
+});
+
+const nativeCurrencySchema = z.object({
+  name: z.string().optional(),
+  symbol: z.string(),
+  cgId: z.string().optional(),
+  cmcId: z.number().optional(),
+  decimals: z.number(),
+});
+
+export const insertChainSchema = createInsertSchema(chains, {
+  nativeCurrency: nativeCurrencySchema.nullable().optional(),
+  stages: z.array(z.object({
+    stage: z.string(),
+    name: z.string().optional(),
+    shortName: z.string().optional(),
+    chainStatus: z.string().optional(),
+    chainLayer: z.string().optional(),
+    chainType: z.string().optional(),
+    nativeChainId: z.number().optional(),
+    nativeCurrency: nativeCurrencySchema.optional(),
+    blockExplorers: z.array(z.string()),
+  })),
+  eids: z.array(z.object({
+    eid: z.string(),
+    stage: z.string(),
+    version: z.number(),
+    deploymentId: z.string(),
+  })),
+}).omit({
+  id: true,
+});
+
+export type InsertChain = z.infer<typeof insertChainSchema>;
+export type Chain = typeof chains.$inferSelect;
+
+export const deploymentSnapshots = pgTable("deployment_snapshots", {
+  id: serial("id").primaryKey(),
+  createdAt: text("created_at").notNull(),
+  deploymentCount: integer("deployment_count").notNull(),
+  added: integer("added").notNull().default(0),
+  removed: integer("removed").notNull().default(0),
+  changed: integer("changed").notNull().default(0),
+});
+
+export const deploymentChanges = pgTable("deployment_changes", {
+  id: serial("id").primaryKey(),
+  snapshotId: integer("snapshot_id").notNull(),
+  deploymentId: text("deployment_id").notNull(),
+  chainKey: text("chain_key").notNull(),
+  eid: text("eid").notNull(),
+  stage: text("stage").notNull(),
+  changeType: text("change_type").notNull(),
+  contract: text("contract"),
+  previousAddress: text("previous_address"),
+  newAddress: text("new_address"),
+  detectedAt: text("detected_at").notNull(),
+});
+
+export const insertDeploymentSnapshotSchema = createInsertSchema(deploymentSnapshots).omit({
+  id: true,
+});
+
+export const insertDeploymentChangeSchema = createInsertSchema(deploymentChanges).omit({
+  id: true,
+});
+
+export type InsertDeploymentSnapshot = z.infer<typeof insertDeploymentSnapshotSchema>;
+export type DeploymentSnapshotRow = typeof deploymentSnapshots.$inferSelect;
+export type InsertDeploymentChange = z.infer<typeof insertDeploymentChangeSchema>;
+export type DeploymentChangeRow = typeof deploymentChanges.$inferSelect;
+
+export const lzreadRequests = pgTable("lzread_requests", {
+  id: text("id").primaryKey(),
+  sourceChain: text("source_chain").notNull(),
+  targetChains: jsonb("target_chains").$type<string[]>().notNull(),
+  requestType: text("request_type").notNull(),
+  status: text("status").notNull(),
+  address: text("address"), // Lower-cased for filtering
+  query: jsonb("query").$type<CrossChainQuery>(),
+  result: jsonb("result").$type<CrossChainResult>(),
+  walletScan: jsonb("wallet_scan").$type<WalletScanResult>(),
+  progress: jsonb("progress").$type<Record<string, LzReadChainProgress>>(),
+  error: text("error"),
+  createdAt: text("created_at").notNull(),
+  completedAt: text("completed_at"),
+  durationMs: integer("duration_ms"),
+});
+
+// Results are stored as returned by the lzRead module, so they are not re-validated here
+export const insertLzReadRequestSchema = createInsertSchema(lzreadRequests, {
+  targetChains: z.array(z.string()),
+  query: z.any(),
+  result: z.any(),
+  walletScan: z.any(),
+  progress: z.any(),
+});
+
+export type InsertLzReadRequest = z.infer<typeof insertLzReadRequestSchema>;
+export type LzReadRequestRow = typeof lzreadRequests.$inferSelect;
@@ -4,6 +4,48 @@ export interface Address {
   address: string;
 }
 
+// Every contract kind that appears in the metadata `deployments` entries
+export type ContractKind =
+  // Endpoint V1 protocol contracts
+  | 'endpoint'
+  | 'relayer'
+  | 'relayerV2'
+  | 'ultraLightNode'
+  | 'ultraLightNodeV2'
+  | 'sendUln301'
+  | 'receiveUln301'
+  | 'nonceContract'
+  // Endpoint V2 protocol contracts
+  | 'endpointV2'
+  | 'sendUln302'
+  | 'receiveUln302'
+  | 'readLib1002'
+  | 'blockedMessageLib'
+  | 'executor'
+  | 'lzExecutor'
+  | 'deadDVN'
+  // Non-EVM V2 contracts (Solana, TON)
+  | 'blocked_messagelib'
+  | 'pricefeed'
+  | 'dvn'
+  | 'controller'
+  | 'dvnProxy'
+  | 'ulnManager'
+  | 'executorProxy'
+  | 'smlManager'
+  | 'allStorages';
+
+export type ContractCategory = 'endpoint' | 'messageLibrary' | 'execution' | 'verification' | 'other';
+
+export interface ContractDefinition {
+  kind: ContractKind;
+  label: string;
+  protocolVersion: 1 | 2;
+  category: ContractCategory;
+}
+
+export type DeploymentContracts = Partial<Record<ContractKind, Address>>;
+
 export interface ChainDeployment {
   eid: string;
   endpoint: Address;
@@ -28,17 +70,116 @@ export interface ProcessedDeployment {
   chainKey: string;
   eid: string;
   stage: string;
-  endpoint: Address;
+  endpoint?: Address; // Endpoint V1 only, see contracts.endpointV2 for V2 deployments
   relayerV2?: Address;
   ultraLightNodeV2?: Address;
   sendUln301?: Address;
   receiveUln301?: Address;
   nonceContract?: Address;
+  contracts: DeploymentContracts; // Every contract listed for this deployment, keyed by kind
   version: number;
   isActive: boolean;
   rawData: any;
 }
 
+// DVN registry types, built from the per-chain `dvns` map in the metadata
+export interface DvnDeployment {
+  id: string; // Provider id, e.g. "google-cloud"
+  address: string;
+  canonicalName: string;
+  version: number;
+  chainKey: string;
+  stage: string;
+  lzReadCompatible: boolean;
+  deprecated: boolean;
+}
+
+export interface DvnProvider {
+  id: string;
+  canonicalName: string;
+  chains: string[];
+  lzReadCompatible: boolean; // True if any of the provider's DVNs supports lzRead
+  deprecatedCount: number;
+  deployments: DvnDeployment[];
+}
+
+// Deployment history types, recorded on every metadata sync
+export type DeploymentChangeType = 'added' | 'removed' | 'changed';
+
+export interface DeploymentChange {
+  id?: number;
+  snapshotId: number;
+  deploymentId: string;
+  chainKey: string;
+  eid: string;
+  stage: string;
+  changeType: DeploymentChangeType;
+  contract?: string; // Contract field that changed, only set for 'changed' entries
+  previousAddress?: string;
+  newAddress?: string;
+  detectedAt: string;
+}
+
+export interface DeploymentSnapshot {
+  id: number;
+  createdAt: string;
+  deploymentCount: number;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface ChangesResponse {
+  snapshots: DeploymentSnapshot[];
+  changes: DeploymentChange[];
+}
+
+// Chain metadata types, aggregated from every `<chainKey>-<stage>` entry in the metadata
+export interface NativeCurrency {
+  name?: string;
+  symbol: string;
+  cgId?: string; // CoinGecko id
+  cmcId?: number; // CoinMarketCap id
+  decimals: number;
+}
+
+export interface ChainStageDetails {
+  stage: string;
+  name?: string;
+  shortName?: string;
+  chainStatus?: string; // 'ACTIVE' or 'DEPRECATED'
+  chainLayer?: string;
+  chainType?: string;
+  nativeChainId?: number;
+  nativeCurrency?: NativeCurrency;
+  blockExplorers: string[];
+}
+
+export interface ChainEid {
+  eid: string;
+  stage: string;
+  version: number;
+  deploymentId: string;
+}
+
+export interface ChainMetadata {
+  chainKey: string;
+  // Chain-level fields are taken from the mainnet entry when there is one
+  name: string;
+  chainType: string;
+  chainLayer: string;
+  chainStatus: string;
+  nativeChainId?: number;
+  nativeCurrency?: NativeCurrency;
+  stages: ChainStageDetails[];
+  eids: ChainEid[];
+}
+
+export interface ChainDetail extends ChainMetadata {
+  deployments: ProcessedDeployment[];
+  dvns: DvnDeployment[];
+}
+
 export interface NetworkNode {
   id: string;
   name: string;
@@ -46,12 +187,23 @@ export interface NetworkNode {
   stage: string;
   connections: number;
   group: number;
+  hasEndpointV2: boolean;
+  dvnProviders: number;
 }
 
+// Why two chains are linked in the pathway graph
+// - sharedDvn: at least one active DVN provider serves both chains (required for a link)
+// - endpointV2: both chains have an EndpointV2 deployment
+// - lzRead: a shared provider runs lzRead-compatible DVNs on both chains
+export type NetworkLinkReason = 'sharedDvn' | 'endpointV2' | 'lzRead';
+
 export interface NetworkLink {
   source: string;
   target: string;
-  value: number;
+  value: number; // Link weight, higher means more ways for the chains to talk
+  reasons: NetworkLinkReason[];
+  sharedDvns: string[]; // Provider ids serving both chains
+  lzReadDvns: string[]; // Provider ids with lzRead-compatible DVNs on both chains
 }
 
 export interface NetworkData {
@@ -72,19 +224,103 @@ export interface FilterOptions {
 }
 
 // lzRead cross-chain data access types
+
+// A chain that lzRead queries can target, as resolved by the server's chain registry
+export interface LzReadChain {
+  chainKey: string;
+  chainId: number;
+  eid: string;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+    cgId?: string;
+  };
+}
+
+// RPC provider pool health, reported per chain and per endpoint
+// - unknown: the endpoint has not been used yet
+// - healthy / degraded: serving requests, degraded after recent failures
+// - open: the circuit breaker is open and the endpoint is skipped until its cooldown ends
+export type RpcEndpointStatus = 'unknown' | 'healthy' | 'degraded' | 'open';
+
+export interface RpcEndpointHealth {
+  url: string; // Host only, since paths and query strings often carry API keys
+  status: RpcEndpointStatus;
+  latencyMs: number | null; // Moving average over successful requests
+  successRate: number | null;
+  totalRequests: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastSuccessAt?: number;
+  circuitOpenUntil?: number;
+}
+
+export interface RpcChainHealth {
+  chainKey: string;
+  status: 'unknown' | 'healthy' | 'degraded' | 'down';
+  endpoints: RpcEndpointHealth[];
+}
+
+// How a chain's reads were sent: one Multicall3 aggregate3 call, one JSON-RPC batch, or one request each
+export type ChainReadMode = 'multicall3' | 'rpcBatch' | 'sequential';
+
 export interface ChainData {
   chainKey: string;
   eid: string;
-  blockNumber: number;
-  timestamp: number;
+  blockNumber: number; // Every value in `data` was read at this block
+  timestamp: number; // Unix seconds
   data: any;
+  error?: string; // Set when the read failed; `data` then holds { error }
+  readMode?: ChainReadMode;
+  resolvedFrom?: number; // For timestamp queries, the requested time blockNumber was resolved from
+  roundTrips?: number; // RPC round trips it took to read this chain
+  durationMs?: number;
 }
 
 export interface CrossChainQuery {
-  address: string;
-  queryType: 'balance' | 'transactions' | 'nonce' | 'storage' | 'code';
+  address: string; // For call queries, the contract to call
+  queryType: 'balance' | 'transactions' | 'nonce' | 'storage' | 'code' | 'call';
   chains: string[]; // Chain keys to query
   blockNumber?: number; // Optional specific block number, defaults to latest
+  timestamp?: number; // Unix seconds; each chain is read at its last block at or before this time
+  call?: ContractCall; // Required for call queries
+  transactions?: TransactionQueryOptions; // For transactions queries
+  storage?: StorageQuery; // For storage queries; slot 0 when omitted
+  compute?: LzReadComputeSpec; // Simulated lzMap / lzReduce over the per-chain responses
+}
+
+// A view call described by its ABI, for call queries
+export interface ContractCall {
+  abi: string; // JSON ABI (or a compiler artifact with an `abi` field), or human-readable signatures one per line
+  functionName: string; // Name, or the full signature when the name is overloaded
+  args: string[]; // One per input; arrays and tuples as JSON
+}
+
+export interface AbiParam {
+  name: string;
+  type: string; // Canonical type, e.g. uint256 or (address,uint256)[]
+}
+
+export interface AbiFunctionInfo {
+  name: string;
+  signature: string; // e.g. balanceOf(address)
+  selector: string;
+  stateMutability: string;
+  inputs: AbiParam[];
+  outputs: AbiParam[];
+}
+
+// A return value decoded by ABI; integers are decimal strings, tuples are objects keyed by component name
+export interface DecodedAbiValue extends AbiParam {
+  value: unknown;
+}
+
+// ChainData.data for call queries
+export interface ContractCallData {
+  function: string; // Signature that was called
+  raw: string; // Return data as returned by eth_call
+  values: DecodedAbiValue[];
 }
 
 export interface CrossChainResult {
@@ -92,37 +328,406 @@ export interface CrossChainResult {
   queryType: string;
   results: ChainData[];
   timestamp: number;
+  command?: string; // Hex lzRead command that reads the same values at the same blocks
+  commandUnavailable?: string; // Why no command could be built for this query
+  compute?: LzReadComputeResult; // When the query asked for a compute simulation
+  computeError?: string;
+  timeline?: TransactionRecord[]; // Transactions queries: every chain's page merged, newest first
+  codeParity?: CodeParity; // Code queries: chains grouped by effective code hash (the implementation's, for proxies)
+}
+
+// How a proxy finds its implementation
+export type ProxyKind =
+  | 'eip1967' // Implementation in the EIP-1967 slot, upgraded through the implementation (UUPS)
+  | 'transparent' // EIP-1967 implementation and admin slots, upgraded by the admin
+  | 'beacon' // EIP-1967 beacon slot; the beacon's implementation() is the logic contract
+  | 'eip1822' // Implementation in the EIP-1822 PROXIABLE slot
+  | 'eip1167'; // Minimal proxy with the implementation address in its bytecode
+
+export interface ContractCode {
+  address: string;
+  codeHash: string | null; // keccak256 of the runtime bytecode; null when there is no code
+  codeSize: number; // Bytes
+}
+
+export interface ContractInspection extends ContractCode {
+  isContract: boolean;
+  proxy?: {
+    kind: ProxyKind;
+    admin?: string; // Transparent proxies
+    beacon?: string; // Beacon proxies
+  };
+  implementation?: ContractCode;
+  effectiveCodeHash: string | null; // The implementation's code hash for proxies, otherwise the contract's own
+}
+
+// ChainData.data for code queries
+export interface CodeInspectionData extends ContractInspection {
+  code: string; // Runtime bytecode of the queried address
+}
+
+// Chains grouped by code hash, to tell whether the "same" contract really is identical everywhere
+export interface CodeParity {
+  identical: boolean; // Every chain has code and all hashes match
+  groups: { codeHash: string | null; chains: string[] }[]; // Largest group first
+}
+
+// Bytecode verification of the protocol contracts listed in the deployment metadata
+export type BytecodeCheckStatus =
+  | 'match' // Same code as most chains for this contract kind
+  | 'immutables' // Same code apart from embedded immutable values, e.g. the chain's eid
+  | 'mismatch' // Different code from most chains
+  | 'missing' // No code and no transactions: nothing is deployed at the address
+  | 'eoa' // No code, but the address has sent transactions
+  | 'error' // The chain could not be read
+  | 'skipped'; // Not an EVM address, or no RPC configured for the chain
+
+export interface BytecodeCheck {
+  kind: ContractKind;
+  address: string;
+  status: BytecodeCheckStatus;
+  codeHash?: string | null; // Effective code hash: the implementation's for proxies
+  codeSize?: number;
+  proxy?: ContractInspection['proxy'];
+  implementation?: string;
+  referenceHash?: string; // Most common code hash for this kind across the checked chains
+  matchingChains?: number; // Chains whose code for this kind has the reference hash
+  comparedChains?: number; // Chains with code for this kind
+  detail?: string;
+}
+
+export interface DeploymentBytecodeReport {
+  deploymentId: string;
+  chainKey: string;
+  eid: string;
+  blockNumber?: number;
+  checkedAt: string;
+  contracts: BytecodeCheck[];
+}
+
+export interface BytecodeVerificationJob {
+  id: string;
+  stage: string;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  completedAt?: string;
+  progress: { done: number; total: number }; // Deployments checked
+  summary?: Partial<Record<BytecodeCheckStatus, number>>; // Contracts per status
+  error?: string;
+}
+
+// An address read from chain, named from the deployment metadata when it is known
+export interface LabeledAddress {
+  address: string;
+  label?: string; // Contract label (e.g. SendUln302) or DVN provider name
+  kind?: ContractKind; // For the chain's own protocol contracts
+  dvnProviderId?: string; // For DVNs in the registry
+  deprecated?: boolean; // DVNs marked deprecated in the metadata
+}
+
+// UlnConfig as returned by EndpointV2.getConfig(oapp, lib, eid, 2), with defaults applied
+export interface UlnConfigData {
+  confirmations: string;
+  requiredDVNCount: number;
+  optionalDVNCount: number;
+  optionalDVNThreshold: number;
+  requiredDVNs: LabeledAddress[];
+  optionalDVNs: LabeledAddress[];
+}
+
+// ExecutorConfig as returned by EndpointV2.getConfig(oapp, sendLib, eid, 1)
+export interface ExecutorConfigData {
+  maxMessageSize: number;
+  executor: LabeledAddress;
+}
+
+// An OApp's configuration towards one remote endpoint
+export interface OAppPathwayConfig {
+  remoteEid: string;
+  remoteChainKey?: string;
+  peer: string | null; // bytes32 peer, null when none is set
+  sendLibrary?: LabeledAddress & { isDefault: boolean };
+  receiveLibrary?: LabeledAddress & { isDefault: boolean };
+  sendUlnConfig?: UlnConfigData;
+  receiveUlnConfig?: UlnConfigData;
+  executorConfig?: ExecutorConfigData;
+  errors?: string[]; // Reads that failed, e.g. config from a blocked library
+}
+
+export interface OAppConfig {
+  address: string;
+  chainKey: string;
+  eid: string;
+  endpoint: string; // EndpointV2 the config was read from
+  delegate: string | null;
+  blockNumber: number;
+  scannedEids: number; // Remote endpoints checked for a peer
+  pathways: OAppPathwayConfig[]; // Remote endpoints with a peer, or every requested one
+}
+
+export type AuditSeverity = 'high' | 'medium' | 'low' | 'info';
+
+// The columns of the audit matrix; every finding belongs to one of them
+export type AuditCheck = 'peer' | 'dvnCount' | 'dvnStatus' | 'library' | 'confirmations';
+
+export interface AuditFinding {
+  check: AuditCheck;
+  severity: AuditSeverity;
+  direction?: 'send' | 'receive';
+  message: string;
+}
+
+export interface PathwayAudit {
+  remoteEid: string;
+  remoteChainKey?: string;
+  peer: string | null;
+  risk: AuditSeverity | 'none'; // The most severe finding
+  findings: AuditFinding[];
+  remoteConfig?: OAppPathwayConfig; // The peer's pathway back, when it could be read
+}
+
+export interface OAppAudit {
+  address: string;
+  chainKey: string;
+  eid: string;
+  blockNumber: number;
+  auditedAt: string;
+  pathways: PathwayAudit[];
+  summary: Partial<Record<AuditSeverity | 'none', number>>; // Pathways per risk
+}
+
+// Explorer selections for generating an lzRead layerzero.config.ts
+export interface ReadConfigRequest {
+  chains: string[];
+  stage?: string; // Defaults to mainnet
+  contractName: string; // The OApp's hardhat-deploy contract name
+  requiredDVNs: string[]; // DVN provider IDs
+  optionalDVNs?: string[];
+  optionalDVNThreshold?: number;
+  channelId?: number; // Defaults to ChannelId.READ_CHANNEL_1
+  enforcedOptions?: { gas: number; size: number; value?: number }; // LZ_READ executor option
+}
+
+// One chain's read channel config, resolved from the deployment metadata
+export interface ReadConfigContract {
+  chainKey: string;
+  eid: string;
+  readLibrary: string;
+  executor: string;
+  requiredDVNs: LabeledAddress[];
+  optionalDVNs: LabeledAddress[];
+}
+
+export interface GeneratedReadConfig {
+  fileName: string;
+  source: string; // layerzero.config.ts contents
+  contracts: ReadConfigContract[];
+  skipped: { chainKey: string; reason: string }[]; // Selected chains that cannot host a read OApp
+}
+
+// One storage slot to read, by one of: a raw slot (optionally into mappings / arrays),
+// an EIP-1967 proxy slot, or a variable path resolved through the storage layout
+export interface StorageSlotQuery {
+  slot?: string; // Decimal or hex slot number, or a 32-byte slot hash
+  keys?: string[]; // Mapping keys applied to `slot` in order; types are inferred (address, bytes32, uint256, else string)
+  index?: string; // Dynamic array element at `slot` (after any keys), one slot per element
+  type?: string; // Decode the word as this type, e.g. uint256, address, bool, bytes32
+  eip1967?: 'implementation' | 'admin' | 'beacon';
+  variable?: string; // Layout path such as owner, balances[0xabc...], users[3].score or config.fees[2]
+}
+
+export interface StorageQuery {
+  slots: StorageSlotQuery[];
+  layout?: string; // solc storageLayout JSON (or an artifact containing one), for variable paths and decoding
+}
+
+export interface ResolvedStorageSlot {
+  label: string; // What was asked for, e.g. the variable path or the EIP-1967 slot name
+  slot: string; // 32-byte slot
+  offset: number; // Byte offset of the value within the slot, from the right
+  type?: string; // Type the value is decoded as
+}
+
+export interface StorageSlotValue extends ResolvedStorageSlot {
+  word: string; // The 32-byte word stored in the slot
+  decoded?: string; // The value at offset decoded by type; addresses and bytes as hex, integers in decimal
+}
+
+// ChainData.data for storage queries
+export interface StorageReadData {
+  slots: StorageSlotValue[];
+}
+
+export interface TransactionQueryOptions {
+  fromBlock?: number; // Defaults to a window of recent blocks below toBlock
+  toBlock?: number; // Defaults to the head, or the block resolved from the query's timestamp
+  page?: number; // 1-based, newest first
+  pageSize?: number;
+}
+
+export interface TransactionRecord {
+  chainKey: string;
+  hash: string;
+  blockNumber: number;
+  timestamp: number; // Unix seconds
+  from: string;
+  to: string | null; // null for contract creations
+  value: string; // Native amount in wei, as a decimal string
+  direction: 'in' | 'out' | 'self';
+  selector?: string; // First four bytes of the input, for contract calls
+  method: string; // Decoded function name, "value transfer", "create", or the selector when unknown
+  status?: 'success' | 'failed'; // When the source reports it
+}
+
+// ChainData.data for transactions queries
+export interface TransactionHistoryData {
+  transactions: TransactionRecord[];
+  source: string; // History source the page came from
+  fromBlock: number;
+  toBlock: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+}
+
+export type LzReduceOperation = 'sum' | 'min' | 'max' | 'median' | 'average' | 'collect';
+
+// Steps of a simulated lzRead compute. Each response is mapped to one integer, and the
+// reduce step combines them, with Solidity integer semantics.
+export interface LzReadComputeSpec {
+  map?: {
+    field?: string; // For call queries, a return value by name or index, with dotted paths into tuples; for storage
+                    // queries, a slot by label or index. Defaults to the first
+    scale?: { fromDecimals: number; toDecimals: number }; // Rescale, e.g. to compare prices quoted with different decimals
+  };
+  reduce?: LzReduceOperation; // collect returns every mapped value as an array
+}
+
+export interface LzReadComputeResponse {
+  chainKey: string;
+  eid: string;
+  raw: string; // Response bytes as the read returned them
+  mapped: string; // What lzMap returns for the response
+  value: string; // The mapped integer
+}
+
+export interface LzReadComputeResult {
+  computeSetting: EVMCallComputeSetting;
+  responses: LzReadComputeResponse[]; // In request order
+  reduceInput: string[]; // The bytes[] lzReduce receives
+  payload: string; // What the OApp receives in _lzReceive
+  value: string | string[]; // The payload decoded
+  valueType: string; // ABI type of the payload, or "packed uint256[]" when map-only responses are delivered back to back
+  skipped?: Record<string, string>; // Failed chains; a real command would not be delivered with these
+}
+
+// lzRead command structures, laid out as LayerZero's ReadCodecV1 encodes them
+export interface EVMCallRequestV1 {
+  appRequestLabel: number; // uint16
+  targetEid: number; // uint32
+  isBlockNum: boolean; // Whether blockNumOrTimestamp is a block number or a unix timestamp
+  blockNumOrTimestamp: number; // uint64
+  confirmations: number; // uint16
+  to: string;
+  callData: string;
+}
+
+// 0: lzMap only, 1: lzReduce only, 2: lzMap then lzReduce
+export type EVMCallComputeSetting = 0 | 1 | 2;
+
+export interface EVMCallComputeV1 {
+  computeSetting: EVMCallComputeSetting;
+  targetEid: number; // Chain the compute contract lives on
+  isBlockNum: boolean;
+  blockNumOrTimestamp: number;
+  confirmations: number;
+  to: string; // Contract implementing lzMap / lzReduce
+}
+
+export interface LzReadCommand {
+  appCmdLabel: number; // uint16
+  requests: EVMCallRequestV1[];
+  compute?: EVMCallComputeV1;
 }
 
 export interface AssetData {
   chain: string;
   eid: string;
-  assetType: 'native' | 'erc20' | 'erc721' | 'other';
+  assetType: 'native' | 'erc20' | 'erc721' | 'erc1155' | 'other';
   symbol?: string;
-  name?: string;
+  name?: string; // Token name, or the collection name for NFTs
   balance: string;
   balanceFormatted?: string;
   decimals?: number;
   contractAddress?: string;
+  tokenIds?: string[]; // NFT token ids held, when they can be listed
+  cgId?: string; // CoinGecko id used to price the asset
+  usdPrice?: number;
+  usdValue?: number;
   blockNumber: number;
   lastUpdated: number;
 }
 
+// USD value of a wallet scan's priced assets
+export interface PortfolioValue {
+  totalUsd: number;
+  byChain: Record<string, number>;
+  source: string; // Price provider the values came from
+  unpricedAssets: number; // Native and ERC-20 assets without a price
+}
+
 export interface WalletScanResult {
   address: string;
   totalChains: number;
   chainsWithAssets: number;
   assets: AssetData[];
+  portfolio?: PortfolioValue; // Only when a price provider is configured
+  errors?: Record<string, string>; // Chains that could not be scanned, with the reason
+  roundTrips?: number; // RPC round trips across all chains
   timestamp: number;
 }
 
+export type LzReadRequestStatus = 'pending' | 'completed' | 'failed';
+
+export type LzReadChainStatus = 'pending' | 'running' | 'done' | 'failed';
+
+// Where one target chain of a request has got to
+export interface LzReadChainProgress {
+  status: LzReadChainStatus;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
 export interface LzReadRequest {
   id: string;
   sourceChain: string;
   targetChains: string[];
   requestType: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: LzReadRequestStatus;
   timestamp: number;
+  address?: string; // Queried or scanned address
+  query?: CrossChainQuery;
   result?: CrossChainResult;
   walletScan?: WalletScanResult;
+  progress?: Record<string, LzReadChainProgress>; // Keyed by chain key
+  error?: string; // Why the request failed
+  completedAt?: number;
+  durationMs?: number;
+}
+
+export interface LzReadHistoryFilters {
+  address?: string;
+  requestType?: string;
+  status?: LzReadRequestStatus;
+  chain?: string; // Requests that targeted this chain
+  page?: number; // 1-based
+  limit?: number;
+}
+
+export interface LzReadHistoryPage {
+  requests: LzReadRequest[];
+  total: number;
+  page: number;
+  limit: number;
 }